@@ -1,8 +1,13 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
 import packageJson from '../package.json';
+import { registerAddPackageCommand } from './commands/add-package';
+import { registerConfigCommand } from './commands/config';
+import { registerDoctorCommand } from './commands/doctor';
 import { registerInitCommand } from './commands/init';
 import { registerPrepareReleaseCommand } from './commands/prepare-release';
+import { registerSyncCommand } from './commands/sync';
+import { registerTemplatesCommand } from './commands/templates';
 
 const { version: VERSION, name: NAME } = packageJson;
 
@@ -15,7 +20,12 @@ export function createProgram(): Command {
     .version(VERSION);
 
   registerInitCommand(program);
+  registerAddPackageCommand(program);
   registerPrepareReleaseCommand(program);
+  registerSyncCommand(program);
+  registerTemplatesCommand(program);
+  registerConfigCommand(program);
+  registerDoctorCommand(program);
 
   return program;
 }
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as npmUtils from '../utils/npm';
+import { addPackage } from './add-package';
+
+describe('add-package command', () => {
+  const testDir = path.join(import.meta.dir, '../../.test-add-package');
+  let getLatestVersionsSpy: ReturnType<typeof spyOn>;
+  let logSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+    await fs.mkdir(path.join(testDir, 'packages/core'), { recursive: true });
+    await fs.writeFile(
+      path.join(testDir, 'package.json'),
+      JSON.stringify({
+        name: 'core-root',
+        private: true,
+        workspaces: ['packages/*'],
+        author: 'root-author',
+        license: 'Apache-2.0',
+        packageManager: 'pnpm@9.15.0',
+      }),
+    );
+    await fs.writeFile(
+      path.join(testDir, 'packages/core/package.json'),
+      '{ "name": "@scope/core", "version": "0.4.0" }',
+    );
+    await fs.writeFile(
+      path.join(testDir, '.tagpr'),
+      '[tagpr]\nversionFile = "packages/core/package.json"\n',
+    );
+
+    getLatestVersionsSpy = spyOn(
+      npmUtils,
+      'getLatestVersions',
+    ).mockResolvedValue({ commander: '12.0.0' });
+    logSpy = spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    getLatestVersionsSpy.mockRestore();
+    logSpy.mockRestore();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should add a package that shares the workspace version', async () => {
+    await addPackage({
+      name: '@scope/tool',
+      targetDir: testDir,
+      kind: 'cli',
+      isDevcode: true,
+    });
+
+    const packageJson = JSON.parse(
+      await fs.readFile(
+        path.join(testDir, 'packages/tool/package.json'),
+        'utf-8',
+      ),
+    );
+    expect(packageJson.name).toBe('@scope/tool');
+    expect(packageJson.version).toBe('0.4.0');
+    expect(packageJson.private).toBe(true);
+    expect(packageJson.author).toBe('root-author');
+    expect(packageJson.license).toBe('Apache-2.0');
+    expect(packageJson.dependencies).toEqual({ commander: '^12.0.0' });
+    // pnpm is detected from the root package.json
+    expect(packageJson.scripts.test).toBe('vitest run --passWithNoTests');
+
+    await fs.access(path.join(testDir, 'packages/tool/tsconfig.json'));
+    await fs.access(path.join(testDir, 'packages/tool/src/index.ts'));
+
+    const tagpr = await fs.readFile(path.join(testDir, '.tagpr'), 'utf-8');
+    expect(tagpr).toContain(
+      'versionFile = "packages/core/package.json,packages/tool/package.json"',
+    );
+  });
+
+  test('should refuse to overwrite an existing package', async () => {
+    await expect(
+      addPackage({ name: 'core', targetDir: testDir, isDevcode: false }),
+    ).rejects.toThrow();
+  });
+
+  test('should reject a directory that is not a workspace root', async () => {
+    await fs.writeFile(
+      path.join(testDir, 'package.json'),
+      '{ "name": "single" }',
+    );
+
+    await expect(
+      addPackage({ name: 'tool', targetDir: testDir, isDevcode: false }),
+    ).rejects.toThrow('is not a workspace root');
+  });
+});
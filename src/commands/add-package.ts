@@ -0,0 +1,195 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Command } from 'commander';
+import { DEFAULT_LICENSE } from '../config';
+import {
+  DEFAULT_KIND,
+  SUPPORTED_KINDS,
+  validateKind,
+} from '../generators/kinds';
+import { getDependencies } from '../generators/languages/typescript';
+import { validateLicense } from '../generators/licenses';
+import {
+  detectPackageManager,
+  getPackageManager,
+} from '../generators/package-managers';
+import {
+  applyGeneratedFiles,
+  validateProjectName,
+} from '../generators/project';
+import { getTemplateLayers, loadTemplateLayers } from '../generators/templates';
+import {
+  addTagprVersionFile,
+  generateMemberFiles,
+  getMemberDir,
+  isWorkspaceRoot,
+  readWorkspaceVersion,
+} from '../generators/workspace';
+import type { ProjectKind, VersionPolicy } from '../types';
+import { configureHttp, resolveHttpOptions } from '../utils/http';
+import { loadConfig } from '../utils/initrepo-config';
+import { getLatestVersions } from '../utils/npm';
+import { loadNpmrc } from '../utils/npmrc';
+import {
+  configureVersionCache,
+  printVersionSources,
+} from '../utils/version-cache';
+import { resolveVersionPolicy } from '../utils/version-policy';
+import { printFileResults } from './init';
+
+export interface AddPackageOptions {
+  /** Package name (e.g., @scope/name) */
+  name: string;
+  /** Workspace root (defaults to current directory) */
+  targetDir?: string;
+  kind?: ProjectKind;
+  isDevcode: boolean;
+  /** Defaults to the root package.json author */
+  author?: string;
+  /** Defaults to the root package.json license */
+  license?: string;
+  versionPolicy?: VersionPolicy;
+}
+
+async function readRootPackageJson(
+  rootDir: string,
+): Promise<{ author?: string; license?: string }> {
+  try {
+    const content = await fs.readFile(
+      path.join(rootDir, 'package.json'),
+      'utf-8',
+    );
+    return JSON.parse(content) as { author?: string; license?: string };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Scaffolds a new package under packages/ of an existing workspace and adds
+ * it to the tagpr versionFile list
+ */
+export async function addPackage(options: AddPackageOptions): Promise<void> {
+  const rootDir = options.targetDir ?? process.cwd();
+  validateProjectName(options.name);
+
+  if (!(await isWorkspaceRoot(rootDir))) {
+    throw new Error(
+      `${rootDir} is not a workspace root (no "workspaces" in package.json or pnpm-workspace.yaml). Create one with: initrepo init <name> --workspaces`,
+    );
+  }
+
+  const root = await readRootPackageJson(rootDir);
+  const kind = options.kind ?? DEFAULT_KIND;
+  const { name: packageManager } = await detectPackageManager(rootDir);
+  const memberDir = getMemberDir(options.name);
+  const initOptions = {
+    projectName: options.name,
+    lang: 'typescript' as const,
+    isDevcode: options.isDevcode,
+    author: options.author ?? root.author,
+    license: validateLicense(
+      options.license ?? root.license ?? DEFAULT_LICENSE,
+    ),
+    packageManager,
+    kind,
+    versionPolicy: options.versionPolicy,
+  };
+
+  const [versions, version] = await Promise.all([
+    getLatestVersions(getDependencies(kind), options.versionPolicy),
+    readWorkspaceVersion(rootDir),
+  ]);
+  const files = await generateMemberFiles(initOptions, versions, version);
+
+  const devcodeLabel = options.isDevcode ? ' [devcode]' : '';
+  console.log(`Adding package: ${options.name} (${kind})${devcodeLabel}`);
+  const { results } = await applyGeneratedFiles(rootDir, files);
+  printFileResults(results);
+
+  const versionFile = `${memberDir}/package.json`;
+  if (await addTagprVersionFile(rootDir, versionFile)) {
+    console.log(`✅ Added ${versionFile} to .tagpr versionFile`);
+  } else {
+    console.warn(
+      `⚠️  No versionFile in .tagpr; add ${versionFile} to release it with the other packages`,
+    );
+  }
+
+  const pm = getPackageManager(packageManager);
+  console.log(`\n   Run "${pm.name} install" to link the new package`);
+}
+
+interface AddPackageCommandOptions {
+  targetDir?: string;
+  kind?: string;
+  devcode?: boolean;
+  author?: string;
+  license?: string;
+  templates?: string;
+  offline?: boolean;
+  refresh?: boolean;
+}
+
+export function registerAddPackageCommand(program: Command): void {
+  program
+    .command('add-package <name>')
+    .description('Add a package to a workspace created with init --workspaces')
+    .option(
+      '-t, --target-dir <path>',
+      'Workspace root (defaults to current directory)',
+    )
+    .option(
+      '--kind <kind>',
+      `Package kind (${SUPPORTED_KINDS.join(', ')}, default: ${DEFAULT_KIND})`,
+    )
+    .option('-d, --devcode', 'Mark the package as private until release')
+    .option('-a, --author <name>', 'Package author (defaults to the root)')
+    .option('--license <spdx>', 'License (defaults to the root)')
+    .option('--templates <dir>', 'Additional template directory')
+    .option('--offline', 'Use only cached or built-in fallback versions')
+    .option('--refresh', 'Fetch versions even if they are cached')
+    .action(async (name: string, opts: AddPackageCommandOptions) => {
+      try {
+        const { config } = await loadConfig({ projectDir: opts.targetDir });
+        await configureHttp(
+          resolveHttpOptions({
+            timeout: config.httpTimeout,
+            retries: config.httpRetries,
+            caFile: config.caFile,
+          }),
+        );
+        await loadNpmrc({ projectDir: opts.targetDir });
+        configureVersionCache({
+          offline: opts.offline ?? config.offline,
+          refresh: opts.refresh,
+        });
+        await loadTemplateLayers(
+          getTemplateLayers({
+            projectDir: opts.targetDir,
+            templatesDir: opts.templates ?? config.templates,
+          }),
+        );
+        await addPackage({
+          name,
+          targetDir: opts.targetDir,
+          kind: validateKind(opts.kind ?? config.kind ?? DEFAULT_KIND),
+          isDevcode: opts.devcode ?? config.devcode ?? false,
+          author: opts.author,
+          license: opts.license,
+          // Same policy as init, from .initreporc
+          versionPolicy: resolveVersionPolicy({
+            minReleaseAge: config.minReleaseAge,
+            rangeStyle: config.rangeStyle,
+            pins: config.pins,
+          }),
+        });
+        printVersionSources();
+      } catch (error) {
+        console.error(
+          `❌ Failed to add package: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,22 @@
+import { describe, expect, test } from 'bun:test';
+import { Command } from 'commander';
+import { getConfig, registerConfigCommand } from './config';
+
+describe('config command', () => {
+  test('should register list, get and set subcommands', () => {
+    const program = new Command();
+    registerConfigCommand(program);
+
+    const cmd = program.commands.find((c) => c.name() === 'config');
+    expect(cmd?.commands.map((c) => c.name())).toEqual(['list', 'get', 'set']);
+
+    const set = cmd?.commands.find((c) => c.name() === 'set');
+    expect(set?.options.map((o) => o.long)).toContain('--project');
+  });
+
+  test('getConfig should reject unknown keys', async () => {
+    expect(getConfig('language')).rejects.toThrow(
+      'Unknown config key: language',
+    );
+  });
+});
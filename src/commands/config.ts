@@ -0,0 +1,140 @@
+import type { Command } from 'commander';
+import {
+  CONFIG_KEYS,
+  type ConfigDirs,
+  type ConfigKey,
+  type ConfigScope,
+  isConfigKey,
+  type LoadedConfig,
+  loadConfig,
+  parseConfigValue,
+  setConfigValue,
+} from '../utils/initrepo-config';
+
+function validateConfigKey(key: string): ConfigKey {
+  if (!isConfigKey(key)) {
+    throw new Error(
+      `Unknown config key: ${key}. Valid keys: ${CONFIG_KEYS.join(', ')}`,
+    );
+  }
+  return key;
+}
+
+function formatSource(loaded: LoadedConfig, key: ConfigKey): string {
+  const scope = loaded.sources[key];
+  const file = loaded.files.find((f) => f.scope === scope);
+  return file ? `${scope}: ${file.path}` : '';
+}
+
+/**
+ * Prints the effective config with the file each value comes from
+ */
+export function printConfig(loaded: LoadedConfig): void {
+  if (loaded.files.length === 0) {
+    console.log('No config file found (.initreporc, initrepo.config.ts)');
+    return;
+  }
+
+  console.log('Config files:');
+  for (const file of loaded.files) {
+    console.log(`   ${file.scope.padEnd(8)} ${file.path}`);
+  }
+
+  console.log('\nValues:');
+  for (const key of CONFIG_KEYS) {
+    const value = loaded.config[key];
+    if (value !== undefined) {
+      console.log(
+        `   ${key} = ${String(value)}  (${formatSource(loaded, key)})`,
+      );
+    }
+  }
+}
+
+export async function getConfig(
+  key: string,
+  dirs: ConfigDirs = {},
+): Promise<string | boolean | undefined> {
+  const { config } = await loadConfig(dirs);
+  return config[validateConfigKey(key)];
+}
+
+export async function setConfig(
+  key: string,
+  value: string | undefined,
+  scope: ConfigScope,
+  dirs: ConfigDirs = {},
+): Promise<string> {
+  const configKey = validateConfigKey(key);
+  return setConfigValue(
+    scope,
+    configKey,
+    value === undefined ? undefined : parseConfigValue(configKey, value),
+    dirs,
+  );
+}
+
+function handleError(error: unknown): never {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
+export function registerConfigCommand(program: Command): void {
+  const config = program
+    .command('config')
+    .description(
+      'Manage init defaults (.initreporc in the project or home directory)',
+    );
+
+  config
+    .command('list')
+    .description('Show the effective config and where each value comes from')
+    .action(async () => {
+      try {
+        printConfig(await loadConfig());
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  config
+    .command('get <key>')
+    .description(`Print a config value (${CONFIG_KEYS.join(', ')})`)
+    .action(async (key: string) => {
+      try {
+        const value = await getConfig(key);
+        if (value !== undefined) {
+          console.log(String(value));
+        }
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  config
+    .command('set <key> [value]')
+    .description('Set a config value (omit the value to unset it)')
+    .option(
+      '--project',
+      'Write to the project config in the current directory instead of ~/.initreporc',
+    )
+    .action(
+      async (
+        key: string,
+        value: string | undefined,
+        opts: { project?: boolean },
+      ) => {
+        try {
+          const filePath = await setConfig(
+            key,
+            value,
+            opts.project ? 'project' : 'user',
+          );
+          const action = value === undefined ? 'Unset' : 'Set';
+          console.log(`✅ ${action} ${key} in ${filePath}`);
+        } catch (error) {
+          handleError(error);
+        }
+      },
+    );
+}
@@ -0,0 +1,330 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { generateProject } from '../generators/project';
+import * as githubUtils from '../utils/github';
+import * as githubRepo from '../utils/github-repo';
+import * as npmUtils from '../utils/npm';
+import {
+  checkGitHub,
+  checkLocal,
+  type DoctorCheck,
+  findReferencedSecrets,
+  parseRepoArgument,
+  runDoctor,
+} from './doctor';
+
+describe('doctor command', () => {
+  const testDir = path.join(import.meta.dir, '../../.test-doctor');
+  const originalEnv = { ...process.env };
+
+  beforeEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+    await fs.mkdir(path.join(testDir, '.github/workflows'), {
+      recursive: true,
+    });
+    delete process.env.GITHUB_TOKEN;
+    delete process.env.GH_TOKEN;
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function writeFile(filePath: string, content: string): Promise<void> {
+    await fs.writeFile(path.join(testDir, filePath), content);
+  }
+
+  async function writeWorkflows(tagpr: string): Promise<void> {
+    await writeFile('.github/workflows/tagpr.yml', tagpr);
+    await writeFile('.github/workflows/ci.yml', 'name: CI\n');
+    await writeFile('.github/workflows/codeql.yml', 'name: CodeQL\n');
+  }
+
+  function findCheck(
+    checks: DoctorCheck[],
+    name: string,
+  ): DoctorCheck | undefined {
+    return checks.find((check) => check.name === name);
+  }
+
+  describe('checkLocal', () => {
+    test('should flag a publish workflow left in a devcode project', async () => {
+      await writeFile(
+        'package.json',
+        JSON.stringify({ name: 'my-devcode', private: true }),
+      );
+      await writeWorkflows(
+        `# TODO: add token: \${{ secrets.PAT_FOR_TAGPR }}\nGITHUB_TOKEN: \${{ secrets.GITHUB_TOKEN }}\n`,
+      );
+      await writeFile('.github/workflows/publish.yml', 'name: Publish\n');
+      await writeFile('bun.lock', '');
+
+      const checks = await checkLocal(testDir);
+
+      expect(findCheck(checks, 'Project')).toMatchObject({
+        status: 'ok',
+        message: 'package.json: my-devcode (devcode)',
+      });
+      expect(findCheck(checks, 'tagpr.yml')?.status).toBe('ok');
+      expect(findCheck(checks, 'Publish')).toMatchObject({
+        status: 'error',
+        hint: expect.stringContaining('prepare-release'),
+      });
+      expect(findCheck(checks, 'Lockfile')?.status).toBe('ok');
+    });
+
+    test('should flag a released project whose tagpr.yml uses GITHUB_TOKEN', async () => {
+      await writeFile(
+        'package.json',
+        JSON.stringify({ name: 'released', packageManager: 'pnpm@9.0.0' }),
+      );
+      await writeWorkflows(`GITHUB_TOKEN: \${{ secrets.GITHUB_TOKEN }}\n`);
+
+      const checks = await checkLocal(testDir);
+
+      expect(findCheck(checks, 'tagpr.yml')?.status).toBe('error');
+      expect(findCheck(checks, 'Lockfile')).toMatchObject({
+        status: 'error',
+        message: expect.stringContaining('pnpm-lock.yaml'),
+        hint: 'Run pnpm install and commit pnpm-lock.yaml',
+      });
+    });
+
+    test('should check each package of a workspace root', async () => {
+      await writeFile(
+        'package.json',
+        JSON.stringify({
+          name: 'my-tools-root',
+          private: true,
+          workspaces: ['packages/*'],
+        }),
+      );
+      await fs.mkdir(path.join(testDir, 'packages/cli'), { recursive: true });
+      await fs.mkdir(path.join(testDir, 'packages/core'), { recursive: true });
+      await writeFile(
+        'packages/cli/package.json',
+        JSON.stringify({ name: '@acme/cli' }),
+      );
+      await writeFile(
+        'packages/core/package.json',
+        JSON.stringify({ name: 'devcode-core', private: true }),
+      );
+      await writeWorkflows(`GITHUB_TOKEN: \${{ secrets.PAT_FOR_TAGPR }}\n`);
+      await writeFile('.github/workflows/publish-cli.yml', 'name: Publish\n');
+      await writeFile('.github/workflows/publish-core.yml', 'name: Publish\n');
+      await writeFile('bun.lock', '');
+
+      const checks = await checkLocal(testDir);
+
+      expect(findCheck(checks, 'Project')?.message).toBe(
+        'package.json: my-tools-root (workspace of @acme/cli, devcode-core (devcode))',
+      );
+      expect(findCheck(checks, 'tagpr.yml')).toMatchObject({
+        status: 'ok',
+        message: 'Uses PAT_FOR_TAGPR',
+      });
+      const publish = checks.filter((check) => check.name === 'Publish');
+      expect(publish).toHaveLength(1);
+      expect(publish[0]).toMatchObject({
+        status: 'error',
+        message: expect.stringContaining(
+          'publish-core.yml exists, but packages/core/package.json still has',
+        ),
+        hint: expect.stringContaining('--package'),
+      });
+    });
+
+    test('should report a missing project manifest', async () => {
+      const checks = await checkLocal(testDir);
+
+      expect(checks).toHaveLength(1);
+      expect(checks[0].status).toBe('error');
+      expect(checks[0].message).toContain('No project manifest found');
+    });
+  });
+
+  test('findReferencedSecrets should skip comments and GITHUB_TOKEN', async () => {
+    await writeWorkflows(
+      `# token: \${{ secrets.COMMENTED }}\ntoken: \${{ secrets.PAT_FOR_TAGPR }}\nGITHUB_TOKEN: \${{ secrets.GITHUB_TOKEN }}\n`,
+    );
+    await writeFile(
+      '.github/workflows/publish.yml',
+      `NODE_AUTH_TOKEN: \${{ secrets.NPM_TOKEN }}\n`,
+    );
+
+    expect(await findReferencedSecrets(testDir)).toEqual([
+      'NPM_TOKEN',
+      'PAT_FOR_TAGPR',
+    ]);
+  });
+
+  test('parseRepoArgument should require owner/repo', () => {
+    expect(parseRepoArgument('octo/project')).toEqual({
+      owner: 'octo',
+      repo: 'project',
+    });
+    expect(() => parseRepoArgument('project')).toThrow(
+      'Invalid repository: project',
+    );
+  });
+
+  describe('checkGitHub', () => {
+    let getRepoSettingsSpy: ReturnType<typeof spyOn>;
+    let listSecretNamesSpy: ReturnType<typeof spyOn>;
+    let isActionsEnabledSpy: ReturnType<typeof spyOn>;
+    let ensureTagprLabelsSpy: ReturnType<typeof spyOn>;
+
+    beforeEach(async () => {
+      getRepoSettingsSpy = spyOn(
+        githubRepo,
+        'getRepoSettings',
+      ).mockResolvedValue({ defaultBranch: 'main', labels: ['tagpr:minor'] });
+      listSecretNamesSpy = spyOn(
+        githubRepo,
+        'listSecretNames',
+      ).mockResolvedValue([]);
+      isActionsEnabledSpy = spyOn(
+        githubRepo,
+        'isActionsEnabled',
+      ).mockResolvedValue(false);
+      ensureTagprLabelsSpy = spyOn(
+        githubRepo,
+        'ensureTagprLabels',
+      ).mockResolvedValue(undefined);
+      await writeWorkflows(`token: \${{ secrets.PAT_FOR_TAGPR }}\n`);
+    });
+
+    afterEach(() => {
+      getRepoSettingsSpy.mockRestore();
+      listSecretNamesSpy.mockRestore();
+      isActionsEnabledSpy.mockRestore();
+      ensureTagprLabelsSpy.mockRestore();
+    });
+
+    test('should report missing labels, secrets and disabled Actions', async () => {
+      const checks = await checkGitHub(testDir, {
+        owner: 'octo',
+        repo: 'project',
+      });
+
+      expect(findCheck(checks, 'Default branch')?.status).toBe('ok');
+      expect(findCheck(checks, 'Labels')).toMatchObject({
+        status: 'error',
+        message: expect.stringContaining('tagpr:major'),
+      });
+      expect(findCheck(checks, 'Secrets')).toMatchObject({
+        status: 'error',
+        message: 'Workflows use PAT_FOR_TAGPR, which is not set',
+      });
+      expect(findCheck(checks, 'Actions')?.status).toBe('error');
+    });
+
+    test('should skip checks the token cannot read', async () => {
+      listSecretNamesSpy.mockRejectedValue(
+        Object.assign(new Error('Resource not accessible by integration'), {
+          status: 403,
+        }),
+      );
+
+      const checks = await checkGitHub(testDir, {
+        owner: 'octo',
+        repo: 'project',
+      });
+
+      expect(findCheck(checks, 'Secrets')).toMatchObject({
+        status: 'skip',
+        message: 'Could not check: Resource not accessible by integration',
+      });
+    });
+
+    test('runDoctor with fix should create the missing labels', async () => {
+      process.env.GITHUB_TOKEN = 'test-token';
+      await writeFile('package.json', JSON.stringify({ name: 'project' }));
+
+      const report = await runDoctor({
+        targetDir: testDir,
+        repo: { owner: 'octo', repo: 'project' },
+        fix: true,
+      });
+
+      expect(ensureTagprLabelsSpy).toHaveBeenCalledWith('octo', 'project');
+      expect(report.fixed).toEqual(['Created labels tagpr:major']);
+      expect(findCheck(report.github, 'Labels')?.status).toBe('ok');
+    });
+
+    test('runDoctor with fix should report a failing fix and run the others', async () => {
+      process.env.GITHUB_TOKEN = 'test-token';
+      await writeFile('package.json', JSON.stringify({ name: 'project' }));
+      await writeFile('.github/initrepo.json', '{}');
+      await fs.rm(path.join(testDir, '.github/workflows/ci.yml'));
+      ensureTagprLabelsSpy.mockRejectedValue(
+        new Error('Resource not accessible'),
+      );
+
+      const report = await runDoctor({
+        targetDir: testDir,
+        repo: { owner: 'octo', repo: 'project' },
+        fix: true,
+      });
+
+      expect(findCheck(report.local, 'Workflows')).toMatchObject({
+        status: 'error',
+        message: expect.stringContaining('(fix failed: '),
+      });
+      expect(findCheck(report.github, 'Labels')).toMatchObject({
+        status: 'error',
+        message: expect.stringContaining(
+          '(fix failed: Resource not accessible)',
+        ),
+      });
+      expect(report.fixed).toEqual([]);
+    });
+  });
+
+  describe('runDoctor', () => {
+    let getLatestVersionsSpy: ReturnType<typeof spyOn>;
+    let getLatestActionVersionsSpy: ReturnType<typeof spyOn>;
+
+    beforeEach(() => {
+      getLatestVersionsSpy = spyOn(
+        npmUtils,
+        'getLatestVersions',
+      ).mockImplementation(async (packages: string[]) =>
+        Object.fromEntries(packages.map((name) => [name, '1.0.0'])),
+      );
+      getLatestActionVersionsSpy = spyOn(
+        githubUtils,
+        'getLatestActionVersions',
+      ).mockResolvedValue({ ...githubUtils.GITHUB_ACTIONS });
+    });
+
+    afterEach(() => {
+      getLatestVersionsSpy.mockRestore();
+      getLatestActionVersionsSpy.mockRestore();
+    });
+
+    test('should restore missing workflows from the manifest with fix', async () => {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await generateProject({
+        projectName: 'doctor-project',
+        lang: 'typescript',
+        isDevcode: true,
+        author: 'test-author',
+        targetDir: testDir,
+      });
+      const ciPath = path.join(testDir, '.github/workflows/ci.yml');
+      const ci = await fs.readFile(ciPath, 'utf-8');
+      await fs.rm(ciPath);
+
+      const before = await runDoctor({ targetDir: testDir });
+      expect(findCheck(before.local, 'Workflows')?.status).toBe('error');
+      expect(findCheck(before.github, 'GitHub')?.status).toBe('skip');
+
+      const after = await runDoctor({ targetDir: testDir, fix: true });
+      expect(after.fixed).toEqual(['Restored .github/workflows/ci.yml']);
+      expect(await fs.readFile(ciPath, 'utf-8')).toBe(ci);
+    });
+  });
+});
@@ -0,0 +1,583 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Command } from 'commander';
+import {
+  type DetectedProject,
+  detectProject,
+  getManifestFiles,
+} from '../generators/detect';
+import { LANGUAGE_GENERATORS } from '../generators/languages';
+import { MANIFEST_PATH, readManifest } from '../generators/manifest';
+import { detectPackageManager } from '../generators/package-managers';
+import { applyGeneratedFiles, renderProject } from '../generators/project';
+import {
+  DEFAULT_BRANCH,
+  type GitHubRepoRef,
+  getGitHubRemote,
+} from '../utils/git';
+import { describeGitHubError, getGitHubToken } from '../utils/github-client';
+import {
+  ensureTagprLabels,
+  getRepoSettings,
+  isActionsEnabled,
+  listSecretNames,
+  TAGPR_LABELS,
+} from '../utils/github-repo';
+import { getPublishWorkflowPath } from './prepare-release';
+
+/** Workflows every generated project has */
+const REQUIRED_WORKFLOWS = [
+  '.github/workflows/tagpr.yml',
+  '.github/workflows/ci.yml',
+  '.github/workflows/codeql.yml',
+];
+
+const WORKFLOWS_DIR = '.github/workflows';
+
+export type CheckStatus = 'ok' | 'warn' | 'error' | 'skip';
+
+export interface DoctorCheck {
+  /** What was checked (e.g., "Labels") */
+  name: string;
+  status: CheckStatus;
+  message: string;
+  /** What to do about a failed check */
+  hint?: string;
+  /** Applies a safe fix and describes what it did */
+  fix?: () => Promise<string>;
+}
+
+export interface DoctorOptions {
+  /** Project directory (defaults to current directory) */
+  targetDir?: string;
+  /** GitHub repository to check (defaults to the origin remote) */
+  repo?: GitHubRepoRef;
+  /** Apply the safe fixes */
+  fix?: boolean;
+}
+
+export interface DoctorReport {
+  local: DoctorCheck[];
+  github: DoctorCheck[];
+  /** Repository the GitHub checks ran against, if any */
+  repo: GitHubRepoRef | null;
+  /** What --fix changed */
+  fixed: string[];
+}
+
+async function readOptionalFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return (await readOptionalFile(filePath)) !== null;
+}
+
+/**
+ * Lines of a workflow that are not YAML comments
+ */
+function stripComments(content: string): string[] {
+  return content
+    .split('\n')
+    .filter((line) => !line.trimStart().startsWith('#'));
+}
+
+/**
+ * Secrets the project's workflows reference, except the built-in GITHUB_TOKEN
+ */
+export async function findReferencedSecrets(
+  targetDir: string,
+): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(path.join(targetDir, WORKFLOWS_DIR));
+  } catch {
+    return [];
+  }
+
+  const secrets = new Set<string>();
+  for (const entry of entries.filter((name) => /\.ya?ml$/.test(name))) {
+    const content = await fs.readFile(
+      path.join(targetDir, WORKFLOWS_DIR, entry),
+      'utf-8',
+    );
+    for (const line of stripComments(content)) {
+      for (const match of line.matchAll(/secrets\.([A-Za-z_][A-Za-z0-9_]*)/g)) {
+        if (match[1] !== 'GITHUB_TOKEN') {
+          secrets.add(match[1]);
+        }
+      }
+    }
+  }
+  return [...secrets].sort();
+}
+
+/**
+ * Restores missing workflows by re-rendering the templates with the options
+ * and versions recorded in the manifest; existing files are never touched
+ */
+async function restoreWorkflows(
+  targetDir: string,
+  missing: string[],
+): Promise<string> {
+  const manifest = await readManifest(targetDir);
+  const { files } = await renderProject(
+    { ...manifest.options, targetDir },
+    { versions: manifest.versions, actionVersions: manifest.actionVersions },
+  );
+  await applyGeneratedFiles(
+    targetDir,
+    files.filter((file) => missing.includes(file.path)),
+    'skip-existing',
+  );
+  return `Restored ${missing.join(', ')}`;
+}
+
+async function checkWorkflows(targetDir: string): Promise<DoctorCheck> {
+  const missing: string[] = [];
+  for (const workflow of REQUIRED_WORKFLOWS) {
+    if (!(await fileExists(path.join(targetDir, workflow)))) {
+      missing.push(workflow);
+    }
+  }
+  if (missing.length === 0) {
+    return {
+      name: 'Workflows',
+      status: 'ok',
+      message: 'tagpr.yml, ci.yml and codeql.yml are present',
+    };
+  }
+
+  const canRestore = await fileExists(path.join(targetDir, MANIFEST_PATH));
+  return {
+    name: 'Workflows',
+    status: 'error',
+    message: `Missing ${missing.join(', ')}`,
+    hint: canRestore
+      ? `Run initrepo doctor --fix to restore them from ${MANIFEST_PATH}`
+      : 'Copy them from a project generated with the same options (initrepo init <name> --dry-run prints them)',
+    fix: canRestore ? () => restoreWorkflows(targetDir, missing) : undefined,
+  };
+}
+
+/**
+ * Checks that the devcode markers, tagpr.yml's token and the publish
+ * workflows all agree on whether the project has been prepared for release.
+ * In a workspace, tagpr.yml is released once any package is, and each
+ * package has its own publish workflow.
+ */
+async function checkReleaseState(
+  targetDir: string,
+  project: DetectedProject,
+): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+  const tagpr = await readOptionalFile(
+    path.join(targetDir, '.github/workflows/tagpr.yml'),
+  );
+  const packages = project.members ?? [project];
+  const isDevcode = packages.every((pkg) => pkg.isDevcode);
+  const prepareHint = project.members
+    ? 'Run initrepo prepare-release <publish-name> --package <name> to finish the release setup'
+    : 'Run initrepo prepare-release <publish-name> to finish the release setup';
+
+  if (tagpr !== null) {
+    const usesPat = stripComments(tagpr).some((line) =>
+      line.includes('secrets.PAT_FOR_TAGPR'),
+    );
+    if (isDevcode && usesPat) {
+      checks.push({
+        name: 'tagpr.yml',
+        status: 'warn',
+        message: `Uses PAT_FOR_TAGPR, but ${packages.map((pkg) => pkg.file).join(', ') || 'no package'} still ${packages.length > 1 ? 'have' : 'has'} ${project.marker}`,
+        hint: prepareHint,
+      });
+    } else if (!isDevcode && !usesPat) {
+      checks.push({
+        name: 'tagpr.yml',
+        status: 'error',
+        message:
+          'Uses GITHUB_TOKEN, so release PRs created by tagpr will not trigger workflows',
+        hint: 'Replace secrets.GITHUB_TOKEN with secrets.PAT_FOR_TAGPR in .github/workflows/tagpr.yml',
+      });
+    } else {
+      checks.push({
+        name: 'tagpr.yml',
+        status: 'ok',
+        message: isDevcode
+          ? 'Uses GITHUB_TOKEN (devcode project)'
+          : 'Uses PAT_FOR_TAGPR',
+      });
+    }
+  }
+
+  for (const pkg of packages) {
+    const publishWorkflow = getPublishWorkflowPath(
+      project.members ? path.posix.dirname(pkg.file) : undefined,
+    );
+    if (
+      pkg.isDevcode &&
+      (await fileExists(path.join(targetDir, publishWorkflow)))
+    ) {
+      checks.push({
+        name: 'Publish',
+        status: 'error',
+        message: `${path.posix.basename(publishWorkflow)} exists, but ${pkg.file} still has ${pkg.marker}, so releases cannot be published`,
+        hint: prepareHint,
+      });
+    }
+  }
+
+  return checks;
+}
+
+async function checkLockfile(
+  targetDir: string,
+  project: DetectedProject,
+): Promise<DoctorCheck | null> {
+  const packageManager =
+    project.lang === 'typescript'
+      ? (await detectPackageManager(targetDir)).name
+      : undefined;
+  const install = LANGUAGE_GENERATORS[project.lang].install({
+    projectName: project.name,
+    lang: project.lang,
+    isDevcode: project.isDevcode,
+    packageManager,
+  });
+  if (!install.lockfile) {
+    return null;
+  }
+
+  if (await fileExists(path.join(targetDir, install.lockfile))) {
+    return { name: 'Lockfile', status: 'ok', message: install.lockfile };
+  }
+  return {
+    name: 'Lockfile',
+    status: 'error',
+    message: `Missing ${install.lockfile}, so CI cannot install with a frozen lockfile`,
+    hint: `Run ${[install.command, ...install.args].join(' ')} and commit ${install.lockfile}`,
+  };
+}
+
+/**
+ * Describes the detected project; a workspace root lists its packages
+ */
+function describeProject(project: DetectedProject): string {
+  const name = (detected: DetectedProject) =>
+    `${detected.name}${detected.isDevcode ? ' (devcode)' : ''}`;
+  if (!project.members) {
+    return `${project.file}: ${name(project)}`;
+  }
+  const members = project.members.map(name).join(', ') || 'no packages';
+  return `${project.file}: ${project.name} (workspace of ${members})`;
+}
+
+/**
+ * Checks the project's files: manifest, workflows, release state and lockfile
+ */
+export async function checkLocal(targetDir: string): Promise<DoctorCheck[]> {
+  const project = await detectProject(targetDir);
+  if (!project) {
+    return [
+      {
+        name: 'Project',
+        status: 'error',
+        message: `No project manifest found (${getManifestFiles().join(', ')})`,
+        hint: 'Run initrepo doctor in a project directory or pass --target-dir',
+      },
+    ];
+  }
+
+  const lockfile = await checkLockfile(targetDir, project);
+  return [
+    {
+      name: 'Project',
+      status: 'ok',
+      message: describeProject(project),
+    },
+    await checkWorkflows(targetDir),
+    ...(await checkReleaseState(targetDir, project)),
+    ...(lockfile ? [lockfile] : []),
+  ];
+}
+
+/**
+ * Runs a GitHub check, reporting API failures (e.g., missing admin access)
+ * as skipped instead of failing the whole run
+ */
+async function runGitHubCheck(
+  name: string,
+  check: () => Promise<DoctorCheck>,
+): Promise<DoctorCheck> {
+  try {
+    return await check();
+  } catch (error) {
+    return {
+      name,
+      status: 'skip',
+      message: `Could not check: ${describeGitHubError(error)}`,
+    };
+  }
+}
+
+/**
+ * Checks the GitHub repository: default branch, tagpr labels, the secrets
+ * the workflows use and whether Actions is enabled
+ */
+export async function checkGitHub(
+  targetDir: string,
+  ref: GitHubRepoRef,
+): Promise<DoctorCheck[]> {
+  const { owner, repo } = ref;
+
+  let settings: Awaited<ReturnType<typeof getRepoSettings>>;
+  try {
+    settings = await getRepoSettings(owner, repo);
+  } catch (error) {
+    return [
+      {
+        name: 'Repository',
+        status: 'error',
+        message: `Could not read ${owner}/${repo}: ${describeGitHubError(error)}`,
+        hint: 'Check that the repository exists and the token can access it',
+      },
+    ];
+  }
+
+  const checks: DoctorCheck[] = [
+    settings.defaultBranch === DEFAULT_BRANCH
+      ? {
+          name: 'Default branch',
+          status: 'ok',
+          message: DEFAULT_BRANCH,
+        }
+      : {
+          name: 'Default branch',
+          status: 'warn',
+          message: `${settings.defaultBranch}, but the workflows run on ${DEFAULT_BRANCH}`,
+          hint: `Rename the default branch to ${DEFAULT_BRANCH} (Settings → General) or update the branches in ${WORKFLOWS_DIR}`,
+        },
+  ];
+
+  const missingLabels = TAGPR_LABELS.map((label) => label.name).filter(
+    (name) => !settings.labels.includes(name),
+  );
+  checks.push(
+    missingLabels.length === 0
+      ? {
+          name: 'Labels',
+          status: 'ok',
+          message: TAGPR_LABELS.map((label) => label.name).join(', '),
+        }
+      : {
+          name: 'Labels',
+          status: 'error',
+          message: `Missing ${missingLabels.join(', ')}, so tagpr cannot bump minor or major versions`,
+          hint: 'Run initrepo doctor --fix to create them',
+          fix: async () => {
+            await ensureTagprLabels(owner, repo);
+            return `Created labels ${missingLabels.join(', ')}`;
+          },
+        },
+  );
+
+  checks.push(
+    await runGitHubCheck('Secrets', async () => {
+      const referenced = await findReferencedSecrets(targetDir);
+      const existing = await listSecretNames(owner, repo);
+      const missing = referenced.filter((name) => !existing.includes(name));
+      if (missing.length > 0) {
+        return {
+          name: 'Secrets',
+          status: 'error',
+          message: `Workflows use ${missing.join(', ')}, which ${missing.length === 1 ? 'is' : 'are'} not set`,
+          hint: 'Add them under Settings → Secrets and variables → Actions (PAT_FOR_TAGPR needs a classic token with repo and workflow scopes)',
+        };
+      }
+      return {
+        name: 'Secrets',
+        status: 'ok',
+        message:
+          referenced.length > 0
+            ? referenced.join(', ')
+            : 'Workflows use no repository secrets',
+      };
+    }),
+  );
+
+  checks.push(
+    await runGitHubCheck('Actions', async () =>
+      (await isActionsEnabled(owner, repo))
+        ? { name: 'Actions', status: 'ok', message: 'Enabled' }
+        : {
+            name: 'Actions',
+            status: 'error',
+            message: 'GitHub Actions is disabled, so no workflow will run',
+            hint: 'Enable it under Settings → Actions → General',
+          },
+    ),
+  );
+
+  return checks;
+}
+
+/**
+ * Parses an owner/repo argument
+ */
+export function parseRepoArgument(value: string): GitHubRepoRef {
+  const [owner, repo, ...rest] = value.split('/');
+  if (!owner || !repo || rest.length > 0) {
+    throw new Error(`Invalid repository: ${value}. Use owner/repo`);
+  }
+  return { owner, repo };
+}
+
+/**
+ * Audits a project locally and, with a token, on GitHub
+ * With fix, safe fixes are applied and the fixed checks are reported as ok;
+ * a fix that fails is reported on its check and the other fixes still run.
+ */
+export async function runDoctor(
+  options: DoctorOptions = {},
+): Promise<DoctorReport> {
+  const targetDir = options.targetDir ?? process.cwd();
+  const local = await checkLocal(targetDir);
+
+  const repo = options.repo ?? (await getGitHubRemote(targetDir));
+  let github: DoctorCheck[];
+  if (!getGitHubToken()) {
+    github = [
+      {
+        name: 'GitHub',
+        status: 'skip',
+        message: 'Set GITHUB_TOKEN or GH_TOKEN to check the repository',
+      },
+    ];
+  } else if (!repo) {
+    github = [
+      {
+        name: 'GitHub',
+        status: 'skip',
+        message: 'No GitHub origin remote; pass --repo owner/repo',
+      },
+    ];
+  } else {
+    github = await checkGitHub(targetDir, repo);
+  }
+
+  const fixed: string[] = [];
+  if (options.fix) {
+    for (const check of [...local, ...github]) {
+      if (check.fix && check.status !== 'ok') {
+        let change: string;
+        try {
+          change = await check.fix();
+        } catch (error) {
+          check.status = 'error';
+          check.message = `${check.message} (fix failed: ${describeGitHubError(error)})`;
+          continue;
+        }
+        fixed.push(change);
+        check.status = 'ok';
+        check.message = `Fixed: ${change}`;
+        check.hint = undefined;
+      }
+    }
+  }
+
+  return { local, github, repo, fixed };
+}
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+  ok: '✅',
+  warn: '⚠️ ',
+  error: '❌',
+  skip: '⏭️ ',
+};
+
+function printChecks(title: string, checks: DoctorCheck[]): void {
+  console.log(`\n${title}:`);
+  const width = Math.max(...checks.map((check) => check.name.length));
+  for (const check of checks) {
+    console.log(
+      `   ${STATUS_ICONS[check.status]} ${check.name.padEnd(width)}  ${check.message}`,
+    );
+    if (check.hint && check.status !== 'ok') {
+      console.log(`      → ${check.hint}`);
+    }
+  }
+}
+
+export function registerDoctorCommand(program: Command): void {
+  program
+    .command('doctor')
+    .description(
+      "Check a project's files and GitHub repository for setup problems",
+    )
+    .option(
+      '-t, --target-dir <path>',
+      'Target directory (defaults to current directory)',
+    )
+    .option(
+      '--repo <owner/repo>',
+      'GitHub repository to check (defaults to the origin remote)',
+    )
+    .option(
+      '--fix',
+      'Apply safe fixes: create missing tagpr labels and restore missing workflows',
+    )
+    .action(
+      async (opts: { targetDir?: string; repo?: string; fix?: boolean }) => {
+        let report: DoctorReport;
+        try {
+          report = await runDoctor({
+            targetDir: opts.targetDir,
+            repo: opts.repo ? parseRepoArgument(opts.repo) : undefined,
+            fix: opts.fix,
+          });
+        } catch (error) {
+          console.error(
+            `❌ Doctor failed: ${error instanceof Error ? error.message : String(error)}`,
+          );
+          process.exit(1);
+        }
+
+        printChecks('Local', report.local);
+        printChecks(
+          report.repo
+            ? `GitHub (${report.repo.owner}/${report.repo.repo})`
+            : 'GitHub',
+          report.github,
+        );
+
+        const checks = [...report.local, ...report.github];
+        const errors = checks.filter((check) => check.status === 'error');
+        const fixable = checks.filter(
+          (check) => check.fix && check.status !== 'ok',
+        );
+        if (errors.length === 0) {
+          const warnings = checks.filter((check) => check.status === 'warn');
+          console.log(
+            warnings.length > 0
+              ? `\n⚠️  ${warnings.length} warning(s), no problems found`
+              : '\n🎉 No problems found',
+          );
+          return;
+        }
+        console.log(`\n❌ ${errors.length} problem(s) found`);
+        if (fixable.length > 0 && !opts.fix) {
+          console.log(
+            `   ${fixable.length} can be fixed automatically with --fix`,
+          );
+        }
+        process.exit(1);
+      },
+    );
+}
@@ -1,10 +1,22 @@
-import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from 'bun:test';
 import { Command } from 'commander';
 import * as projectGenerator from '../generators/project';
+import * as gitUtils from '../utils/git';
+import * as githubRepo from '../utils/github-repo';
+import * as installUtils from '../utils/install';
 import {
   initProject,
   promptYesNo,
   registerInitCommand,
+  resolveConflictStrategy,
   validateLanguage,
 } from './init';
 
@@ -14,27 +26,70 @@ describe('init command', () => {
       expect(validateLanguage('typescript')).toBe('typescript');
     });
 
+    test('should accept python', () => {
+      expect(validateLanguage('python')).toBe('python');
+    });
+
+    test('should accept go', () => {
+      expect(validateLanguage('go')).toBe('go');
+    });
+
     test('should throw for unsupported language', () => {
-      expect(() => validateLanguage('python')).toThrow(
-        'Unsupported language: python',
+      expect(() => validateLanguage('cobol')).toThrow(
+        'Unsupported language: cobol',
+      );
+    });
+  });
+
+  describe('resolveConflictStrategy', () => {
+    test('should default to error', () => {
+      expect(resolveConflictStrategy({})).toBe('error');
+    });
+
+    test('should map flags to strategies', () => {
+      expect(resolveConflictStrategy({ force: true })).toBe('force');
+      expect(resolveConflictStrategy({ skipExisting: true })).toBe(
+        'skip-existing',
       );
+      expect(resolveConflictStrategy({ merge: true })).toBe('merge');
+    });
+
+    test('should reject combined flags', () => {
+      expect(() =>
+        resolveConflictStrategy({ force: true, merge: true }),
+      ).toThrow('cannot be used together');
     });
   });
 
   describe('initProject', () => {
     let consoleSpy: ReturnType<typeof spyOn>;
     let generateProjectSpy: ReturnType<typeof spyOn>;
+    let bootstrapGitSpy: ReturnType<typeof spyOn>;
+    let runInstallSpy: ReturnType<typeof spyOn>;
+    let warnSpy: ReturnType<typeof spyOn>;
 
     beforeEach(() => {
       consoleSpy = spyOn(console, 'log').mockImplementation(() => {});
+      warnSpy = spyOn(console, 'warn').mockImplementation(() => {});
       // Mock generateProject to avoid file operations and network calls
       generateProjectSpy = spyOn(
         projectGenerator,
         'generateProject',
-      ).mockResolvedValue(undefined);
+      ).mockResolvedValue({ results: [], rollback: async () => [] });
+      bootstrapGitSpy = spyOn(gitUtils, 'bootstrapGitRepo').mockResolvedValue({
+        initialized: true,
+        remoteAdded: false,
+        pushed: false,
+      });
+      runInstallSpy = spyOn(installUtils, 'runInstall').mockResolvedValue({
+        lockfilePresent: true,
+      });
     });
 
     afterEach(() => {
+      bootstrapGitSpy.mockRestore();
+      runInstallSpy.mockRestore();
+      warnSpy.mockRestore();
       consoleSpy.mockRestore();
       generateProjectSpy.mockRestore();
     });
@@ -78,6 +133,237 @@ describe('init command', () => {
         author: 'custom-author',
       });
     });
+
+    test('should initialize git in the output directory', async () => {
+      await initProject({
+        projectName: 'test-project',
+        lang: 'typescript',
+        isDevcode: false,
+        targetDir: 'out',
+      });
+
+      expect(bootstrapGitSpy).toHaveBeenCalledWith({
+        dir: 'out',
+        remoteUrl: undefined,
+        push: true,
+        beforeCommit: expect.any(Function),
+      });
+    });
+
+    test('should skip git with git: false', async () => {
+      await initProject({
+        projectName: 'test-project',
+        lang: 'typescript',
+        isDevcode: false,
+        git: false,
+      });
+
+      expect(bootstrapGitSpy).not.toHaveBeenCalled();
+    });
+
+    test('should install before the initial commit', async () => {
+      bootstrapGitSpy.mockImplementation(
+        async (options: gitUtils.GitBootstrapOptions) => {
+          await options.beforeCommit?.();
+          return { initialized: true, remoteAdded: false, pushed: false };
+        },
+      );
+
+      await initProject({
+        projectName: 'test-project',
+        lang: 'typescript',
+        isDevcode: false,
+        packageManager: 'pnpm',
+      });
+
+      expect(runInstallSpy).toHaveBeenCalledTimes(1);
+      expect(runInstallSpy).toHaveBeenCalledWith('test-project', {
+        command: 'pnpm',
+        args: ['install'],
+        lockfile: 'pnpm-lock.yaml',
+      });
+      expect(consoleSpy).toHaveBeenCalledWith(
+        '   Lockfile:  pnpm-lock.yaml present',
+      );
+    });
+
+    test('should keep going when the install fails', async () => {
+      runInstallSpy.mockRejectedValue(
+        new installUtils.InstallError(
+          'bun install exited with code 1',
+          'bun install',
+          1,
+        ),
+      );
+
+      await initProject({
+        projectName: 'test-project',
+        lang: 'typescript',
+        isDevcode: false,
+        git: false,
+      });
+
+      expect(warnSpy).toHaveBeenCalledWith(
+        '⚠️  Install failed: bun install exited with code 1',
+      );
+      expect(consoleSpy).toHaveBeenCalledWith(
+        '   Lockfile:  bun.lock missing (run "bun install")',
+      );
+    });
+
+    test('should skip the install with install: false', async () => {
+      await initProject({
+        projectName: 'test-project',
+        lang: 'typescript',
+        isDevcode: false,
+        install: false,
+      });
+
+      expect(runInstallSpy).not.toHaveBeenCalled();
+      expect(consoleSpy).toHaveBeenCalledWith(
+        '   Lockfile:  not installed (--no-install)',
+      );
+    });
+  });
+
+  describe('initProject rollback', () => {
+    const originalToken = process.env.GITHUB_TOKEN;
+    let consoleSpy: ReturnType<typeof spyOn>;
+    let warnSpy: ReturnType<typeof spyOn>;
+    let generateProjectSpy: ReturnType<typeof spyOn>;
+    let createRepoSpy: ReturnType<typeof spyOn>;
+    let deleteRepoSpy: ReturnType<typeof spyOn>;
+    let rollback: ReturnType<typeof mock>;
+
+    beforeEach(() => {
+      process.env.GITHUB_TOKEN = 'test-token';
+      consoleSpy = spyOn(console, 'log').mockImplementation(() => {});
+      warnSpy = spyOn(console, 'warn').mockImplementation(() => {});
+      rollback = mock(async () => ['removed test-project']);
+      generateProjectSpy = spyOn(
+        projectGenerator,
+        'generateProject',
+      ).mockResolvedValue({ results: [], rollback });
+      createRepoSpy = spyOn(githubRepo, 'createGitHubRepo').mockRejectedValue(
+        new githubRepo.RepoSetupError(
+          'label setup failed',
+          'octo-org',
+          'test-project',
+        ),
+      );
+      deleteRepoSpy = spyOn(githubRepo, 'deleteGitHubRepo').mockResolvedValue(
+        undefined,
+      );
+    });
+
+    afterEach(() => {
+      if (originalToken !== undefined) {
+        process.env.GITHUB_TOKEN = originalToken;
+      } else {
+        delete process.env.GITHUB_TOKEN;
+      }
+      consoleSpy.mockRestore();
+      warnSpy.mockRestore();
+      generateProjectSpy.mockRestore();
+      createRepoSpy.mockRestore();
+      deleteRepoSpy.mockRestore();
+    });
+
+    const options = {
+      projectName: 'test-project',
+      lang: 'typescript' as const,
+      isDevcode: false,
+      createRepo: true,
+    };
+
+    test('should remove generated files and keep the repo by default', async () => {
+      await expect(initProject(options)).rejects.toThrow(
+        'Rolled back:\n  - removed test-project',
+      );
+
+      expect(rollback).toHaveBeenCalled();
+      expect(deleteRepoSpy).not.toHaveBeenCalled();
+    });
+
+    test('should delete the created repo when requested', async () => {
+      await expect(
+        initProject({ ...options, deleteRepoOnFailure: true }),
+      ).rejects.toThrow('deleted GitHub repository octo-org/test-project');
+
+      expect(deleteRepoSpy).toHaveBeenCalledWith('octo-org', 'test-project');
+    });
+  });
+
+  describe('initProject --dry-run', () => {
+    let consoleSpy: ReturnType<typeof spyOn>;
+    let generateProjectSpy: ReturnType<typeof spyOn>;
+    let renderProjectSpy: ReturnType<typeof spyOn>;
+
+    beforeEach(() => {
+      consoleSpy = spyOn(console, 'log').mockImplementation(() => {});
+      generateProjectSpy = spyOn(projectGenerator, 'generateProject');
+      renderProjectSpy = spyOn(
+        projectGenerator,
+        'renderProject',
+      ).mockResolvedValue({
+        outputDir: 'test-project',
+        files: [
+          { path: 'package.json', content: '{}' },
+          { path: '.github/workflows/ci.yml', content: 'name: CI\n' },
+        ],
+        versions: { typescript: '5.0.0' },
+        actionVersions: { 'actions/checkout': 'v6' },
+      });
+    });
+
+    afterEach(() => {
+      consoleSpy.mockRestore();
+      generateProjectSpy.mockRestore();
+      renderProjectSpy.mockRestore();
+    });
+
+    function output(): string {
+      return consoleSpy.mock.calls
+        .map((call: unknown[]) => call.join(' '))
+        .join('\n');
+    }
+
+    test('should report files and versions without writing', async () => {
+      await initProject({
+        projectName: 'test-project',
+        lang: 'typescript',
+        isDevcode: false,
+        dryRun: true,
+      });
+
+      expect(generateProjectSpy).not.toHaveBeenCalled();
+      expect(output()).toContain('package.json');
+      expect(output()).toContain('2 B');
+      expect(output()).toContain('2 files, 11 B total');
+      expect(output()).toContain('typescript  5.0.0');
+      expect(output()).toContain('actions/checkout  v6');
+      expect(output()).toContain('Would not create a repository');
+      expect(output()).not.toContain('name: CI');
+    });
+
+    test('should describe the repository plan and show content', async () => {
+      await initProject({
+        projectName: 'test-project',
+        lang: 'typescript',
+        isDevcode: false,
+        owner: 'octo-org',
+        createRepo: true,
+        isPrivate: true,
+        dryRun: true,
+        showContent: true,
+      });
+
+      expect(output()).toContain(
+        'Would create octo-org/test-project (private) with labels tagpr:minor, tagpr:major',
+      );
+      expect(output()).toContain('--- .github/workflows/ci.yml ---');
+      expect(output()).toContain('name: CI');
+    });
   });
 
   describe('registerInitCommand', () => {
@@ -112,6 +398,17 @@ describe('init command', () => {
       expect(authorOption).toBeDefined();
     });
 
+    test('should have --owner option', () => {
+      const program = new Command();
+      registerInitCommand(program);
+
+      const initCmd = program.commands.find((cmd) => cmd.name() === 'init');
+      const ownerOption = initCmd?.options.find(
+        (opt) => opt.long === '--owner',
+      );
+      expect(ownerOption).toBeDefined();
+    });
+
     test('should have --create-repo option', () => {
       const program = new Command();
       registerInitCommand(program);
@@ -166,5 +463,29 @@ describe('init command', () => {
       );
       expect(noPrivateOption).toBeDefined();
     });
+
+    test('should report invalid options instead of throwing', async () => {
+      const errorSpy = spyOn(console, 'error').mockImplementation(() => {});
+      const exitSpy = spyOn(process, 'exit').mockImplementation(
+        () => undefined as never,
+      );
+      try {
+        const program = new Command();
+        registerInitCommand(program);
+
+        await program.parseAsync(
+          ['init', 'my-project', '--license', 'not-a-license'],
+          { from: 'user' },
+        );
+
+        expect(errorSpy).toHaveBeenCalledWith(
+          expect.stringContaining('❌ Unsupported license'),
+        );
+        expect(exitSpy).toHaveBeenCalledWith(1);
+      } finally {
+        errorSpy.mockRestore();
+        exitSpy.mockRestore();
+      }
+    });
   });
 });
@@ -1,10 +1,72 @@
 import * as readline from 'node:readline/promises';
 import type { Command } from 'commander';
-import { generateProject } from '../generators/project';
-import type { InitOptions, Language } from '../types';
-import { createGitHubRepo, hasGitHubToken } from '../utils/github-repo';
+import { DEFAULT_LICENSE } from '../config';
+import {
+  DEFAULT_KIND,
+  SUPPORTED_KINDS,
+  validateKind,
+} from '../generators/kinds';
+import {
+  getLanguageGenerator,
+  SUPPORTED_LANGUAGES,
+} from '../generators/languages';
+import {
+  getLicense,
+  SUPPORTED_LICENSES,
+  validateLicense,
+} from '../generators/licenses';
+import {
+  DEFAULT_PACKAGE_MANAGER,
+  SUPPORTED_PACKAGE_MANAGERS,
+  validatePackageManager,
+} from '../generators/package-managers';
+import {
+  type FileWriteResult,
+  generateProject,
+  type RenderedProject,
+  renderProject,
+} from '../generators/project';
+import { getTemplateLayers, loadTemplateLayers } from '../generators/templates';
+import type { ConflictStrategy, InitOptions, Language } from '../types';
+import {
+  bootstrapGitRepo,
+  DEFAULT_BRANCH,
+  GitError,
+  INITIAL_COMMIT_MESSAGE,
+} from '../utils/git';
+import {
+  DEFAULT_ACTION_PINNING,
+  SUPPORTED_ACTION_PINNINGS,
+  validateActionPinning,
+} from '../utils/github';
+import {
+  createGitHubRepo,
+  deleteGitHubRepo,
+  type GitHubRepoResult,
+  hasGitHubToken,
+  RepoSetupError,
+  TAGPR_LABELS,
+} from '../utils/github-repo';
+import { configureHttp, resolveHttpOptions } from '../utils/http';
+import { loadConfig } from '../utils/initrepo-config';
+import {
+  formatInstallCommand,
+  hasLockfile,
+  InstallError,
+  runInstall,
+} from '../utils/install';
+import { loadNpmrc } from '../utils/npmrc';
+import {
+  configureVersionCache,
+  printVersionSources,
+} from '../utils/version-cache';
+import {
+  resolveVersionPolicy,
+  SUPPORTED_RANGE_STYLES,
+} from '../utils/version-policy';
 
-const SUPPORTED_LANGUAGES: Language[] = ['typescript'];
+/** Language used when neither --lang nor a config file specifies one */
+const DEFAULT_LANGUAGE: Language = 'typescript';
 
 export function validateLanguage(lang: string): Language {
   if (!SUPPORTED_LANGUAGES.includes(lang as Language)) {
@@ -43,66 +105,430 @@ export async function promptYesNo(
 export interface InitProjectOptions extends InitOptions {
   createRepo?: boolean;
   isPrivate?: boolean;
+  /** Render and report without writing files or calling GitHub */
+  dryRun?: boolean;
+  /** With dryRun, also print each rendered file */
+  showContent?: boolean;
+  /** Delete a repository created in this run if a later step fails */
+  deleteRepoOnFailure?: boolean;
+  /** Initialize git and make the initial commit (default: true) */
+  git?: boolean;
+  /** Push the initial commit to the created repository (default: true) */
+  push?: boolean;
+  /** Install dependencies so the lockfile is part of the initial commit (default: true) */
+  install?: boolean;
+}
+
+function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function printVersions(title: string, versions: Record<string, string>): void {
+  console.log(`\n${title}:`);
+  const names = Object.keys(versions);
+  if (names.length === 0) {
+    console.log('   (none)');
+    return;
+  }
+  const width = Math.max(...names.map((name) => name.length));
+  for (const name of names) {
+    console.log(`   ${name.padEnd(width)}  ${versions[name]}`);
+  }
+}
+
+/**
+ * Prints what `init` would create: files, versions and the GitHub repository plan
+ */
+export function printDryRun(
+  project: RenderedProject,
+  options: InitProjectOptions,
+): void {
+  const files = [...project.files].sort((a, b) => a.path.localeCompare(b.path));
+  const sizes = files.map((file) => Buffer.byteLength(file.content, 'utf-8'));
+  const width = Math.max(...files.map((file) => file.path.length));
+
+  console.log(`\nFiles in ./${project.outputDir}:`);
+  for (const [index, file] of files.entries()) {
+    console.log(
+      `   ${file.path.padEnd(width)}  ${formatBytes(sizes[index]).padStart(8)}`,
+    );
+  }
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  console.log(`   ${files.length} files, ${formatBytes(total)} total`);
+
+  printVersions('Dependency versions', project.versions);
+  printVersions('Action versions', project.actionVersions);
+
+  console.log('\nGitHub repository:');
+  if (!options.createRepo) {
+    console.log('   Would not create a repository');
+  } else {
+    const owner = options.owner ?? '<GITHUB_TOKEN user>';
+    const visibility = options.isPrivate ? 'private' : 'public';
+    const labels = TAGPR_LABELS.map((label) => label.name).join(', ');
+    const { githubKey } = getLicense(options.license);
+    const license = githubKey ? `, license ${githubKey}` : '';
+    console.log(
+      `   Would create ${owner}/${options.projectName} (${visibility}) with labels ${labels}${license}`,
+    );
+    if (!hasGitHubToken()) {
+      console.log(
+        '   ⚠️  GITHUB_TOKEN (or GH_TOKEN) not set, creation would be skipped',
+      );
+    }
+  }
+
+  console.log('\nDependencies:');
+  if (options.install === false) {
+    console.log('   Would not install dependencies');
+  } else {
+    const install = getLanguageGenerator(options.lang).install(options);
+    const lockfile = install.lockfile ? ` (writes ${install.lockfile})` : '';
+    console.log(`   Would run ${formatInstallCommand(install)}${lockfile}`);
+  }
+
+  if (options.showContent) {
+    for (const file of files) {
+      console.log(`\n--- ${file.path} ---`);
+      console.log(file.content);
+    }
+  }
+}
+
+/**
+ * Prints what happened to each generated file, followed by diffs for
+ * files that --merge left untouched
+ */
+export function printFileResults(results: FileWriteResult[]): void {
+  for (const result of results) {
+    console.log(`   ${result.action.padEnd(11)} ${result.path}`);
+  }
+  for (const result of results) {
+    if (result.diff) {
+      console.log(`\n${result.diff}`);
+    }
+  }
+}
+
+/**
+ * Resolves the conflict strategy from mutually exclusive CLI flags
+ */
+export function resolveConflictStrategy(opts: {
+  force?: boolean;
+  skipExisting?: boolean;
+  merge?: boolean;
+  deleteRepoOnFailure?: boolean;
+}): ConflictStrategy {
+  const flags: Array<[ConflictStrategy, boolean | undefined]> = [
+    ['force', opts.force],
+    ['skip-existing', opts.skipExisting],
+    ['merge', opts.merge],
+  ];
+  const selected = flags
+    .filter(([, enabled]) => enabled)
+    .map(([strategy]) => strategy);
+
+  if (selected.length > 1) {
+    throw new Error(
+      'Options --force, --skip-existing and --merge cannot be used together',
+    );
+  }
+  return selected[0] ?? 'error';
+}
+
+/**
+ * Undoes generated files after a later step failed, and deletes a
+ * repository created in this run when requested
+ */
+async function rollbackInit(
+  error: unknown,
+  rollbackFiles: () => Promise<string[]>,
+  deleteRepo: boolean,
+): Promise<string[]> {
+  const rolledBack = await rollbackFiles();
+
+  if (error instanceof RepoSetupError) {
+    const repo = `${error.owner}/${error.repoName}`;
+    if (!deleteRepo) {
+      console.warn(
+        `⚠️  Repository ${repo} was kept. Use --delete-repo-on-failure to remove it automatically.`,
+      );
+    } else {
+      try {
+        await deleteGitHubRepo(error.owner, error.repoName);
+        rolledBack.push(`deleted GitHub repository ${repo}`);
+      } catch (deleteError) {
+        console.warn(
+          `⚠️  Failed to delete repository ${repo}: ${deleteError instanceof Error ? deleteError.message : String(deleteError)}`,
+        );
+      }
+    }
+  }
+
+  return rolledBack;
+}
+
+type ManualGitStep = 'init' | 'commit' | 'remote' | 'push';
+
+function printManualGitSteps(
+  dir: string,
+  repo: GitHubRepoResult | undefined,
+  from: ManualGitStep[],
+): void {
+  const force = repo?.hasInitialCommit ? '--force ' : '';
+  const steps: Record<ManualGitStep, string[]> = {
+    init: [`git init -b ${DEFAULT_BRANCH}`],
+    commit: ['git add .', `git commit -m "${INITIAL_COMMIT_MESSAGE}"`],
+    remote: repo ? [`git remote add origin ${repo.cloneUrl}`] : [],
+    push: repo ? [`git push ${force}-u origin ${DEFAULT_BRANCH}`] : [],
+  };
+  const order: ManualGitStep[] = ['init', 'commit', 'remote', 'push'];
+  const first = Math.min(...from.map((step) => order.indexOf(step)));
+
+  console.log(`\n   To push your code:`);
+  console.log(`   cd ${dir}`);
+  for (const step of order.slice(first)) {
+    for (const command of steps[step]) {
+      console.log(`   ${command}`);
+    }
+  }
+}
+
+interface InstallStatus {
+  command: string;
+  lockfile?: string;
+  /** null when the language needs no lockfile */
+  lockfilePresent: boolean | null;
+}
+
+/**
+ * Runs the language's install command with its output streamed. A failed
+ * install is reported but not fatal: the generated files are kept.
+ */
+async function installDependencies(
+  dir: string,
+  options: InitProjectOptions,
+): Promise<InstallStatus> {
+  const install = getLanguageGenerator(options.lang).install(options);
+  const command = formatInstallCommand(install);
+
+  console.log(`📦 Installing dependencies (${command})...`);
+  try {
+    const { lockfilePresent } = await runInstall(dir, install);
+    console.log('✅ Dependencies installed');
+    return { command, lockfile: install.lockfile, lockfilePresent };
+  } catch (error) {
+    if (!(error instanceof InstallError)) {
+      throw error;
+    }
+    console.warn(`⚠️  Install failed: ${error.message}`);
+    console.warn(
+      `   Generated files were kept. Run "${command}" in ${dir} to finish.`,
+    );
+    return {
+      command,
+      lockfile: install.lockfile,
+      lockfilePresent: await hasLockfile(dir, install),
+    };
+  }
+}
+
+function printSummary(
+  dir: string,
+  results: FileWriteResult[],
+  install: InstallStatus | undefined,
+): void {
+  let lockfile: string;
+  if (!install) {
+    lockfile = 'not installed (--no-install)';
+  } else if (install.lockfilePresent === null) {
+    lockfile = 'not needed';
+  } else if (install.lockfilePresent) {
+    lockfile = `${install.lockfile} present`;
+  } else {
+    lockfile = `${install.lockfile} missing (run "${install.command}")`;
+  }
+
+  console.log('\nSummary:');
+  console.log(`   Files:     ${results.length} in ./${dir}`);
+  console.log(`   Lockfile:  ${lockfile}`);
+}
+
+/**
+ * Initializes git, commits, adds origin and pushes, reporting each failure
+ * with the commands left to run. Failures are not fatal: the generated
+ * files and repository stay usable.
+ */
+async function setupGit(
+  dir: string,
+  repo: GitHubRepoResult | undefined,
+  push: boolean,
+  beforeCommit?: () => Promise<void>,
+): Promise<void> {
+  try {
+    const result = await bootstrapGitRepo({
+      dir,
+      remoteUrl: repo?.cloneUrl,
+      push,
+      forcePush: repo?.hasInitialCommit,
+      beforeCommit,
+    });
+
+    if (!result.initialized) {
+      console.warn(`⚠️  ${dir} is already a git repository, skipping git setup`);
+      if (repo) {
+        printManualGitSteps(dir, repo, ['remote']);
+      }
+      return;
+    }
+
+    console.log(
+      `✅ Git repository initialized on ${DEFAULT_BRANCH} with "${INITIAL_COMMIT_MESSAGE}"`,
+    );
+    if (result.pushed) {
+      console.log(`✅ Pushed to ${repo?.cloneUrl}`);
+    } else if (result.remoteAdded) {
+      console.log(`   Remote origin: ${repo?.cloneUrl}`);
+      printManualGitSteps(dir, repo, ['push']);
+    }
+  } catch (error) {
+    if (!(error instanceof GitError)) {
+      throw error;
+    }
+
+    const nextSteps: Record<GitError['step'], ManualGitStep[]> = {
+      init: ['init'],
+      identity: ['commit'],
+      commit: ['commit'],
+      remote: ['remote'],
+      push: ['push'],
+    };
+    console.warn(`⚠️  Git setup failed (${error.step}): ${error.message}`);
+    printManualGitSteps(dir, repo, nextSteps[error.step]);
+  }
 }
 
 export async function initProject(options: InitProjectOptions): Promise<void> {
   const devcodeLabel = options.isDevcode ? ' [devcode]' : '';
+
+  if (options.dryRun) {
+    console.log(
+      `🔍 Dry run: ${options.projectName} (${options.lang})${devcodeLabel} - nothing will be written`,
+    );
+    printDryRun(await renderProject(options), options);
+    return;
+  }
+
   console.log(
     `Creating project: ${options.projectName} (${options.lang})${devcodeLabel}`,
   );
 
   // Generate project files
-  await generateProject(options);
+  const generated = await generateProject(options);
   console.log(`✅ Project files created at ./${options.projectName}`);
+  printFileResults(generated.results);
 
   // Create GitHub repository if requested
+  let repo: GitHubRepoResult | undefined;
   if (options.createRepo) {
     if (!hasGitHubToken()) {
-      console.warn('⚠️  GITHUB_TOKEN not set, skipping repository creation');
       console.warn(
-        '   Set GITHUB_TOKEN environment variable to enable repo creation',
+        '⚠️  GITHUB_TOKEN (or GH_TOKEN) not set, skipping repository creation',
       );
+      console.warn('   Set GITHUB_TOKEN or GH_TOKEN to enable repo creation');
     } else {
       try {
         console.log('📦 Creating GitHub repository...');
-        const result = await createGitHubRepo({
+        repo = await createGitHubRepo({
           name: options.projectName,
           description: options.isDevcode
             ? `[devcode] ${options.projectName}`
             : undefined,
           isPrivate: options.isPrivate ?? false,
+          owner: options.owner,
+          licenseTemplate: getLicense(options.license).githubKey,
         });
 
-        if (result.alreadyExisted) {
-          console.log(`ℹ️  Repository already exists: ${result.url}`);
+        if (repo.alreadyExisted) {
+          console.log(`ℹ️  Repository already exists: ${repo.url}`);
           console.log(`   Labels ensured: tagpr:minor, tagpr:major`);
         } else {
-          console.log(`✅ GitHub repository created: ${result.url}`);
+          console.log(`✅ GitHub repository created: ${repo.url}`);
           console.log(`   Labels created: tagpr:minor, tagpr:major`);
         }
-
-        console.log(`\n   To push your code:`);
-        console.log(`   cd ${options.projectName}`);
-        console.log(`   git init`);
-        console.log(`   git add .`);
-        console.log(`   git commit -m "chore: initial commit"`);
-        console.log(`   git remote add origin ${result.cloneUrl}`);
-        console.log(`   git push -u origin main`);
       } catch (error) {
-        console.error(
-          `❌ Failed to create GitHub repository: ${error instanceof Error ? error.message : String(error)}`,
+        const rolledBack = await rollbackInit(
+          error,
+          generated.rollback,
+          options.deleteRepoOnFailure ?? false,
+        );
+        throw new Error(
+          `Failed to create GitHub repository: ${error instanceof Error ? error.message : String(error)}\nRolled back:\n${rolledBack.map((item) => `  - ${item}`).join('\n')}`,
         );
       }
     }
   }
+
+  // Install after git init (so husky can set up hooks) and before the
+  // initial commit (so the lockfile is committed)
+  const outputDir = options.targetDir ?? options.projectName;
+  let installStatus: InstallStatus | undefined;
+  const install =
+    options.install === false
+      ? undefined
+      : async () => {
+          installStatus = await installDependencies(outputDir, options);
+        };
+
+  if (options.git === false) {
+    await install?.();
+    if (repo) {
+      printManualGitSteps(outputDir, repo, ['init', 'commit']);
+    }
+  } else {
+    await setupGit(outputDir, repo, options.push ?? true, install);
+  }
+
+  // Git setup was skipped or failed before reaching the commit
+  if (install && !installStatus) {
+    await install();
+  }
+
+  printSummary(outputDir, generated.results, installStatus);
 }
 
 interface InitCommandOptions {
-  lang: string;
+  lang?: string;
   devcode?: boolean;
   author?: string;
+  owner?: string;
   createRepo?: boolean;
   private?: boolean;
+  license?: string;
+  pm?: string;
+  kind?: string;
+  workspaces?: boolean;
+  templates?: string;
+  dryRun?: boolean;
+  showContent?: boolean;
+  force?: boolean;
+  skipExisting?: boolean;
+  merge?: boolean;
+  deleteRepoOnFailure?: boolean;
+  husky: boolean;
+  commitlint: boolean;
+  biome: boolean;
+  lintStaged?: boolean;
+  prePushTests: boolean;
+  git: boolean;
+  push: boolean;
+  install?: boolean;
+  pinActions?: string;
+  minReleaseAge?: string;
+  rangeStyle?: string;
+  pin?: string;
+  offline?: boolean;
+  refresh?: boolean;
 }
 
 export function registerInitCommand(program: Command): void {
@@ -111,16 +537,23 @@ export function registerInitCommand(program: Command): void {
     .description(
       'Initialize a new project. <project-name> is the name used for npm publish.',
     )
-    .option('-l, --lang <language>', 'Project language', 'typescript')
+    .option(
+      '-l, --lang <language>',
+      `Project language (${SUPPORTED_LANGUAGES.join(', ')}, default: ${DEFAULT_LANGUAGE})`,
+    )
     .option(
       '-d, --devcode',
-      'Use devcode mode (adds private: true to package.json)',
+      'Use devcode mode (marks the package as private, e.g. "private": true in package.json)',
     )
     .option('--no-devcode', 'Not a devcode project')
     .option(
       '-a, --author <name>',
       'Package author (defaults to npm whoami for TypeScript)',
     )
+    .option(
+      '-o, --owner <owner>',
+      'GitHub owner (user or organization), e.g. for the Go module path (defaults to the GITHUB_TOKEN user)',
+    )
     .option(
       '--create-repo',
       'Create GitHub repository and tagpr labels (requires GITHUB_TOKEN)',
@@ -128,45 +561,189 @@ export function registerInitCommand(program: Command): void {
     .option('--no-create-repo', 'Skip GitHub repository creation')
     .option('-p, --private', 'Make GitHub repository private')
     .option('--no-private', 'Make GitHub repository public')
+    .option(
+      '--license <spdx>',
+      `License written to LICENSE and the manifest (${SUPPORTED_LICENSES.join(', ')}, default: ${DEFAULT_LICENSE})`,
+    )
+    .option(
+      '--pm <package-manager>',
+      `TypeScript: package manager (${SUPPORTED_PACKAGE_MANAGERS.join(', ')}, default: ${DEFAULT_PACKAGE_MANAGER})`,
+    )
+    .option(
+      '--kind <kind>',
+      `TypeScript: project kind (${SUPPORTED_KINDS.join(', ')}, default: ${DEFAULT_KIND})`,
+    )
+    .option(
+      '--workspaces',
+      'TypeScript: create a workspace root with the project as packages/<name> (add more with add-package)',
+    )
+    .option(
+      '--templates <dir>',
+      'Template directory that shadows or adds templates (after .initrepo/templates and ~/.config/initrepo/templates)',
+    )
+    .option(
+      '--dry-run',
+      'Show files, versions and the repository plan without writing anything',
+    )
+    .option('--show-content', 'With --dry-run, print each rendered file')
+    .option('--force', 'Overwrite files that already exist in the target')
+    .option('--skip-existing', 'Keep files that already exist in the target')
+    .option(
+      '--merge',
+      'Deep-merge existing JSON files and show a diff for other existing files',
+    )
+    .option('--no-husky', 'TypeScript: skip husky git hooks')
+    .option(
+      '--no-commitlint',
+      'TypeScript: skip commitlint and the commit-msg hook',
+    )
+    .option('--no-biome', 'TypeScript: skip biome.json and lint/format scripts')
+    .option(
+      '--lint-staged',
+      'TypeScript: format staged files with biome in a pre-commit hook',
+    )
+    .option('--no-pre-push-tests', 'TypeScript: do not run tests on pre-push')
+    .option('--git', 'Initialize git and make the initial commit (default)')
+    .option('--no-git', 'Skip git initialization')
+    .option('--no-push', 'Do not push the initial commit to the created repo')
+    .option(
+      '--install',
+      'Install dependencies and commit the lockfile (default)',
+    )
+    .option('--no-install', 'Skip installing dependencies')
+    .option(
+      '--pin-actions <mode>',
+      `Reference actions by major tag or commit SHA (${SUPPORTED_ACTION_PINNINGS.join(', ')}, default: ${DEFAULT_ACTION_PINNING}). sha is recorded in .initreporc for prepare-release`,
+    )
+    .option(
+      '--min-release-age <age>',
+      'Skip dependency releases younger than this, e.g. 3d or 12h (uses registry publish times)',
+    )
+    .option(
+      '--range-style <style>',
+      `Dependency range style (${SUPPORTED_RANGE_STYLES.join(', ')}; default: ^ for npm, >= for PyPI, caret for Cargo)`,
+    )
+    .option(
+      '--pin <pins>',
+      'Exact dependency versions, comma-separated (e.g. typescript@5.6.3,ruff@0.8.0)',
+    )
+    .option(
+      '--offline',
+      'Use only cached or built-in fallback versions (no registry or GitHub lookups)',
+    )
+    .option('--refresh', 'Fetch all versions even if they are cached')
+    .option(
+      '--delete-repo-on-failure',
+      'Delete the GitHub repository created in this run if setup fails afterwards',
+    )
     .action(async (projectName: string, opts: InitCommandOptions) => {
-      const lang = validateLanguage(opts.lang);
-
-      // Determine if devcode - prompt if not specified
-      let isDevcode: boolean;
-      if (opts.devcode !== undefined) {
-        isDevcode = opts.devcode;
-      } else {
-        isDevcode = await promptYesNo(
-          `Is "${projectName}" a developmental code?`,
-          false,
+      try {
+        // Precedence: CLI flags > project config > user config > defaults
+        const { config } = await loadConfig();
+        const conflictStrategy = resolveConflictStrategy(opts);
+        const lang = validateLanguage(
+          opts.lang ?? config.lang ?? DEFAULT_LANGUAGE,
+        );
+        const license = validateLicense(
+          opts.license ?? config.license ?? DEFAULT_LICENSE,
+        );
+        const packageManager = validatePackageManager(
+          opts.pm ?? config.packageManager ?? DEFAULT_PACKAGE_MANAGER,
+        );
+        const kind = validateKind(opts.kind ?? config.kind ?? DEFAULT_KIND);
+        const pinActions = validateActionPinning(
+          opts.pinActions ?? config.pinActions ?? DEFAULT_ACTION_PINNING,
+        );
+        const versionPolicy = resolveVersionPolicy({
+          minReleaseAge: opts.minReleaseAge ?? config.minReleaseAge,
+          rangeStyle: opts.rangeStyle ?? config.rangeStyle,
+          pins: opts.pin ?? config.pins,
+        });
+        await loadTemplateLayers(
+          getTemplateLayers({
+            templatesDir: opts.templates ?? config.templates,
+          }),
         );
-      }
 
-      // Determine if create repo - prompt if not specified
-      let createRepo: boolean;
-      if (opts.createRepo !== undefined) {
-        createRepo = opts.createRepo;
-      } else {
-        createRepo = await promptYesNo('Create GitHub repo?', true);
-      }
+        // Determine if devcode - prompt if not specified
+        let isDevcode: boolean;
+        const devcode = opts.devcode ?? config.devcode;
+        if (devcode !== undefined) {
+          isDevcode = devcode;
+        } else {
+          isDevcode = await promptYesNo(
+            `Is "${projectName}" a developmental code?`,
+            false,
+          );
+        }
 
-      // Determine if private repo - prompt only if creating repo and not specified
-      let isPrivate = false;
-      if (createRepo) {
-        if (opts.private !== undefined) {
-          isPrivate = opts.private;
+        // Determine if create repo - prompt if not specified
+        let createRepo: boolean;
+        const createRepoDefault = opts.createRepo ?? config.createRepo;
+        if (createRepoDefault !== undefined) {
+          createRepo = createRepoDefault;
         } else {
-          isPrivate = await promptYesNo('Make repo private?', false);
+          createRepo = await promptYesNo('Create GitHub repo?', true);
+        }
+
+        // Determine if private repo - prompt only if creating repo and not specified
+        let isPrivate = false;
+        if (createRepo) {
+          const privateDefault = opts.private ?? config.isPrivate;
+          if (privateDefault !== undefined) {
+            isPrivate = privateDefault;
+          } else {
+            isPrivate = await promptYesNo('Make repo private?', false);
+          }
         }
-      }
 
-      await initProject({
-        projectName,
-        lang,
-        isDevcode,
-        author: opts.author,
-        createRepo,
-        isPrivate,
-      });
+        await configureHttp(
+          resolveHttpOptions({
+            timeout: config.httpTimeout,
+            retries: config.httpRetries,
+            caFile: config.caFile,
+          }),
+        );
+        await loadNpmrc();
+        configureVersionCache({
+          offline: opts.offline ?? config.offline,
+          refresh: opts.refresh,
+        });
+        await initProject({
+          projectName,
+          lang,
+          isDevcode,
+          author: opts.author ?? config.author,
+          owner: opts.owner ?? config.owner,
+          license,
+          packageManager,
+          kind,
+          workspaces: opts.workspaces,
+          pinActions,
+          versionPolicy,
+          createRepo,
+          isPrivate,
+          conflictStrategy,
+          tooling: {
+            husky: opts.husky,
+            commitlint: opts.commitlint,
+            biome: opts.biome,
+            lintStaged: opts.lintStaged,
+            prePushTests: opts.prePushTests,
+          },
+          deleteRepoOnFailure: opts.deleteRepoOnFailure,
+          git: opts.git,
+          push: opts.push,
+          install: opts.install ?? config.install,
+          dryRun: opts.dryRun,
+          showContent: opts.showContent,
+        });
+        printVersionSources();
+      } catch (error) {
+        console.error(
+          `❌ ${error instanceof Error ? error.message : String(error)}`,
+        );
+        process.exit(1);
+      }
     });
 }
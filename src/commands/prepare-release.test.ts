@@ -1,12 +1,21 @@
-import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import { Command } from 'commander';
+import { getLanguageActions } from '../generators/languages';
+import { MANIFEST_PATH, readManifest } from '../generators/manifest';
+import { generateProject } from '../generators/project';
+import * as githubUtils from '../utils/github';
+import * as npmUtils from '../utils/npm';
+import { loadNpmrc, resetNpmrc } from '../utils/npmrc';
 import {
   detectDevcode,
+  detectDevcodeProject,
+  type PrepareReleaseOptions,
   prepareRelease,
   registerPrepareReleaseCommand,
 } from './prepare-release';
+import { getDrift, syncProject } from './sync';
 
 describe('prepare-release command', () => {
   const testDir = path.join(import.meta.dir, '../../.test-prepare-release');
@@ -51,12 +60,50 @@ describe('prepare-release command', () => {
       expect(detectDevcode(testDir)).rejects.toThrow('not a devcode project');
     });
 
-    test('should throw when package.json not found', async () => {
-      expect(detectDevcode(testDir)).rejects.toThrow('package.json not found');
+    test('should throw when no manifest is found', async () => {
+      expect(detectDevcode(testDir)).rejects.toThrow(
+        'No project manifest found',
+      );
+    });
+
+    test('should return devcode name when Cargo.toml has publish = false', async () => {
+      await fs.writeFile(
+        path.join(testDir, 'Cargo.toml'),
+        '[package]\nname = "my-crate"\nversion = "0.0.0"\npublish = false\n\n[dependencies]\nname = "not-the-package"\n',
+      );
+
+      expect(await detectDevcode(testDir)).toBe('my-crate');
+      expect(await detectDevcodeProject(testDir)).toEqual({
+        lang: 'rust',
+        devcode: 'my-crate',
+      });
+    });
+
+    test('should throw when Cargo.toml is publishable', async () => {
+      await fs.writeFile(
+        path.join(testDir, 'Cargo.toml'),
+        '[package]\nname = "my-crate"\nversion = "0.0.0"\n',
+      );
+
+      expect(detectDevcode(testDir)).rejects.toThrow('publish = false');
     });
   });
 
   describe('prepareRelease', () => {
+    let getLatestActionVersionsSpy: ReturnType<typeof spyOn>;
+
+    beforeEach(() => {
+      // Keep the tests off the live GitHub API and its rate limit
+      getLatestActionVersionsSpy = spyOn(
+        githubUtils,
+        'getLatestActionVersions',
+      ).mockResolvedValue({ ...githubUtils.GITHUB_ACTIONS });
+    });
+
+    afterEach(() => {
+      getLatestActionVersionsSpy.mockRestore();
+    });
+
     test('should replace only in managed locations', async () => {
       // Setup test files with private: true
       await fs.writeFile(
@@ -109,6 +156,44 @@ jobs:
       expect(codeql).toContain('@scope/package');
     });
 
+    test('should keep SHA-pinned actions when regenerating workflows', async () => {
+      const sha = '11bd71901bbe5b1630ceea73d27597364c9af683';
+      getLatestActionVersionsSpy.mockResolvedValue(
+        Object.fromEntries(
+          Object.keys(githubUtils.GITHUB_ACTIONS).map((action) => [
+            action,
+            `${sha} # v4.2.2`,
+          ]),
+        ),
+      );
+      await fs.writeFile(
+        path.join(testDir, 'package.json'),
+        JSON.stringify({ name: 'devcode', version: '0.0.0', private: true }),
+      );
+      await fs.writeFile(
+        path.join(testDir, '.github/workflows/tagpr.yml'),
+        'name: tagpr\n',
+      );
+
+      await prepareRelease({
+        publishName: '@scope/package',
+        targetDir: testDir,
+        pinActions: 'sha',
+      });
+      expect(getLatestActionVersionsSpy).toHaveBeenCalledWith(
+        getLanguageActions({ lang: 'typescript', packageManager: 'bun' }),
+        'sha',
+      );
+
+      for (const workflow of ['tagpr.yml', 'publish.yml']) {
+        const content = await fs.readFile(
+          path.join(testDir, '.github/workflows', workflow),
+          'utf-8',
+        );
+        expect(content).toContain(`actions/checkout@${sha} # v4.2.2`);
+      }
+    });
+
     test('should detect unmanaged occurrences', async () => {
       // Setup with devcode appearing in an unmanaged file
       await fs.writeFile(
@@ -148,6 +233,219 @@ jobs:
       expect(srcContent).not.toContain('@scope/package');
     });
 
+    test('should rename a project-name copyright holder in LICENSE', async () => {
+      await fs.writeFile(
+        path.join(testDir, 'package.json'),
+        JSON.stringify({ name: 'devcode-x', version: '0.0.0', private: true }),
+      );
+      await fs.writeFile(
+        path.join(testDir, 'LICENSE'),
+        'MIT License\n\nCopyright (c) 2026 The devcode-x authors\n',
+      );
+
+      const originalLog = console.log;
+      console.log = () => {};
+      try {
+        await prepareRelease({ publishName: 'released', targetDir: testDir });
+      } finally {
+        console.log = originalLog;
+      }
+
+      expect(
+        await fs.readFile(path.join(testDir, 'LICENSE'), 'utf-8'),
+      ).toContain('Copyright (c) 2026 The released authors');
+    });
+
+    test('should release a Cargo devcode project to crates.io', async () => {
+      await fs.writeFile(
+        path.join(testDir, 'Cargo.toml'),
+        '[package]\nname = "devcode"\nversion = "0.0.0"\nedition = "2024"\npublish = false\n\n[dependencies]\nthiserror = "2"\n',
+      );
+
+      const originalLog = console.log;
+      console.log = () => {};
+      try {
+        await prepareRelease({ publishName: 'my-crate', targetDir: testDir });
+      } finally {
+        console.log = originalLog;
+      }
+
+      const cargoToml = await fs.readFile(
+        path.join(testDir, 'Cargo.toml'),
+        'utf-8',
+      );
+      expect(cargoToml).toContain('name = "my-crate"');
+      expect(cargoToml).not.toContain('publish = false');
+      expect(cargoToml).toContain('thiserror = "2"');
+
+      const publish = await fs.readFile(
+        path.join(testDir, '.github/workflows/publish.yml'),
+        'utf-8',
+      );
+      expect(publish).toContain('cargo publish');
+      expect(publish).not.toContain('npm publish');
+    });
+
+    test('should match the publish workflow to the package manager', async () => {
+      await fs.writeFile(
+        path.join(testDir, 'package.json'),
+        JSON.stringify({
+          name: 'devcode',
+          private: true,
+          packageManager: 'pnpm@9.15.0',
+        }),
+      );
+
+      const originalLog = console.log;
+      console.log = () => {};
+      try {
+        await prepareRelease({ publishName: 'my-pkg', targetDir: testDir });
+      } finally {
+        console.log = originalLog;
+      }
+
+      const publish = await fs.readFile(
+        path.join(testDir, '.github/workflows/publish.yml'),
+        'utf-8',
+      );
+      expect(publish).toContain('pnpm/action-setup@');
+      expect(publish).toContain('pnpm install --frozen-lockfile');
+      expect(publish).not.toContain('setup-bun');
+    });
+
+    test('should publish scoped packages to the registry from .npmrc', async () => {
+      await fs.writeFile(
+        path.join(testDir, 'package.json'),
+        JSON.stringify({ name: 'devcode', private: true }),
+      );
+      await fs.writeFile(
+        path.join(testDir, '.npmrc'),
+        '@acme:registry=https://npm.pkg.github.com\n',
+      );
+      await loadNpmrc({
+        projectDir: testDir,
+        userConfig: path.join(testDir, 'missing-npmrc'),
+      });
+
+      const originalLog = console.log;
+      console.log = () => {};
+      const warnSpy = spyOn(console, 'warn');
+      let warnings: unknown[][];
+      try {
+        await prepareRelease({ publishName: '@acme/pkg', targetDir: testDir });
+      } finally {
+        console.log = originalLog;
+        warnings = [...warnSpy.mock.calls];
+        warnSpy.mockRestore();
+        resetNpmrc();
+      }
+      // The scope reaches the template without being taken as an EJS option
+      expect(warnings).toEqual([]);
+
+      const publish = await fs.readFile(
+        path.join(testDir, '.github/workflows/publish.yml'),
+        'utf-8',
+      );
+      expect(publish).toContain('name: Publish to GitHub Packages');
+      expect(publish).toContain("registry-url: 'https://npm.pkg.github.com'");
+      expect(publish).toContain("scope: '@acme'");
+      expect(publish).toContain('packages: write');
+      expect(publish).toContain(
+        `NODE_AUTH_TOKEN: \${{ secrets.GITHUB_TOKEN }}`,
+      );
+      expect(publish).not.toContain('--provenance');
+    });
+
+    test('should release a Python devcode project to PyPI', async () => {
+      await fs.writeFile(
+        path.join(testDir, 'pyproject.toml'),
+        '[project]\nname = "devcode"\nversion = "0.0.0"\nclassifiers = [\n    "Private :: Do Not Upload",\n]\ndependencies = []\n',
+      );
+
+      const originalLog = console.log;
+      console.log = () => {};
+      try {
+        await prepareRelease({ publishName: 'my-dist', targetDir: testDir });
+      } finally {
+        console.log = originalLog;
+      }
+
+      const pyproject = await fs.readFile(
+        path.join(testDir, 'pyproject.toml'),
+        'utf-8',
+      );
+      expect(pyproject).toContain('name = "my-dist"');
+      expect(pyproject).not.toContain('Private :: Do Not Upload');
+      expect(pyproject).not.toContain('classifiers');
+      expect(pyproject).toContain('dependencies = []');
+
+      const publish = await fs.readFile(
+        path.join(testDir, '.github/workflows/publish.yml'),
+        'utf-8',
+      );
+      expect(publish).toContain('uv publish');
+    });
+
+    test('should release a Go devcode project', async () => {
+      await fs.writeFile(
+        path.join(testDir, 'go.mod'),
+        '// initrepo:devcode - the module path uses a development codename\nmodule github.com/octo-org/devcode\n\ngo 1.24\n',
+      );
+      await fs.writeFile(
+        path.join(testDir, '.goreleaser.yaml'),
+        'version: 2\n\nbuilds:\n  - main: ./cmd/devcode\n    binary: devcode\n',
+      );
+      await fs.mkdir(path.join(testDir, 'cmd/devcode'), { recursive: true });
+      await fs.writeFile(
+        path.join(testDir, 'cmd/devcode/main.go'),
+        'package main\n',
+      );
+
+      expect(await detectDevcodeProject(testDir)).toEqual({
+        lang: 'go',
+        devcode: 'devcode',
+      });
+
+      const originalLog = console.log;
+      console.log = () => {};
+      try {
+        await prepareRelease({ publishName: 'service', targetDir: testDir });
+      } finally {
+        console.log = originalLog;
+      }
+
+      const goMod = await fs.readFile(path.join(testDir, 'go.mod'), 'utf-8');
+      expect(goMod).toContain('module github.com/octo-org/service');
+      expect(goMod).not.toContain('initrepo:devcode');
+
+      const goreleaser = await fs.readFile(
+        path.join(testDir, '.goreleaser.yaml'),
+        'utf-8',
+      );
+      expect(goreleaser).toContain('main: ./cmd/service');
+      expect(goreleaser).toContain('binary: service');
+
+      const files = await fs.readdir(testDir, { recursive: true });
+      expect(files).toContain(path.join('cmd', 'service', 'main.go'));
+
+      const publish = await fs.readFile(
+        path.join(testDir, '.github/workflows/publish.yml'),
+        'utf-8',
+      );
+      expect(publish).toContain('goreleaser/goreleaser-action@');
+    });
+
+    test('should reject invalid crate names', async () => {
+      await fs.writeFile(
+        path.join(testDir, 'Cargo.toml'),
+        '[package]\nname = "devcode"\npublish = false\n',
+      );
+
+      expect(
+        prepareRelease({ publishName: '@scope/package', targetDir: testDir }),
+      ).rejects.toThrow('not a valid crate name');
+    });
+
     test('should fail if not a devcode project', async () => {
       await fs.writeFile(
         path.join(testDir, 'package.json'),
@@ -160,6 +458,142 @@ jobs:
     });
   });
 
+  describe('prepareRelease on generated projects', () => {
+    const spies: ReturnType<typeof spyOn>[] = [];
+
+    beforeEach(() => {
+      spies.push(
+        spyOn(npmUtils, 'getLatestVersions').mockImplementation(
+          async (packages: string[]) =>
+            Object.fromEntries(packages.map((name) => [name, '1.0.0'])),
+        ),
+        spyOn(npmUtils, 'getNpmUsername').mockResolvedValue(null),
+        spyOn(githubUtils, 'getLatestActionVersions').mockResolvedValue({
+          ...githubUtils.GITHUB_ACTIONS,
+        }),
+      );
+    });
+
+    afterEach(() => {
+      for (const spy of spies.splice(0)) {
+        spy.mockRestore();
+      }
+    });
+
+    async function release(
+      options: Omit<PrepareReleaseOptions, 'targetDir'>,
+    ): Promise<string> {
+      const logs: string[] = [];
+      const originalLog = console.log;
+      console.log = (...args) => logs.push(args.join(' '));
+      try {
+        await prepareRelease({ ...options, targetDir: testDir });
+      } finally {
+        console.log = originalLog;
+      }
+      return logs.join('\n');
+    }
+
+    test('should update the manifest so sync keeps the release', async () => {
+      await generateProject({
+        projectName: 'devcode-x',
+        lang: 'typescript',
+        isDevcode: true,
+        targetDir: testDir,
+      });
+
+      const output = await release({ publishName: 'released' });
+
+      expect(output).toContain(`✅ ${MANIFEST_PATH}`);
+      expect(output).not.toContain(`- ${MANIFEST_PATH}:`);
+      const manifest = await readManifest(testDir);
+      expect(manifest.options.projectName).toBe('released');
+      expect(manifest.options.isDevcode).toBe(false);
+
+      const synced = await syncProject({ targetDir: testDir, check: true });
+      expect(getDrift(synced)).toEqual([]);
+    });
+
+    test('should refuse to release a workspace root', async () => {
+      await generateProject({
+        projectName: 'my-tools',
+        lang: 'typescript',
+        isDevcode: false,
+        workspaces: true,
+        targetDir: testDir,
+      });
+
+      expect(release({ publishName: 'released-name' })).rejects.toThrow(
+        'is a workspace root, which is never published. Release one of its packages with --package <name> (my-tools)',
+      );
+
+      const root = JSON.parse(
+        await fs.readFile(path.join(testDir, 'package.json'), 'utf-8'),
+      );
+      expect(root.name).toBe('my-tools-root');
+      expect(root.private).toBe(true);
+    });
+
+    test('should release one workspace package with its own publish workflow', async () => {
+      await generateProject({
+        projectName: 'devcode-cli',
+        lang: 'typescript',
+        isDevcode: true,
+        workspaces: true,
+        targetDir: testDir,
+      });
+
+      await release({ publishName: '@acme/cli', packageName: 'devcode-cli' });
+
+      const member = JSON.parse(
+        await fs.readFile(
+          path.join(testDir, 'packages/devcode-cli/package.json'),
+          'utf-8',
+        ),
+      );
+      expect(member.name).toBe('@acme/cli');
+      expect(member.private).toBeUndefined();
+
+      const root = JSON.parse(
+        await fs.readFile(path.join(testDir, 'package.json'), 'utf-8'),
+      );
+      expect(root.name).toBe('devcode-cli-root');
+      expect(root.private).toBe(true);
+
+      const workflows = await fs.readdir(
+        path.join(testDir, '.github/workflows'),
+      );
+      expect(workflows).toContain('publish-devcode-cli.yml');
+      expect(workflows).not.toContain('publish.yml');
+      const publish = await fs.readFile(
+        path.join(testDir, '.github/workflows/publish-devcode-cli.yml'),
+        'utf-8',
+      );
+      expect(publish).toContain('name: Publish @acme/cli to npm');
+      expect(publish).toContain('working-directory: packages/devcode-cli');
+
+      const tagpr = await fs.readFile(
+        path.join(testDir, '.github/workflows/tagpr.yml'),
+        'utf-8',
+      );
+      expect(tagpr).toContain('secrets.PAT_FOR_TAGPR');
+    });
+
+    test('should reject unknown workspace packages', async () => {
+      await generateProject({
+        projectName: 'devcode-cli',
+        lang: 'typescript',
+        isDevcode: true,
+        workspaces: true,
+        targetDir: testDir,
+      });
+
+      expect(
+        release({ publishName: 'released', packageName: 'missing' }),
+      ).rejects.toThrow('No workspace package "missing" in packages/');
+    });
+  });
+
   describe('registerPrepareReleaseCommand', () => {
     test('should register prepare-release command with publish-name argument', () => {
       const program = new Command();
@@ -1,91 +1,136 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import type { Command } from 'commander';
-import { loadTemplate } from '../generators/project';
-import { getLatestActionVersions } from '../utils/github';
+import { COMMON_GITHUB_ACTIONS } from '../config';
+import {
+  type DetectedProject,
+  detectProject,
+  getManifestFiles,
+} from '../generators/detect';
+import {
+  getLanguageActions,
+  getLanguageGenerator,
+  type ManagedLocation,
+} from '../generators/languages';
+import { replaceInLicense } from '../generators/licenses';
+import { MANIFEST_PATH, replaceInManifest } from '../generators/manifest';
+import { detectPackageManager } from '../generators/package-managers';
+import { replaceInReadme } from '../generators/readme';
+import {
+  getTemplateLayers,
+  loadTemplate,
+  loadTemplateLayers,
+} from '../generators/templates';
+import { WORKSPACE_PACKAGES_DIR } from '../generators/workspace';
+import type { ActionPinning, Language } from '../types';
+import {
+  DEFAULT_ACTION_PINNING,
+  getLatestActionVersions,
+  validateActionPinning,
+} from '../utils/github';
+import { configureHttp, resolveHttpOptions } from '../utils/http';
+import { loadConfig } from '../utils/initrepo-config';
+import { loadNpmrc } from '../utils/npmrc';
+import {
+  configureVersionCache,
+  printVersionSources,
+} from '../utils/version-cache';
 
 export interface PrepareReleaseOptions {
   /** New package name for release */
   publishName: string;
   /** Target directory (defaults to current directory) */
   targetDir?: string;
+  /** Workspace package to release: its name or its directory under packages/ */
+  packageName?: string;
+  /** How regenerated workflows reference actions (recorded as pinActions in .initreporc) */
+  pinActions?: ActionPinning;
 }
 
-interface PackageJson {
-  name: string;
-  private?: boolean;
-  [key: string]: unknown;
+export interface DevcodeProject {
+  lang: Language;
+  devcode: string;
+  /** Directory of the released workspace package (e.g., packages/cli) */
+  packageDir?: string;
 }
 
 /**
- * Managed locations where devcode replacement is performed automatically.
- * Each location specifies the file and how to replace.
+ * Picks the workspace package to release by name or directory
  */
-interface ManagedLocation {
-  file: string;
-  description: string;
-  replace: (
-    targetDir: string,
-    devcode: string,
-    publishName: string,
-  ) => Promise<void>;
+function selectWorkspaceMember(
+  targetDir: string,
+  members: DetectedProject[],
+  packageName: string | undefined,
+): DetectedProject {
+  const names = members.map((member) => member.name).join(', ');
+  if (!packageName) {
+    throw new Error(
+      `"${targetDir}" is a workspace root, which is never published. Release one of its packages with --package <name> (${names || `no packages in ${WORKSPACE_PACKAGES_DIR}/`})`,
+    );
+  }
+
+  const member = members.find((candidate) => {
+    const dir = path.posix.dirname(candidate.file);
+    return (
+      candidate.name === packageName ||
+      dir === packageName ||
+      dir === `${WORKSPACE_PACKAGES_DIR}/${packageName}`
+    );
+  });
+  if (!member) {
+    throw new Error(
+      `No workspace package "${packageName}" in ${WORKSPACE_PACKAGES_DIR}/ (${names || 'none found'})`,
+    );
+  }
+  return member;
 }
 
 /**
- * Reads package.json and detects if this is a devcode project
- * Returns the devcode name if private: true, otherwise throws
+ * Reads the project manifest and detects if this is a devcode project
+ * Manifests are checked in LANGUAGE_GENERATORS order; the first one found decides the language.
+ * At a workspace root, packageName selects the package under packages/ to check.
+ * Returns the language and devcode name if the devcode marker is present, otherwise throws
  */
-export async function detectDevcode(targetDir: string): Promise<string> {
-  const packageJsonPath = path.join(targetDir, 'package.json');
-
-  let content: string;
-  try {
-    content = await fs.readFile(packageJsonPath, 'utf-8');
-  } catch (error) {
-    const fsError = error as NodeJS.ErrnoException;
-    if (fsError.code === 'ENOENT') {
-      throw new Error(
-        'package.json not found. Are you in a project directory?',
-      );
-    }
-    throw error;
+export async function detectDevcodeProject(
+  targetDir: string,
+  packageName?: string,
+): Promise<DevcodeProject> {
+  const project = await detectProject(targetDir);
+  if (!project) {
+    throw new Error(
+      `No project manifest found (${getManifestFiles().join(', ')}). Are you in a project directory?`,
+    );
   }
 
-  const pkg = JSON.parse(content) as PackageJson;
+  if (!project.members && packageName) {
+    throw new Error(
+      `--package selects a workspace package, but "${targetDir}" is not a workspace root`,
+    );
+  }
+  const release = project.members
+    ? selectWorkspaceMember(targetDir, project.members, packageName)
+    : project;
 
-  if (!pkg.private) {
+  if (!release.isDevcode) {
     throw new Error(
-      'This project is not a devcode project (missing "private": true in package.json)',
+      `This project is not a devcode project (missing ${release.marker} in ${release.file})`,
     );
   }
 
-  return pkg.name;
+  return {
+    lang: release.lang,
+    devcode: release.name,
+    packageDir: project.members ? path.posix.dirname(release.file) : undefined,
+  };
 }
 
 /**
- * Updates package.json: replaces name and removes "private": true
- * This is a MANAGED replacement - only touches the "name" field
+ * Reads the project manifest and detects if this is a devcode project
+ * Returns the devcode name if the devcode marker is present, otherwise throws
  */
-async function replaceInPackageJson(
-  targetDir: string,
-  _devcode: string,
-  publishName: string,
-): Promise<void> {
-  const packageJsonPath = path.join(targetDir, 'package.json');
-  const content = await fs.readFile(packageJsonPath, 'utf-8');
-  const pkg = JSON.parse(content) as PackageJson;
-
-  // Only replace the managed "name" field
-  pkg.name = publishName;
-
-  // Remove private flag
-  delete pkg.private;
-
-  await fs.writeFile(
-    packageJsonPath,
-    `${JSON.stringify(pkg, null, 2)}\n`,
-    'utf-8',
-  );
+export async function detectDevcode(targetDir: string): Promise<string> {
+  const { devcode } = await detectDevcodeProject(targetDir);
+  return devcode;
 }
 
 /**
@@ -132,8 +177,7 @@ async function replaceInCodeqlConfig(
  */
 async function replaceInTagprWorkflow(
   targetDir: string,
-  _devcode: string,
-  _publishName: string,
+  pinActions: ActionPinning,
 ): Promise<void> {
   const workflowPath = path.join(targetDir, '.github/workflows/tagpr.yml');
 
@@ -144,7 +188,10 @@ async function replaceInTagprWorkflow(
     return; // File doesn't exist, nothing to do
   }
 
-  const actionVersions = await getLatestActionVersions();
+  const actionVersions = await getLatestActionVersions(
+    COMMON_GITHUB_ACTIONS,
+    pinActions,
+  );
   const content = await loadTemplate('common/workflows/tagpr.yml.ejs', {
     isDevcode: false,
     actionVersions,
@@ -154,42 +201,158 @@ async function replaceInTagprWorkflow(
 }
 
 /**
- * Generates publish.yml workflow for npm publishing with OIDC
+ * Publish workflow of a project, or of one workspace package
+ * (e.g., packages/cli -> .github/workflows/publish-cli.yml)
  */
-async function generatePublishWorkflow(targetDir: string): Promise<void> {
-  const workflowDir = path.join(targetDir, '.github/workflows');
-  const workflowPath = path.join(workflowDir, 'publish.yml');
-
-  await fs.mkdir(workflowDir, { recursive: true });
+export function getPublishWorkflowPath(packageDir?: string): string {
+  return packageDir
+    ? `.github/workflows/publish-${path.posix.basename(packageDir)}.yml`
+    : '.github/workflows/publish.yml';
+}
 
-  const actionVersions = await getLatestActionVersions();
-  const content = await loadTemplate('common/workflows/publish.yml.ejs', {
+/**
+ * Generates the publish workflow for the language's release target
+ * (e.g., npm with OIDC, crates.io with trusted publishing)
+ * A workspace package gets its own workflow that publishes from its directory.
+ */
+async function generatePublishWorkflow(
+  targetDir: string,
+  lang: Language,
+  publishName: string,
+  pinActions: ActionPinning,
+  packageDir?: string,
+): Promise<string> {
+  const workflowFile = getPublishWorkflowPath(packageDir);
+  const workflowPath = path.join(targetDir, workflowFile);
+
+  await fs.mkdir(path.dirname(workflowPath), { recursive: true });
+
+  const packageManager =
+    lang === 'typescript'
+      ? (await detectPackageManager(targetDir)).name
+      : undefined;
+  const actionVersions = await getLatestActionVersions(
+    getLanguageActions({ lang, packageManager }),
+    pinActions,
+  );
+  const templateData =
+    (await getLanguageGenerator(lang).publish.templateData?.(
+      targetDir,
+      publishName,
+    )) ?? {};
+  const content = await loadTemplate(`${lang}/workflows/publish.yml.ejs`, {
+    ...templateData,
     actionVersions,
+    publishName,
+    packageDir: packageDir ?? null,
   });
 
   await fs.writeFile(workflowPath, content, 'utf-8');
+  return workflowFile;
 }
 
 /**
- * Managed locations where devcode is automatically replaced
+ * README.md, whose install snippet and registry badge depend on the language
  */
-const MANAGED_LOCATIONS: ManagedLocation[] = [
-  {
-    file: 'package.json',
-    description: 'name field',
-    replace: replaceInPackageJson,
-  },
-  {
-    file: '.github/codeql/codeql-config.yml',
-    description: 'name field',
-    replace: replaceInCodeqlConfig,
-  },
-  {
-    file: '.github/workflows/tagpr.yml',
-    description: 'GITHUB_TOKEN → PAT_FOR_TAGPR',
-    replace: replaceInTagprWorkflow,
-  },
-];
+function getReadmeLocation(lang: Language): ManagedLocation {
+  return {
+    file: 'README.md',
+    description: 'title, badges, devcode notice and install snippet',
+    replace: (targetDir, devcode, publishName) =>
+      replaceInReadme(targetDir, lang, devcode, publishName),
+  };
+}
+
+/**
+ * Managed locations shared by all languages
+ */
+function getCommonManagedLocations(
+  pinActions: ActionPinning,
+): ManagedLocation[] {
+  return [
+    {
+      file: '.github/codeql/codeql-config.yml',
+      description: 'name field',
+      replace: replaceInCodeqlConfig,
+    },
+    {
+      file: 'LICENSE',
+      description: 'copyright holder',
+      replace: replaceInLicense,
+    },
+    {
+      file: '.github/workflows/tagpr.yml',
+      description: 'GITHUB_TOKEN → PAT_FOR_TAGPR',
+      replace: (targetDir) => replaceInTagprWorkflow(targetDir, pinActions),
+    },
+    {
+      file: MANIFEST_PATH,
+      description: 'recorded project name and devcode flag',
+      replace: replaceInManifest,
+    },
+  ];
+}
+
+/**
+ * Managed locations where devcode is automatically replaced:
+ * the language's manifest, its own locations, then the shared ones
+ */
+export function getManagedLocations(
+  lang: Language,
+  pinActions: ActionPinning = DEFAULT_ACTION_PINNING,
+): ManagedLocation[] {
+  const generator = getLanguageGenerator(lang);
+  return [
+    generator.devcode,
+    ...generator.managedLocations,
+    getReadmeLocation(lang),
+    ...getCommonManagedLocations(pinActions),
+  ];
+}
+
+/**
+ * Returns true if the README title names the package; a workspace README is
+ * titled after the package init created
+ */
+async function readmeTitleNames(
+  targetDir: string,
+  devcode: string,
+): Promise<boolean> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(targetDir, 'README.md'), 'utf-8');
+  } catch {
+    return false;
+  }
+  const title = content.split('\n').find((line) => line.startsWith('# '));
+  return title?.includes(devcode) ?? false;
+}
+
+/**
+ * Managed locations for releasing one workspace package: its manifest, the
+ * README if it is about that package, then the shared ones
+ */
+export async function getWorkspaceManagedLocations(
+  targetDir: string,
+  lang: Language,
+  packageDir: string,
+  devcode: string,
+  pinActions: ActionPinning = DEFAULT_ACTION_PINNING,
+): Promise<ManagedLocation[]> {
+  const manifest = getLanguageGenerator(lang).devcode;
+  return [
+    {
+      file: `${packageDir}/${manifest.file}`,
+      description: manifest.description,
+      replace: (dir, code, publishName) =>
+        manifest.replace(path.join(dir, packageDir), code, publishName),
+    },
+    ...((await readmeTitleNames(targetDir, devcode))
+      ? [getReadmeLocation(lang)]
+      : []),
+    ...getCommonManagedLocations(pinActions),
+  ];
+}
 
 /**
  * Scans project for unmanaged occurrences of devcode
@@ -197,15 +360,17 @@ const MANAGED_LOCATIONS: ManagedLocation[] = [
 async function findUnmanagedOccurrences(
   targetDir: string,
   devcode: string,
+  managedLocations: ManagedLocation[],
 ): Promise<{ file: string; line: number; content: string }[]> {
   const occurrences: { file: string; line: number; content: string }[] = [];
-  const managedFiles = new Set(MANAGED_LOCATIONS.map((l) => l.file));
+  const managedFiles = new Set(managedLocations.map((l) => l.file));
 
   // Files to scan (excluding node_modules, .git, etc.)
   const filesToScan = await findFilesRecursive(targetDir, [
     'node_modules',
     '.git',
     'dist',
+    'target',
     'bun.lockb',
   ]);
 
@@ -276,15 +441,33 @@ export async function prepareRelease(
 ): Promise<void> {
   const targetDir = options.targetDir ?? process.cwd();
 
-  // Detect devcode from package.json (private: true)
-  const devcode = await detectDevcode(targetDir);
+  // Detect devcode from the project manifest (e.g., private: true)
+  const { lang, devcode, packageDir } = await detectDevcodeProject(
+    targetDir,
+    options.packageName,
+  );
+  const generator = getLanguageGenerator(lang);
+  generator.publish.validateName?.(options.publishName);
 
-  console.log(`Detected devcode project: ${devcode}`);
+  console.log(
+    `Detected devcode ${packageDir ? `package: ${devcode} (${packageDir})` : `project: ${devcode}`}`,
+  );
   console.log(`Preparing release: ${devcode} → ${options.publishName}\n`);
 
+  const pinActions = options.pinActions ?? DEFAULT_ACTION_PINNING;
+  const managedLocations = packageDir
+    ? await getWorkspaceManagedLocations(
+        targetDir,
+        lang,
+        packageDir,
+        devcode,
+        pinActions,
+      )
+    : getManagedLocations(lang, pinActions);
+
   // Process managed locations
   console.log('📁 Managed replacements:');
-  for (const location of MANAGED_LOCATIONS) {
+  for (const location of managedLocations) {
     try {
       await location.replace(targetDir, devcode, options.publishName);
       console.log(`   ✅ ${location.file} (${location.description})`);
@@ -295,19 +478,30 @@ export async function prepareRelease(
     }
   }
 
-  // Generate publish workflow for npm OIDC publishing
+  // Generate publish workflow for the language's registry
   console.log('\n📦 Generating release workflows:');
+  const publishWorkflow = getPublishWorkflowPath(packageDir);
   try {
-    await generatePublishWorkflow(targetDir);
-    console.log('   ✅ .github/workflows/publish.yml (npm OIDC publishing)');
+    await generatePublishWorkflow(
+      targetDir,
+      lang,
+      options.publishName,
+      pinActions,
+      packageDir,
+    );
+    console.log(`   ✅ ${publishWorkflow} (${generator.publish.target})`);
   } catch (error) {
     console.log(
-      `   ⚠️  publish.yml: ${error instanceof Error ? error.message : String(error)}`,
+      `   ⚠️  ${path.posix.basename(publishWorkflow)}: ${error instanceof Error ? error.message : String(error)}`,
     );
   }
 
   // Scan for unmanaged occurrences
-  const unmanaged = await findUnmanagedOccurrences(targetDir, devcode);
+  const unmanaged = await findUnmanagedOccurrences(
+    targetDir,
+    devcode,
+    managedLocations,
+  );
 
   if (unmanaged.length > 0) {
     console.log(
@@ -324,9 +518,11 @@ export async function prepareRelease(
 
   console.log(`\n🎉 Release preparation complete!`);
   console.log(`   Package renamed: ${devcode} → ${options.publishName}`);
-  console.log(`   Private flag removed`);
+  console.log(`   Devcode marker removed (${generator.devcode.marker})`);
   console.log(`   Workflows updated to use PAT_FOR_TAGPR`);
-  console.log(`   publish.yml generated for npm OIDC publishing`);
+  console.log(
+    `   ${path.posix.basename(publishWorkflow)} generated for ${generator.publish.target}`,
+  );
 
   console.log(`\n⚠️  Action required: Set up PAT_FOR_TAGPR secret`);
   console.log(`   1. Create a Personal Access Token (classic) at:`);
@@ -347,23 +543,75 @@ export function registerPrepareReleaseCommand(program: Command): void {
   program
     .command('prepare-release <publish-name>')
     .description(
-      'Prepare a devcode project for release (auto-detects devcode from package.json)',
+      'Prepare a devcode project for release (auto-detects devcode from the project manifest)',
     )
     .option(
       '-t, --target-dir <path>',
       'Target directory (defaults to current directory)',
     )
-    .action(async (publishName: string, opts: { targetDir?: string }) => {
-      try {
-        await prepareRelease({
-          publishName,
-          targetDir: opts.targetDir,
-        });
-      } catch (error) {
-        console.error(
-          `❌ Failed to prepare release: ${error instanceof Error ? error.message : String(error)}`,
-        );
-        process.exit(1);
-      }
-    });
+    .option(
+      '--package <name>',
+      'In a workspace: the package to release (name or directory under packages/)',
+    )
+    .option(
+      '--templates <dir>',
+      'Template directory that shadows or adds templates',
+    )
+    .option(
+      '--pin-actions <mode>',
+      'Reference actions by major tag or commit SHA (major, sha; default: pinActions from .initreporc)',
+    )
+    .option('--offline', 'Use only cached or built-in fallback action versions')
+    .option('--refresh', 'Fetch action versions even if they are cached')
+    .action(
+      async (
+        publishName: string,
+        opts: {
+          targetDir?: string;
+          package?: string;
+          templates?: string;
+          pinActions?: string;
+          offline?: boolean;
+          refresh?: boolean;
+        },
+      ) => {
+        try {
+          const { config } = await loadConfig({
+            projectDir: opts.targetDir,
+          });
+          await configureHttp(
+            resolveHttpOptions({
+              timeout: config.httpTimeout,
+              retries: config.httpRetries,
+              caFile: config.caFile,
+            }),
+          );
+          await loadNpmrc({ projectDir: opts.targetDir });
+          configureVersionCache({
+            offline: opts.offline ?? config.offline,
+            refresh: opts.refresh,
+          });
+          await loadTemplateLayers(
+            getTemplateLayers({
+              projectDir: opts.targetDir,
+              templatesDir: opts.templates ?? config.templates,
+            }),
+          );
+          await prepareRelease({
+            publishName,
+            targetDir: opts.targetDir,
+            packageName: opts.package,
+            pinActions: validateActionPinning(
+              opts.pinActions ?? config.pinActions ?? DEFAULT_ACTION_PINNING,
+            ),
+          });
+          printVersionSources();
+        } catch (error) {
+          console.error(
+            `❌ Failed to prepare release: ${error instanceof Error ? error.message : String(error)}`,
+          );
+          process.exit(1);
+        }
+      },
+    );
 }
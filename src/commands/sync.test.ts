@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { MANIFEST_PATH, ManifestError } from '../generators/manifest';
+import { generateProject } from '../generators/project';
+import * as githubUtils from '../utils/github';
+import * as npmUtils from '../utils/npm';
+import { getDrift, syncProject } from './sync';
+
+describe('sync command', () => {
+  const testDir = path.join(import.meta.dir, '../../.test-sync');
+  const ciPath = '.github/workflows/ci.yml';
+  let getLatestVersionsSpy: ReturnType<typeof spyOn>;
+  let getLatestActionVersionsSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(async () => {
+    getLatestVersionsSpy = spyOn(
+      npmUtils,
+      'getLatestVersions',
+    ).mockImplementation(async (packages: string[]) =>
+      Object.fromEntries(packages.map((name) => [name, '1.0.0'])),
+    );
+    getLatestActionVersionsSpy = spyOn(
+      githubUtils,
+      'getLatestActionVersions',
+    ).mockResolvedValue({ ...githubUtils.GITHUB_ACTIONS });
+
+    await fs.rm(testDir, { recursive: true, force: true });
+    await generateProject({
+      projectName: 'synced-project',
+      lang: 'typescript',
+      isDevcode: false,
+      author: 'test-author',
+      targetDir: testDir,
+    });
+  });
+
+  afterEach(async () => {
+    getLatestVersionsSpy.mockRestore();
+    getLatestActionVersionsSpy.mockRestore();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function readFile(filePath: string): Promise<string> {
+    return fs.readFile(path.join(testDir, filePath), 'utf-8');
+  }
+
+  /**
+   * Pretends ci.yml was rendered by an older template whose workflow was
+   * named "Old CI", and writes the project's copy with localEdit applied
+   */
+  async function useOlderCiTemplate(
+    localEdit: (content: string) => string = (content) => content,
+  ): Promise<{ oldRender: string; newRender: string }> {
+    const manifest = JSON.parse(await readFile(MANIFEST_PATH));
+    const newRender: string = manifest.files[ciPath];
+    const oldRender = newRender.replace('name: CI', 'name: Old CI');
+    manifest.files[ciPath] = oldRender;
+    await fs.writeFile(
+      path.join(testDir, MANIFEST_PATH),
+      JSON.stringify(manifest, null, 2),
+    );
+    await fs.writeFile(path.join(testDir, ciPath), localEdit(oldRender));
+    return { oldRender, newRender };
+  }
+
+  test('should report no drift for an up-to-date project', async () => {
+    const result = await syncProject({ targetDir: testDir, check: true });
+
+    expect(getDrift(result)).toEqual([]);
+    expect(result.files.every((file) => file.action === 'unchanged')).toBe(
+      true,
+    );
+  });
+
+  test('should update files without local edits', async () => {
+    const { newRender } = await useOlderCiTemplate();
+
+    const result = await syncProject({ targetDir: testDir });
+
+    expect(getDrift(result).map((file) => [file.path, file.action])).toEqual([
+      [ciPath, 'updated'],
+    ]);
+    expect(await readFile(ciPath)).toBe(newRender);
+    const manifest = JSON.parse(await readFile(MANIFEST_PATH));
+    expect(manifest.files[ciPath]).toBe(newRender);
+  });
+
+  test('should keep local edits while applying template changes', async () => {
+    const { newRender } = await useOlderCiTemplate(
+      (content) => `${content}# local step\n`,
+    );
+
+    const result = await syncProject({ targetDir: testDir });
+
+    expect(getDrift(result)[0].action).toBe('merged');
+    expect(await readFile(ciPath)).toBe(`${newRender}# local step\n`);
+  });
+
+  test('should not report files that already have the template changes', async () => {
+    await useOlderCiTemplate((content) =>
+      content.replace('name: Old CI', 'name: CI').concat('# local step\n'),
+    );
+
+    const result = await syncProject({ targetDir: testDir, check: true });
+
+    expect(getDrift(result)).toEqual([]);
+  });
+
+  test('should mark overlapping changes as conflicts', async () => {
+    await useOlderCiTemplate((content) =>
+      content.replace('name: Old CI', 'name: My CI'),
+    );
+
+    const result = await syncProject({ targetDir: testDir });
+
+    expect(getDrift(result)[0].action).toBe('conflict');
+    const content = await readFile(ciPath);
+    expect(content).toContain(
+      `<<<<<<< ${ciPath} (current)\nname: My CI\n=======\nname: CI\n>>>>>>> ${ciPath} (template)\n`,
+    );
+  });
+
+  test('should only report drift with check', async () => {
+    const { oldRender } = await useOlderCiTemplate();
+
+    const result = await syncProject({ targetDir: testDir, check: true });
+
+    expect(getDrift(result)[0].diff).toContain('-name: Old CI\n+name: CI');
+    expect(await readFile(ciPath)).toBe(oldRender);
+  });
+
+  test('should leave files deleted locally deleted', async () => {
+    await fs.rm(path.join(testDir, '.github/workflows/codeql.yml'));
+
+    const result = await syncProject({ targetDir: testDir });
+
+    expect(
+      result.files.find((file) => file.path === '.github/workflows/codeql.yml')
+        ?.action,
+    ).toBe('skipped');
+    expect(getDrift(result)).toEqual([]);
+  });
+
+  test('should leave source scaffolds to the user', async () => {
+    const manifest = JSON.parse(await readFile(MANIFEST_PATH));
+    manifest.options.projectName = 'renamed-project';
+    await fs.writeFile(
+      path.join(testDir, MANIFEST_PATH),
+      JSON.stringify(manifest, null, 2),
+    );
+    const source = await readFile('src/index.ts');
+
+    const result = await syncProject({ targetDir: testDir });
+
+    const synced = result.files.map((file) => file.path);
+    expect(synced).not.toContain('src/index.ts');
+    expect(synced).not.toContain('src/index.test.ts');
+    expect(getDrift(result).map((file) => file.path)).toContain('package.json');
+    expect(await readFile('src/index.ts')).toBe(source);
+  });
+
+  test('should throw for projects without a manifest', async () => {
+    await fs.rm(path.join(testDir, MANIFEST_PATH));
+
+    expect(syncProject({ targetDir: testDir })).rejects.toThrow(ManifestError);
+    expect(syncProject({ targetDir: testDir })).rejects.toThrow(
+      'Only projects created by initrepo init can be synced',
+    );
+  });
+});
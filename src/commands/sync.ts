@@ -0,0 +1,273 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Command } from 'commander';
+import packageJson from '../../package.json';
+import {
+  generateManifest,
+  MANIFEST_PATH,
+  readManifest,
+} from '../generators/manifest';
+import { applyGeneratedFiles, renderProject } from '../generators/project';
+import {
+  type GeneratedFile,
+  getTemplateLayers,
+  loadTemplateLayers,
+} from '../generators/templates';
+import { createUnifiedDiff, mergeThreeWay } from '../utils/diff';
+import { loadConfig } from '../utils/initrepo-config';
+
+export interface SyncOptions {
+  /** Project directory (defaults to current directory) */
+  targetDir?: string;
+  /** Report drift without writing anything */
+  check?: boolean;
+}
+
+export type SyncAction =
+  | 'unchanged'
+  | 'created'
+  | 'updated'
+  | 'merged'
+  | 'conflict'
+  | 'skipped';
+
+export interface SyncFileResult {
+  path: string;
+  /**
+   * unchanged: the template output did not change
+   * created: new template file
+   * updated: the file had no local edits and now matches the template
+   * merged: local edits and template changes were combined cleanly
+   * conflict: local edits and template changes overlap; markers were added
+   * skipped: the file was deleted locally and stays deleted
+   */
+  action: SyncAction;
+  /** Content after the sync (undefined for unchanged and skipped files) */
+  content?: string;
+  /** Diff from the current file to the synced one */
+  diff?: string;
+}
+
+export interface SyncResult {
+  /** initrepo version the project was last rendered with */
+  fromVersion: string;
+  toVersion: string;
+  files: SyncFileResult[];
+}
+
+async function readCurrentFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Decides what sync does with one freshly rendered file
+ */
+function planSyncFile(
+  file: GeneratedFile,
+  base: string | undefined,
+  current: string | null,
+): SyncFileResult {
+  if (current === null) {
+    // Files init generated but the user deleted are left deleted
+    return base === undefined
+      ? { path: file.path, action: 'created', content: file.content }
+      : { path: file.path, action: 'skipped' };
+  }
+  if (base === file.content || current === file.content) {
+    return { path: file.path, action: 'unchanged' };
+  }
+  if (base === undefined) {
+    // The template is new but a file of the same name exists: merge from empty
+    base = '';
+  }
+
+  const { content, conflicts } = mergeThreeWay(
+    base,
+    current,
+    file.content,
+    `${file.path} (current)`,
+    `${file.path} (template)`,
+  );
+  if (content === current) {
+    // The file already has the template's changes
+    return { path: file.path, action: 'unchanged' };
+  }
+  const action: SyncAction =
+    conflicts > 0 ? 'conflict' : current === base ? 'updated' : 'merged';
+  return {
+    path: file.path,
+    action,
+    content,
+    diff: createUnifiedDiff(
+      current,
+      content,
+      `${file.path} (current)`,
+      `${file.path} (synced)`,
+    ),
+  };
+}
+
+/**
+ * Re-renders the templates with the options and versions recorded in the
+ * manifest and merges the changes into the project's files
+ * Template changes since the last render are applied; local edits are
+ * kept, and overlapping ones are marked as conflicts. Source scaffolds
+ * (e.g., src/index.ts) belong to the user and are left out. With check,
+ * nothing is written.
+ */
+export async function syncProject(
+  options: SyncOptions = {},
+): Promise<SyncResult> {
+  const targetDir = options.targetDir ?? process.cwd();
+  const manifest = await readManifest(targetDir);
+
+  const rendered = await renderProject(
+    { ...manifest.options, targetDir },
+    { versions: manifest.versions, actionVersions: manifest.actionVersions },
+  );
+  const templateFiles = rendered.files.filter(
+    (file) => file.path !== MANIFEST_PATH && !file.scaffold,
+  );
+
+  const files: SyncFileResult[] = [];
+  for (const file of templateFiles) {
+    const current = await readCurrentFile(path.join(targetDir, file.path));
+    files.push(planSyncFile(file, manifest.files[file.path], current));
+  }
+
+  if (!options.check) {
+    const writes = files.flatMap((result) =>
+      result.content === undefined
+        ? []
+        : [{ path: result.path, content: result.content }],
+    );
+    // The new render becomes the base for the next sync
+    const nextManifest = generateManifest(
+      { ...manifest.options, targetDir },
+      {
+        files: templateFiles,
+        versions: manifest.versions,
+        actionVersions: manifest.actionVersions,
+      },
+    );
+    await applyGeneratedFiles(targetDir, [...writes, nextManifest], 'force');
+  }
+
+  return {
+    fromVersion: manifest.initrepoVersion,
+    toVersion: packageJson.version,
+    files,
+  };
+}
+
+/**
+ * Files sync changes (or would change, with --check)
+ */
+export function getDrift(result: SyncResult): SyncFileResult[] {
+  return result.files.filter(
+    (file) => file.action !== 'unchanged' && file.action !== 'skipped',
+  );
+}
+
+function printSyncResult(result: SyncResult, check: boolean): void {
+  const drift = getDrift(result);
+  console.log(
+    `🔄 Templates: initrepo ${result.fromVersion} → ${result.toVersion}`,
+  );
+  for (const file of result.files) {
+    if (file.action !== 'unchanged') {
+      console.log(`   ${file.action.padEnd(11)} ${file.path}`);
+    }
+  }
+  if (check) {
+    for (const file of drift) {
+      if (file.diff) {
+        console.log(`\n${file.diff}`);
+      }
+    }
+  }
+
+  const conflicts = drift.filter((file) => file.action === 'conflict');
+  if (drift.length === 0) {
+    console.log('✅ Project is in sync with the templates');
+  } else if (check) {
+    console.log(
+      `\n❌ ${drift.length} file(s) out of sync with the templates. Run initrepo sync to update them.`,
+    );
+  } else if (conflicts.length > 0) {
+    console.log(
+      `\n⚠️  Resolve the conflict markers in ${conflicts.length} file(s), then commit:`,
+    );
+    for (const file of conflicts) {
+      console.log(`   - ${file.path}`);
+    }
+  } else {
+    console.log(`\n✅ Synced ${drift.length} file(s) with the templates`);
+  }
+}
+
+export function registerSyncCommand(program: Command): void {
+  program
+    .command('sync')
+    .description(
+      `Update a project's generated files to the current templates (recorded in ${MANIFEST_PATH})`,
+    )
+    .option(
+      '-t, --target-dir <path>',
+      'Target directory (defaults to current directory)',
+    )
+    .option(
+      '--templates <dir>',
+      'Template directory that shadows or adds templates',
+    )
+    .option(
+      '--check',
+      'Exit with an error if the project has drifted from the templates, without writing anything',
+    )
+    .action(
+      async (opts: {
+        targetDir?: string;
+        templates?: string;
+        check?: boolean;
+      }) => {
+        let result: SyncResult;
+        try {
+          const { config } = await loadConfig({
+            projectDir: opts.targetDir,
+          });
+          await loadTemplateLayers(
+            getTemplateLayers({
+              projectDir: opts.targetDir,
+              templatesDir: opts.templates ?? config.templates,
+            }),
+          );
+          result = await syncProject({
+            targetDir: opts.targetDir,
+            check: opts.check,
+          });
+        } catch (error) {
+          console.error(
+            `❌ Failed to sync project: ${error instanceof Error ? error.message : String(error)}`,
+          );
+          process.exit(1);
+        }
+
+        printSyncResult(result, opts.check ?? false);
+        const drift = getDrift(result);
+        if (
+          opts.check
+            ? drift.length > 0
+            : drift.some((file) => file.action === 'conflict')
+        ) {
+          process.exit(1);
+        }
+      },
+    );
+}
@@ -0,0 +1,14 @@
+import { describe, expect, test } from 'bun:test';
+import { Command } from 'commander';
+import { registerTemplatesCommand } from './templates';
+
+describe('templates command', () => {
+  test('should register templates command with --templates option', () => {
+    const program = new Command();
+    registerTemplatesCommand(program);
+
+    const cmd = program.commands.find((c) => c.name() === 'templates');
+    expect(cmd).toBeDefined();
+    expect(cmd?.options.map((o) => o.long)).toContain('--templates');
+  });
+});
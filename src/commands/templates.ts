@@ -0,0 +1,68 @@
+import * as fs from 'node:fs/promises';
+import type { Command } from 'commander';
+import {
+  getTemplateLayers,
+  listTemplates,
+  loadTemplateLayers,
+  type ResolvedTemplate,
+  type TemplateLayer,
+} from '../generators/templates';
+import { loadConfig } from '../utils/initrepo-config';
+
+async function describeLayer(layer: TemplateLayer): Promise<string> {
+  try {
+    await fs.access(layer.dir);
+    return layer.dir;
+  } catch {
+    return `${layer.dir} (not found)`;
+  }
+}
+
+/**
+ * Prints the template search path and the layer each template resolves to
+ */
+export async function printTemplates(
+  layers: TemplateLayer[],
+  templates: ResolvedTemplate[],
+): Promise<void> {
+  console.log('Template search path:');
+  for (const [index, layer] of layers.entries()) {
+    console.log(
+      `   ${index + 1}. ${layer.name.padEnd(12)} ${await describeLayer(layer)}`,
+    );
+  }
+  console.log(`   ${layers.length + 1}. ${'embedded'.padEnd(12)} (built in)`);
+
+  const width = Math.max(...templates.map((t) => t.layer.length));
+  console.log('\nTemplates:');
+  for (const template of templates) {
+    const location = template.filePath ? `  → ${template.filePath}` : '';
+    console.log(
+      `   ${template.layer.padEnd(width)}  ${template.key}${location}`,
+    );
+  }
+}
+
+export function registerTemplatesCommand(program: Command): void {
+  program
+    .command('templates')
+    .description(
+      'List available templates and the layer each one is loaded from',
+    )
+    .option('--templates <dir>', 'Additional template directory')
+    .action(async (opts: { templates?: string }) => {
+      try {
+        const { config } = await loadConfig();
+        const layers = getTemplateLayers({
+          templatesDir: opts.templates ?? config.templates,
+        });
+        await loadTemplateLayers(layers);
+        await printTemplates(layers, listTemplates());
+      } catch (error) {
+        console.error(
+          `❌ Failed to list templates: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        process.exit(1);
+      }
+    });
+}
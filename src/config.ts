@@ -1,3 +1,5 @@
+import type { ToolingOptions } from './types';
+
 /**
  * GitHub Actions configuration for generated workflows
  * Key: action name, Value: fallback version when API fetch fails
@@ -5,10 +7,39 @@
 export const GITHUB_ACTIONS = {
   'actions/checkout': 'v6',
   'actions/setup-node': 'v4',
+  'actions/cache': 'v4',
+  'pnpm/action-setup': 'v4',
   'Songmu/tagpr': 'v1',
   'oven-sh/setup-bun': 'v2',
   'github/codeql-action': 'v3',
+  'astral-sh/setup-uv': 'v7',
+  'actions/setup-go': 'v6',
+  'golangci/golangci-lint-action': 'v8',
+  'goreleaser/goreleaser-action': 'v6',
+  'actions-rust-lang/setup-rust-toolchain': 'v1',
+  'rust-lang/crates-io-auth-action': 'v1',
 } as const;
 
+export type GitHubAction = keyof typeof GITHUB_ACTIONS;
+
+/** Actions used by the workflows every project gets (tagpr.yml, codeql.yml) */
+export const COMMON_GITHUB_ACTIONS: GitHubAction[] = [
+  'actions/checkout',
+  'Songmu/tagpr',
+  'github/codeql-action',
+];
+
 /** Default fallback version for unknown actions */
 export const DEFAULT_ACTION_VERSION = 'v1';
+
+/** License used when neither --license nor a config file specifies one */
+export const DEFAULT_LICENSE = 'MIT';
+
+/** Developer tooling generated unless opted out */
+export const DEFAULT_TOOLING: ToolingOptions = {
+  husky: true,
+  commitlint: true,
+  biome: true,
+  lintStaged: false,
+  prePushTests: true,
+};
@@ -0,0 +1,88 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Language } from '../types';
+import { LANGUAGE_GENERATORS, type LanguageGenerator } from './languages';
+import { isWorkspaceRoot, listWorkspaceMembers } from './workspace';
+
+export interface DetectedProject {
+  lang: Language;
+  name: string;
+  isDevcode: boolean;
+  /** Manifest the project was detected from (e.g., package.json) */
+  file: string;
+  /** Devcode marker of that manifest (e.g., "private": true) */
+  marker: string;
+  /**
+   * Packages of a workspace root, each with its manifest under packages/.
+   * The root's "private": true only keeps the root itself unpublished, so a
+   * workspace root is never a devcode project.
+   */
+  members?: DetectedProject[];
+}
+
+async function readOptionalFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function readProject(
+  generator: LanguageGenerator,
+  targetDir: string,
+  file: string,
+): Promise<DetectedProject | null> {
+  const content = await readOptionalFile(path.join(targetDir, file));
+  if (content === null) {
+    return null;
+  }
+  const { marker, parse } = generator.devcode;
+  return { lang: generator.name, file, marker, ...parse(content) };
+}
+
+/**
+ * Manifests a project is detected from, in detection order
+ */
+export function getManifestFiles(): string[] {
+  return Object.values(LANGUAGE_GENERATORS).map(
+    (generator) => generator.devcode.file,
+  );
+}
+
+/**
+ * Finds the project manifest in LANGUAGE_GENERATORS order; the first one
+ * found decides the language. A workspace root is returned with its
+ * packages as members. Returns null if there is no manifest.
+ */
+export async function detectProject(
+  targetDir: string,
+): Promise<DetectedProject | null> {
+  for (const generator of Object.values(LANGUAGE_GENERATORS)) {
+    const { file } = generator.devcode;
+    const project = await readProject(generator, targetDir, file);
+    if (!project) {
+      continue;
+    }
+
+    if (generator.name === 'typescript' && (await isWorkspaceRoot(targetDir))) {
+      const members: DetectedProject[] = [];
+      for (const memberDir of await listWorkspaceMembers(targetDir)) {
+        const member = await readProject(
+          generator,
+          targetDir,
+          `${memberDir}/${file}`,
+        );
+        if (member) {
+          members.push(member);
+        }
+      }
+      return { ...project, isDevcode: false, members };
+    }
+    return project;
+  }
+  return null;
+}
@@ -0,0 +1,52 @@
+import type { ProjectKind } from '../types';
+import type { PackageManagerConfig } from './package-managers';
+
+export const SUPPORTED_KINDS: ProjectKind[] = ['library', 'cli', 'app'];
+
+export const DEFAULT_KIND: ProjectKind = 'library';
+
+export function validateKind(kind: string): ProjectKind {
+  if (!SUPPORTED_KINDS.includes(kind as ProjectKind)) {
+    throw new Error(
+      `Unsupported project kind: ${kind}. Supported: ${SUPPORTED_KINDS.join(', ')}`,
+    );
+  }
+  return kind as ProjectKind;
+}
+
+/**
+ * dev, build and (for apps) start scripts for the project kind
+ * Libraries also emit type declarations; apps built by bun target the bun runtime.
+ */
+export function getKindScripts(
+  kind: ProjectKind,
+  pm: PackageManagerConfig,
+): Record<string, string> {
+  if (pm.name !== 'bun') {
+    return {
+      dev: 'tsx src/index.ts',
+      build: 'tsc',
+      ...(kind === 'app' ? { start: 'node dist/index.js' } : {}),
+    };
+  }
+
+  const bundle = 'bun build src/index.ts --outdir dist';
+  switch (kind) {
+    case 'library':
+      return {
+        dev: 'bun run src/index.ts',
+        build: `${bundle} --target node --packages external && tsc --emitDeclarationOnly`,
+      };
+    case 'cli':
+      return {
+        dev: 'bun run src/index.ts',
+        build: `${bundle} --target node --packages external`,
+      };
+    case 'app':
+      return {
+        dev: 'bun run src/index.ts',
+        build: `${bundle} --target bun`,
+        start: 'bun dist/index.js',
+      };
+  }
+}
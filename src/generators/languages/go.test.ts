@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as githubUtils from '../../utils/github';
+import { generateProject, generateTagprConfig } from '../project';
+import { generateGoMain, generateGoMod } from './go';
+
+describe('go generator', () => {
+  const testDir = path.join(import.meta.dir, '../../../.test-output-go');
+  const originalToken = process.env.GITHUB_TOKEN;
+  let getLatestActionVersionsSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    getLatestActionVersionsSpy = spyOn(
+      githubUtils,
+      'getLatestActionVersions',
+    ).mockResolvedValue({ ...githubUtils.GITHUB_ACTIONS });
+  });
+
+  afterEach(async () => {
+    getLatestActionVersionsSpy.mockRestore();
+    await fs.rm(testDir, { recursive: true, force: true });
+    if (originalToken !== undefined) {
+      process.env.GITHUB_TOKEN = originalToken;
+    } else {
+      delete process.env.GITHUB_TOKEN;
+    }
+  });
+
+  test('should derive module path from the GitHub owner', async () => {
+    const result = await generateGoMod({
+      projectName: '@scope/my-service',
+      lang: 'go',
+      isDevcode: false,
+      owner: 'octo-org',
+    });
+
+    expect(result.path).toBe('go.mod');
+    expect(result.content).toContain('module github.com/octo-org/my-service');
+  });
+
+  test('should throw when the owner cannot be determined', async () => {
+    delete process.env.GITHUB_TOKEN;
+
+    expect(
+      generateGoMod({
+        projectName: 'my-service',
+        lang: 'go',
+        isDevcode: false,
+      }),
+    ).rejects.toThrow('GitHub owner is required');
+  });
+
+  test('should generate cmd/<name>/main.go', async () => {
+    const result = await generateGoMain({
+      projectName: 'my-service',
+      lang: 'go',
+      isDevcode: false,
+    });
+
+    expect(result.path).toBe('cmd/my-service/main.go');
+    expect(result.content).toContain('package main');
+  });
+
+  test('should configure tagpr without a version file', async () => {
+    const result = await generateTagprConfig({
+      projectName: 'my-service',
+      lang: 'go',
+      isDevcode: false,
+    });
+
+    expect(result.content).toContain('versionFile = -');
+  });
+
+  test('should only generate the goreleaser workflow for release-ready projects', async () => {
+    const devcodeDir = path.join(testDir, 'go-devcode');
+    const releaseDir = path.join(testDir, 'go-release');
+
+    await generateProject({
+      projectName: 'go-devcode',
+      lang: 'go',
+      isDevcode: true,
+      owner: 'octo-org',
+      targetDir: devcodeDir,
+    });
+    await generateProject({
+      projectName: 'go-release',
+      lang: 'go',
+      isDevcode: false,
+      owner: 'octo-org',
+      targetDir: releaseDir,
+    });
+
+    const devcodeFiles = await fs.readdir(devcodeDir, { recursive: true });
+    expect(devcodeFiles).toContain('go.mod');
+    expect(devcodeFiles).toContain('.goreleaser.yaml');
+    expect(devcodeFiles).toContain(path.join('cmd', 'go-devcode', 'main.go'));
+    expect(devcodeFiles).not.toContain('package.json');
+    expect(devcodeFiles).not.toContain(
+      path.join('.github', 'workflows', 'publish.yml'),
+    );
+
+    const publish = await fs.readFile(
+      path.join(releaseDir, '.github/workflows/publish.yml'),
+      'utf-8',
+    );
+    expect(publish).toContain('goreleaser/goreleaser-action@');
+  });
+});
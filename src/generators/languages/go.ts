@@ -0,0 +1,215 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { InitOptions } from '../../types';
+import { getGitHubLogin } from '../../utils/github-repo';
+import { stripScope } from '../../utils/project-name';
+import { isOffline } from '../../utils/version-cache';
+import { type GeneratedFile, loadTemplate } from '../templates';
+import type { LanguageGenerator } from './index';
+
+/** Go toolchain version written to the `go` directive of go.mod */
+const GO_VERSION = '1.24';
+
+/** Comment written to go.mod while the module path is a devcode */
+const DEVCODE_MARKER = '// initrepo:devcode';
+
+/** Valid last element of a Go module path */
+const GO_MODULE_NAME_REGEX = /^[a-zA-Z0-9][\w.-]*$/;
+
+export async function generateGoMod(
+  options: InitOptions,
+): Promise<GeneratedFile> {
+  const owner = options.owner ?? (await getGitHubLogin());
+  if (!owner) {
+    throw new Error(
+      isOffline()
+        ? 'Failed to generate go.mod: GitHub owner is required for the module path (pass --owner; --offline skips detecting it from GITHUB_TOKEN)'
+        : 'Failed to generate go.mod: GitHub owner is required for the module path (pass --owner or set GITHUB_TOKEN)',
+    );
+  }
+  const content = loadTemplate(`${options.lang}/go.mod.ejs`, {
+    modulePath: `github.com/${owner}/${stripScope(options.projectName)}`,
+    goVersion: GO_VERSION,
+    isDevcode: options.isDevcode,
+  });
+  return { path: 'go.mod', content };
+}
+
+export async function generateGoMain(
+  options: InitOptions,
+): Promise<GeneratedFile> {
+  const name = stripScope(options.projectName);
+  const content = loadTemplate(`${options.lang}/cmd/main.go.ejs`, { name });
+  return { path: `cmd/${name}/main.go`, content, scaffold: true };
+}
+
+export async function generateGoreleaserConfig(
+  options: InitOptions,
+): Promise<GeneratedFile> {
+  const content = loadTemplate(`${options.lang}/.goreleaser.yaml.ejs`, {
+    name: stripScope(options.projectName),
+  });
+  return { path: '.goreleaser.yaml', content };
+}
+
+export async function generateGoPublishWorkflow(
+  options: InitOptions,
+  actionVersions: Record<string, string>,
+): Promise<GeneratedFile> {
+  const content = loadTemplate(`${options.lang}/workflows/publish.yml.ejs`, {
+    actionVersions,
+  });
+  return { path: '.github/workflows/publish.yml', content };
+}
+
+function parseGoMod(content: string): { name: string; isDevcode: boolean } {
+  let name = '';
+  let isDevcode = false;
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith(DEVCODE_MARKER)) {
+      isDevcode = true;
+    }
+    const moduleMatch = trimmed.match(/^module\s+(\S+)/);
+    if (moduleMatch) {
+      name = moduleMatch[1].split('/').pop() ?? '';
+    }
+  }
+
+  return { name, isDevcode };
+}
+
+/**
+ * Updates go.mod: replaces the last module path element and removes the devcode marker
+ * This is a MANAGED replacement - only touches the module directive
+ */
+async function replaceInGoMod(
+  targetDir: string,
+  _devcode: string,
+  publishName: string,
+): Promise<void> {
+  const goModPath = path.join(targetDir, 'go.mod');
+  const content = await fs.readFile(goModPath, 'utf-8');
+
+  const lines: string[] = [];
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith(DEVCODE_MARKER)) {
+      continue;
+    }
+    const moduleMatch = trimmed.match(/^module\s+(\S+)/);
+    if (moduleMatch) {
+      const elements = moduleMatch[1].split('/');
+      elements[elements.length - 1] = publishName;
+      lines.push(`module ${elements.join('/')}`);
+      continue;
+    }
+    lines.push(line);
+  }
+
+  await fs.writeFile(goModPath, lines.join('\n'), 'utf-8');
+}
+
+/**
+ * Updates .goreleaser.yaml: replaces only the build "main" and "binary" fields
+ */
+async function replaceInGoreleaserConfig(
+  targetDir: string,
+  devcode: string,
+  publishName: string,
+): Promise<void> {
+  const configPath = path.join(targetDir, '.goreleaser.yaml');
+
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch (error) {
+    const fsError = error as NodeJS.ErrnoException;
+    if (fsError.code === 'ENOENT') {
+      return; // File doesn't exist, nothing to do
+    }
+    throw error;
+  }
+
+  const lines = content.split('\n').map((line) => {
+    const trimmed = line.trimStart().replace(/^- /, '');
+    if (trimmed.startsWith('main:') || trimmed.startsWith('binary:')) {
+      return line.replace(devcode, publishName);
+    }
+    return line;
+  });
+
+  await fs.writeFile(configPath, lines.join('\n'), 'utf-8');
+}
+
+/**
+ * Renames cmd/<devcode> to cmd/<publishName>
+ */
+async function renameCommandDir(
+  targetDir: string,
+  devcode: string,
+  publishName: string,
+): Promise<void> {
+  const from = path.join(targetDir, 'cmd', devcode);
+  try {
+    await fs.access(from);
+  } catch {
+    return; // Directory doesn't exist, nothing to do
+  }
+  await fs.rename(from, path.join(targetDir, 'cmd', publishName));
+}
+
+function validateGoModuleName(publishName: string): void {
+  if (!GO_MODULE_NAME_REGEX.test(publishName)) {
+    throw new Error(
+      `"${publishName}" is not a valid Go module name. Use only letters, numbers, dots, hyphens and underscores.`,
+    );
+  }
+}
+
+export const goGenerator: LanguageGenerator = {
+  name: 'go',
+  dependabotEcosystem: 'gomod',
+  actions: () => [
+    'actions/setup-go',
+    'golangci/golangci-lint-action',
+    'goreleaser/goreleaser-action',
+  ],
+  // A fresh module has no dependencies to resolve
+  resolveVersions: async () => ({}),
+  getFiles: (options, { actionVersions }) => [
+    generateGoMod(options),
+    generateGoMain(options),
+    generateGoreleaserConfig(options),
+    // Releases stay disabled while the module path is a devcode
+    ...(options.isDevcode
+      ? []
+      : [generateGoPublishWorkflow(options, actionVersions)]),
+  ],
+  // go.sum is only written once the module has dependencies
+  install: () => ({ command: 'go', args: ['mod', 'tidy'] }),
+  devcode: {
+    file: 'go.mod',
+    description: 'module path',
+    marker: `"${DEVCODE_MARKER}" comment`,
+    parse: parseGoMod,
+    replace: replaceInGoMod,
+  },
+  managedLocations: [
+    {
+      file: '.goreleaser.yaml',
+      description: 'main and binary fields',
+      replace: replaceInGoreleaserConfig,
+    },
+    {
+      file: 'cmd',
+      description: 'command directory name',
+      replace: renameCommandDir,
+    },
+  ],
+  publish: {
+    target: 'GoReleaser binaries',
+    validateName: validateGoModuleName,
+  },
+};
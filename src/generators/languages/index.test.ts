@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'bun:test';
+import { COMMON_GITHUB_ACTIONS, type GitHubAction } from '../../config';
+import { EMBEDDED_TEMPLATES } from '../embedded-templates';
+import {
+  getPackageManager,
+  SUPPORTED_PACKAGE_MANAGERS,
+} from '../package-managers';
+import { generateCiWorkflow } from '../project';
+import { loadTemplate } from '../templates';
+import {
+  getLanguageActions,
+  getLanguageGenerator,
+  LANGUAGE_GENERATORS,
+  SUPPORTED_LANGUAGES,
+} from './index';
+
+describe('language registry', () => {
+  test('should derive supported languages from registered generators', () => {
+    expect(SUPPORTED_LANGUAGES).toEqual(['typescript', 'python', 'go', 'rust']);
+  });
+
+  test('should register each generator under its own name', () => {
+    for (const [lang, generator] of Object.entries(LANGUAGE_GENERATORS)) {
+      expect(generator.name).toBe(lang as typeof generator.name);
+    }
+  });
+
+  test('should use a distinct manifest per language for devcode detection', () => {
+    const manifests = SUPPORTED_LANGUAGES.map(
+      (lang) => getLanguageGenerator(lang).devcode.file,
+    );
+    expect(new Set(manifests).size).toBe(manifests.length);
+  });
+
+  test('should declare every action its workflow templates use', () => {
+    // TypeScript's actions depend on the package manager (see below)
+    for (const lang of SUPPORTED_LANGUAGES.filter(
+      (lang) => lang !== 'typescript',
+    )) {
+      const used = Object.entries(EMBEDDED_TEMPLATES)
+        .filter(
+          ([file]) => file.startsWith(`${lang}/`) || file.startsWith('common/'),
+        )
+        .flatMap(([, content]) =>
+          [...content.matchAll(/actionVersions\['([^']+)'\]/g)].map(
+            (match) => match[1],
+          ),
+        );
+      expect(getLanguageActions({ lang })).toEqual(
+        expect.arrayContaining([...new Set(used)]),
+      );
+    }
+  });
+
+  test('should fetch exactly the actions the package manager workflows use', async () => {
+    for (const packageManager of SUPPORTED_PACKAGE_MANAGERS) {
+      const used = new Set<GitHubAction>();
+      const actionVersions = new Proxy({} as Record<string, string>, {
+        get: (_target, action) => {
+          used.add(action as GitHubAction);
+          return 'v1';
+        },
+      });
+
+      await generateCiWorkflow(
+        {
+          projectName: 'app',
+          lang: 'typescript',
+          isDevcode: false,
+          packageManager,
+        },
+        actionVersions,
+      );
+      loadTemplate('typescript/workflows/publish.yml.ejs', {
+        actionVersions,
+        pm: getPackageManager(packageManager),
+        packageManagerField: null,
+        registry: 'npm',
+        registryUrl: 'https://registry.npmjs.org',
+        npmScope: undefined,
+        publishName: 'app',
+        packageDir: null,
+      });
+
+      const languageActions = [...used].filter(
+        (action) => !COMMON_GITHUB_ACTIONS.includes(action),
+      );
+      expect(
+        getLanguageGenerator('typescript').actions({ packageManager }).sort(),
+      ).toEqual(languageActions.sort());
+    }
+  });
+
+  test("should not fetch other languages' actions", () => {
+    expect(getLanguageActions({ lang: 'go' })).not.toContain(
+      'actions/setup-node',
+    );
+    expect(
+      getLanguageActions({ lang: 'typescript', packageManager: 'npm' }),
+    ).toEqual([
+      'actions/checkout',
+      'Songmu/tagpr',
+      'github/codeql-action',
+      'actions/setup-node',
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { COMMON_GITHUB_ACTIONS, type GitHubAction } from '../../config';
+import type { InitOptions, Language } from '../../types';
+import type { GeneratedFile } from '../templates';
+import { goGenerator } from './go';
+import { pythonGenerator } from './python';
+import { rustGenerator } from './rust';
+import { typescriptGenerator } from './typescript';
+
+/**
+ * Values resolved once per generation and shared by all file generators
+ */
+export interface GenerationContext {
+  /** Latest dependency versions returned by the language's resolver */
+  versions: Record<string, string>;
+  /** Latest GitHub Actions versions */
+  actionVersions: Record<string, string>;
+}
+
+/**
+ * A location where prepare-release replaces the devcode automatically
+ */
+export interface ManagedLocation {
+  file: string;
+  description: string;
+  replace: (
+    targetDir: string,
+    devcode: string,
+    publishName: string,
+  ) => Promise<void>;
+}
+
+/**
+ * Project manifest that carries the package name and the devcode marker
+ */
+export interface DevcodeManifest extends ManagedLocation {
+  /** Human-readable devcode marker (e.g., "private": true) */
+  marker: string;
+  /** Returns the package name and whether the devcode marker is present */
+  parse: (content: string) => { name: string; isDevcode: boolean };
+}
+
+/**
+ * Command that installs dependencies and writes the lockfile
+ */
+export interface InstallCommand {
+  command: string;
+  args: string[];
+  /** Lockfile the command produces, if the project needs one */
+  lockfile?: string;
+}
+
+export interface LanguageGenerator {
+  name: Language;
+  /** Dependabot package-ecosystem for the language's manifest */
+  dependabotEcosystem: string;
+  /** Actions the language's workflows use besides COMMON_GITHUB_ACTIONS */
+  actions: (options: Pick<InitOptions, 'packageManager'>) => GitHubAction[];
+  /** Resolves the latest versions of the dependencies written to the manifest */
+  resolveVersions: (options: InitOptions) => Promise<Record<string, string>>;
+  /** Files that only exist for this language (manifest, entry point, etc.) */
+  getFiles: (
+    options: InitOptions,
+    context: GenerationContext,
+  ) => Promise<GeneratedFile>[];
+  /** Detects the author when none is given (e.g., npm whoami) */
+  detectAuthor?: () => Promise<string | null>;
+  /** Installs dependencies in the generated project */
+  install: (options: InitOptions) => InstallCommand;
+  devcode: DevcodeManifest;
+  /** Locations replaced by prepare-release in addition to the manifest */
+  managedLocations: ManagedLocation[];
+  publish: {
+    /** Publishing target shown by prepare-release */
+    target: string;
+    /** Throws if the name cannot be published to the target registry */
+    validateName?: (publishName: string) => void;
+    /** Extra data for the publish workflow template, read from the project */
+    templateData?: (
+      targetDir: string,
+      publishName: string,
+    ) => Promise<Record<string, unknown>>;
+  };
+}
+
+/**
+ * Registered languages. Manifests are checked for the devcode marker in this order.
+ */
+export const LANGUAGE_GENERATORS: Record<Language, LanguageGenerator> = {
+  typescript: typescriptGenerator,
+  python: pythonGenerator,
+  go: goGenerator,
+  rust: rustGenerator,
+};
+
+export const SUPPORTED_LANGUAGES = Object.keys(
+  LANGUAGE_GENERATORS,
+) as Language[];
+
+export function getLanguageGenerator(lang: Language): LanguageGenerator {
+  return LANGUAGE_GENERATORS[lang];
+}
+
+/**
+ * Actions whose versions a project needs, for its language and (TypeScript)
+ * package manager
+ */
+export function getLanguageActions(
+  options: Pick<InitOptions, 'lang' | 'packageManager'>,
+): GitHubAction[] {
+  return [
+    ...COMMON_GITHUB_ACTIONS,
+    ...getLanguageGenerator(options.lang).actions(options),
+  ];
+}
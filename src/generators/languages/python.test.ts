@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as githubUtils from '../../utils/github';
+import * as pypiUtils from '../../utils/pypi';
+import {
+  generateDependabot,
+  generateProject,
+  generateTagprConfig,
+} from '../project';
+import {
+  formatPythonRequirement,
+  generatePyproject,
+  generatePythonPackage,
+  toPythonPackageName,
+} from './python';
+
+const PYPI_VERSIONS = { pytest: '8.0.0', ruff: 'latest' };
+
+describe('python generator', () => {
+  const testDir = path.join(import.meta.dir, '../../../.test-output-python');
+
+  let getLatestPypiVersionsSpy: ReturnType<typeof spyOn>;
+  let getLatestActionVersionsSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    getLatestPypiVersionsSpy = spyOn(
+      pypiUtils,
+      'getLatestPypiVersions',
+    ).mockResolvedValue(PYPI_VERSIONS);
+    getLatestActionVersionsSpy = spyOn(
+      githubUtils,
+      'getLatestActionVersions',
+    ).mockResolvedValue({ ...githubUtils.GITHUB_ACTIONS });
+  });
+
+  afterEach(async () => {
+    getLatestPypiVersionsSpy.mockRestore();
+    getLatestActionVersionsSpy.mockRestore();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('toPythonPackageName should produce an importable name', () => {
+    expect(toPythonPackageName('my-project')).toBe('my_project');
+    expect(toPythonPackageName('@scope/My.Project')).toBe('my_project');
+  });
+
+  test('should generate pyproject.toml with PyPI versions', async () => {
+    const result = await generatePyproject(
+      {
+        projectName: 'my-project',
+        lang: 'python',
+        isDevcode: false,
+      },
+      PYPI_VERSIONS,
+    );
+
+    expect(result.path).toBe('pyproject.toml');
+    expect(result.content).toContain('name = "my-project"');
+    expect(result.content).toContain('"pytest>=8.0.0"');
+    expect(result.content).toContain('"ruff",');
+    expect(result.content).not.toContain('Private :: Do Not Upload');
+  });
+
+  test('formatPythonRequirement should translate range styles', () => {
+    expect(formatPythonRequirement('ruff', '0.8.1', 'caret')).toBe(
+      'ruff>=0.8.1,<0.9',
+    );
+    expect(formatPythonRequirement('pytest', '8.0.0', 'caret')).toBe(
+      'pytest>=8.0.0,<9',
+    );
+    expect(formatPythonRequirement('pytest', '8.0.0', 'tilde')).toBe(
+      'pytest~=8.0.0',
+    );
+    expect(formatPythonRequirement('pytest', '8.0.0', 'exact')).toBe(
+      'pytest==8.0.0',
+    );
+    expect(formatPythonRequirement('ruff', 'latest', 'exact')).toBe('ruff');
+  });
+
+  test('should mark devcode pyproject.toml as private', async () => {
+    const result = await generatePyproject(
+      {
+        projectName: 'my-devcode',
+        lang: 'python',
+        isDevcode: true,
+      },
+      PYPI_VERSIONS,
+    );
+
+    expect(result.content).toContain('"Private :: Do Not Upload"');
+  });
+
+  test('should generate package entry point under src/', async () => {
+    const result = await generatePythonPackage({
+      projectName: 'my-project',
+      lang: 'python',
+      isDevcode: false,
+    });
+
+    expect(result.path).toBe('src/my_project/__init__.py');
+    expect(result.content).toContain('Hello from my-project!');
+  });
+
+  test('should point tagpr at pyproject.toml', async () => {
+    const result = await generateTagprConfig({
+      projectName: 'my-project',
+      lang: 'python',
+      isDevcode: false,
+    });
+
+    expect(result.content).toContain('versionFile = "pyproject.toml"');
+  });
+
+  test('should add uv to dependabot', async () => {
+    const result = await generateDependabot({
+      projectName: 'my-project',
+      lang: 'python',
+      isDevcode: false,
+    });
+
+    expect(result.content).toContain('package-ecosystem: "uv"');
+    expect(result.content).not.toContain('package-ecosystem: "npm"');
+  });
+
+  test('should generate all expected python files', async () => {
+    const projectDir = path.join(testDir, 'py-project');
+
+    await generateProject({
+      projectName: 'py-project',
+      lang: 'python',
+      isDevcode: true,
+      targetDir: projectDir,
+    });
+
+    const files = await fs.readdir(projectDir, { recursive: true });
+    expect(files).toContain('pyproject.toml');
+    expect(files).toContain(path.join('src', 'py_project', '__init__.py'));
+    expect(files).toContain(path.join('tests', 'test_py_project.py'));
+    expect(files).not.toContain('package.json');
+
+    const codeql = await fs.readFile(
+      path.join(projectDir, '.github/workflows/codeql.yml'),
+      'utf-8',
+    );
+    expect(codeql).toContain('languages: python');
+  });
+});
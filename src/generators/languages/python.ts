@@ -0,0 +1,204 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { InitOptions, RangeStyle } from '../../types';
+import { stripScope } from '../../utils/project-name';
+import { getLatestPypiVersions } from '../../utils/pypi';
+import { getRangeStyle } from '../../utils/version-policy';
+import { getLicense } from '../licenses';
+import { type GeneratedFile, loadTemplate } from '../templates';
+import type { LanguageGenerator } from './index';
+
+const DEV_DEPENDENCIES = ['pytest', 'ruff'];
+
+/** Classifier that makes PyPI reject uploads */
+const PRIVATE_CLASSIFIER = 'Private :: Do Not Upload';
+
+/** Valid PyPI project name (PEP 508) */
+const PYPI_NAME_REGEX = /^([A-Z0-9]|[A-Z0-9][A-Z0-9._-]*[A-Z0-9])$/i;
+
+/**
+ * Converts a project name into an importable Python package name
+ * (e.g., "@scope/my-project" -> "my_project")
+ */
+export function toPythonPackageName(projectName: string): string {
+  return stripScope(projectName).replace(/[-.]/g, '_').toLowerCase();
+}
+
+/**
+ * Formats a PEP 508 requirement, leaving it unpinned when the latest
+ * version could not be resolved
+ * Without a range style the requirement is a lower bound (>=). Caret allows
+ * the same major (or minor for 0.x) and tilde uses the compatible release
+ * operator (~=).
+ */
+export function formatPythonRequirement(
+  name: string,
+  version: string,
+  style?: RangeStyle,
+): string {
+  if (version === 'latest') {
+    return name;
+  }
+  switch (style) {
+    case undefined:
+      return `${name}>=${version}`;
+    case 'caret': {
+      const [major, minor = 0] = version.split('.').map(Number);
+      const upper = major > 0 ? `${major + 1}` : `0.${minor + 1}`;
+      return `${name}>=${version},<${upper}`;
+    }
+    case 'tilde':
+      return `${name}~=${version}`;
+    case 'exact':
+      return `${name}==${version}`;
+  }
+}
+
+export async function generatePyproject(
+  options: InitOptions,
+  versions: Record<string, string>,
+): Promise<GeneratedFile> {
+  try {
+    const content = loadTemplate(`${options.lang}/pyproject.toml.ejs`, {
+      name: stripScope(options.projectName),
+      packageName: toPythonPackageName(options.projectName),
+      isDevcode: options.isDevcode,
+      author: options.author ?? '',
+      license: getLicense(options.license).id,
+      devDependencies: DEV_DEPENDENCIES.map((name) =>
+        formatPythonRequirement(
+          name,
+          versions[name],
+          getRangeStyle(options.versionPolicy, name),
+        ),
+      ),
+    });
+    return { path: 'pyproject.toml', content };
+  } catch (error) {
+    throw new Error(
+      `Failed to generate pyproject.toml: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export async function generatePythonPackage(
+  options: InitOptions,
+): Promise<GeneratedFile> {
+  const packageName = toPythonPackageName(options.projectName);
+  const content = loadTemplate(`${options.lang}/src/__init__.py.ejs`, {
+    name: options.projectName,
+  });
+  return { path: `src/${packageName}/__init__.py`, content, scaffold: true };
+}
+
+export async function generatePythonTest(
+  options: InitOptions,
+): Promise<GeneratedFile> {
+  const packageName = toPythonPackageName(options.projectName);
+  const content = loadTemplate(`${options.lang}/tests/test_package.py.ejs`, {
+    name: options.projectName,
+    packageName,
+  });
+  return { path: `tests/test_${packageName}.py`, content, scaffold: true };
+}
+
+/**
+ * Line-based parsing of the [project] table in pyproject.toml
+ * (avoids pulling in a TOML parser for two keys)
+ */
+function parsePyproject(content: string): { name: string; isDevcode: boolean } {
+  let name = '';
+  let isDevcode = false;
+  let inProject = false;
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('[')) {
+      inProject = trimmed === '[project]';
+      continue;
+    }
+    if (!inProject) {
+      continue;
+    }
+    const nameMatch = trimmed.match(/^name\s*=\s*"([^"]*)"/);
+    if (nameMatch) {
+      name = nameMatch[1];
+    } else if (trimmed.includes(`"${PRIVATE_CLASSIFIER}"`)) {
+      isDevcode = true;
+    }
+  }
+
+  return { name, isDevcode };
+}
+
+/**
+ * Updates pyproject.toml: replaces name and removes the private classifier
+ * This is a MANAGED replacement - only touches the [project] table
+ */
+async function replaceInPyproject(
+  targetDir: string,
+  _devcode: string,
+  publishName: string,
+): Promise<void> {
+  const pyprojectPath = path.join(targetDir, 'pyproject.toml');
+  const content = await fs.readFile(pyprojectPath, 'utf-8');
+
+  const lines: string[] = [];
+  let inProject = false;
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('[')) {
+      inProject = trimmed === '[project]';
+    } else if (inProject && /^name\s*=/.test(trimmed)) {
+      lines.push(`name = "${publishName}"`);
+      continue;
+    } else if (inProject && trimmed.includes(`"${PRIVATE_CLASSIFIER}"`)) {
+      continue;
+    } else if (
+      inProject &&
+      trimmed === ']' &&
+      /^classifiers\s*=\s*\[$/.test(lines[lines.length - 1]?.trim() ?? '')
+    ) {
+      // Drop the classifiers list if the private classifier was its only entry
+      lines.pop();
+      continue;
+    }
+    lines.push(line);
+  }
+
+  await fs.writeFile(pyprojectPath, lines.join('\n'), 'utf-8');
+}
+
+function validatePypiName(publishName: string): void {
+  if (!PYPI_NAME_REGEX.test(publishName)) {
+    throw new Error(
+      `"${publishName}" is not a valid PyPI project name. Use only letters, numbers, dots, hyphens and underscores.`,
+    );
+  }
+}
+
+export const pythonGenerator: LanguageGenerator = {
+  name: 'python',
+  dependabotEcosystem: 'uv',
+  actions: () => ['astral-sh/setup-uv'],
+  resolveVersions: (options) =>
+    getLatestPypiVersions(DEV_DEPENDENCIES, options.versionPolicy),
+  getFiles: (options, { versions }) => [
+    generatePyproject(options, versions),
+    generatePythonPackage(options),
+    generatePythonTest(options),
+  ],
+  install: () => ({ command: 'uv', args: ['sync'], lockfile: 'uv.lock' }),
+  devcode: {
+    file: 'pyproject.toml',
+    description: 'name field',
+    marker: `"${PRIVATE_CLASSIFIER}" classifier`,
+    parse: parsePyproject,
+    replace: replaceInPyproject,
+  },
+  managedLocations: [],
+  publish: {
+    target: 'PyPI trusted publishing',
+    validateName: validatePypiName,
+  },
+};
@@ -0,0 +1,124 @@
+import { describe, expect, test } from 'bun:test';
+import { generateDependabot, generateTagprConfig } from '../project';
+import {
+  formatCrateRequirement,
+  generateCargoToml,
+  generateRustLib,
+  toCrateName,
+} from './rust';
+
+const CRATE_VERSIONS = { thiserror: '2.0.11' };
+
+describe('rust generator', () => {
+  test('toCrateName should produce a valid crate name', () => {
+    expect(toCrateName('@scope/my.crate')).toBe('my-crate');
+  });
+
+  test('should generate Cargo.toml with crates.io versions', async () => {
+    const result = await generateCargoToml(
+      {
+        projectName: 'my-crate',
+        lang: 'rust',
+        isDevcode: false,
+      },
+      CRATE_VERSIONS,
+    );
+
+    expect(result.path).toBe('Cargo.toml');
+    expect(result.content).toContain('name = "my-crate"');
+    expect(result.content).toContain('thiserror = "2.0.11"');
+    expect(result.content).not.toContain('publish = false');
+  });
+
+  test('formatCrateRequirement should translate range styles', () => {
+    expect(formatCrateRequirement('2.0.11')).toBe('2.0.11');
+    expect(formatCrateRequirement('2.0.11', 'tilde')).toBe('~2.0.11');
+    expect(formatCrateRequirement('2.0.11', 'exact')).toBe('=2.0.11');
+    expect(formatCrateRequirement('latest', 'exact')).toBe('*');
+  });
+
+  test('should mark devcode Cargo.toml with publish = false', async () => {
+    const result = await generateCargoToml(
+      {
+        projectName: 'my-devcode',
+        lang: 'rust',
+        isDevcode: true,
+      },
+      CRATE_VERSIONS,
+    );
+
+    expect(result.content).toContain('publish = false');
+  });
+
+  test('should use the configured license', async () => {
+    const defaulted = await generateCargoToml(
+      { projectName: 'my-crate', lang: 'rust', isDevcode: false },
+      CRATE_VERSIONS,
+    );
+    const configured = await generateCargoToml(
+      {
+        projectName: 'my-crate',
+        lang: 'rust',
+        isDevcode: false,
+        license: 'Apache-2.0',
+      },
+      CRATE_VERSIONS,
+    );
+
+    expect(defaulted.content).toContain('license = "MIT"');
+    expect(configured.content).toContain('license = "Apache-2.0"');
+  });
+
+  test('should point proprietary crates at the LICENSE file', async () => {
+    const result = await generateCargoToml(
+      {
+        projectName: 'my-crate',
+        lang: 'rust',
+        isDevcode: false,
+        license: 'UNLICENSED',
+      },
+      CRATE_VERSIONS,
+    );
+
+    expect(result.content).toContain('license-file = "LICENSE"');
+    expect(result.content).not.toContain('license = ');
+  });
+
+  test('should fall back to a wildcard requirement', async () => {
+    const result = await generateCargoToml(
+      {
+        projectName: 'my-crate',
+        lang: 'rust',
+        isDevcode: false,
+      },
+      { thiserror: 'latest' },
+    );
+
+    expect(result.content).toContain('thiserror = "*"');
+  });
+
+  test('should generate src/lib.rs', async () => {
+    const result = await generateRustLib({
+      projectName: 'my-crate',
+      lang: 'rust',
+      isDevcode: false,
+    });
+
+    expect(result.path).toBe('src/lib.rs');
+    expect(result.content).toContain('pub fn greet');
+  });
+
+  test('should point tagpr at Cargo.toml and add cargo to dependabot', async () => {
+    const options = {
+      projectName: 'my-crate',
+      lang: 'rust' as const,
+      isDevcode: false,
+    };
+
+    const tagpr = await generateTagprConfig(options);
+    const dependabot = await generateDependabot(options);
+
+    expect(tagpr.content).toContain('versionFile = "Cargo.toml"');
+    expect(dependabot.content).toContain('package-ecosystem: "cargo"');
+  });
+});
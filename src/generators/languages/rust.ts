@@ -0,0 +1,180 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { InitOptions, RangeStyle } from '../../types';
+import { getLatestCrateVersions } from '../../utils/crates';
+import { stripScope } from '../../utils/project-name';
+import { getRangeStyle } from '../../utils/version-policy';
+import { getLicense } from '../licenses';
+import { type GeneratedFile, loadTemplate } from '../templates';
+import type { LanguageGenerator } from './index';
+
+const DEPENDENCIES = ['thiserror'];
+
+/** Valid crates.io package name */
+const CRATE_NAME_REGEX = /^[a-zA-Z][a-zA-Z0-9_-]*$/;
+
+/**
+ * Converts a project name into a valid crate name
+ * (e.g., "@scope/my.project" -> "my-project")
+ */
+export function toCrateName(projectName: string): string {
+  return stripScope(projectName).replace(/\./g, '-');
+}
+
+/**
+ * Formats a Cargo version requirement, falling back to a wildcard when the
+ * latest version could not be resolved
+ * A bare version is already a caret requirement in Cargo.
+ */
+export function formatCrateRequirement(
+  version: string,
+  style: RangeStyle = 'caret',
+): string {
+  if (version === 'latest') {
+    return '*';
+  }
+  switch (style) {
+    case 'caret':
+      return version;
+    case 'tilde':
+      return `~${version}`;
+    case 'exact':
+      return `=${version}`;
+  }
+}
+
+export async function generateCargoToml(
+  options: InitOptions,
+  versions: Record<string, string>,
+): Promise<GeneratedFile> {
+  try {
+    const content = loadTemplate(`${options.lang}/Cargo.toml.ejs`, {
+      name: toCrateName(options.projectName),
+      isDevcode: options.isDevcode,
+      author: options.author ?? '',
+      license: getLicense(options.license).id,
+      dependencies: Object.fromEntries(
+        DEPENDENCIES.map((name) => [
+          name,
+          formatCrateRequirement(
+            versions[name],
+            getRangeStyle(options.versionPolicy, name),
+          ),
+        ]),
+      ),
+    });
+    return { path: 'Cargo.toml', content };
+  } catch (error) {
+    throw new Error(
+      `Failed to generate Cargo.toml: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export async function generateRustLib(
+  options: InitOptions,
+): Promise<GeneratedFile> {
+  const content = loadTemplate(`${options.lang}/src/lib.rs.ejs`, {
+    name: toCrateName(options.projectName),
+  });
+  return { path: 'src/lib.rs', content, scaffold: true };
+}
+
+/**
+ * Line-based parsing of the [package] table in Cargo.toml
+ * (avoids pulling in a TOML parser for two keys)
+ */
+function parseCargoToml(content: string): { name: string; isDevcode: boolean } {
+  let name = '';
+  let isDevcode = false;
+  let inPackage = false;
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('[')) {
+      inPackage = trimmed === '[package]';
+      continue;
+    }
+    if (!inPackage) {
+      continue;
+    }
+    const nameMatch = trimmed.match(/^name\s*=\s*"([^"]*)"/);
+    if (nameMatch) {
+      name = nameMatch[1];
+    } else if (/^publish\s*=\s*false\b/.test(trimmed)) {
+      isDevcode = true;
+    }
+  }
+
+  return { name, isDevcode };
+}
+
+/**
+ * Updates Cargo.toml: replaces name and removes "publish = false"
+ * This is a MANAGED replacement - only touches the [package] table
+ */
+async function replaceInCargoToml(
+  targetDir: string,
+  _devcode: string,
+  publishName: string,
+): Promise<void> {
+  const cargoTomlPath = path.join(targetDir, 'Cargo.toml');
+  const content = await fs.readFile(cargoTomlPath, 'utf-8');
+
+  const lines: string[] = [];
+  let inPackage = false;
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('[')) {
+      inPackage = trimmed === '[package]';
+    } else if (inPackage && /^name\s*=/.test(trimmed)) {
+      lines.push(`name = "${publishName}"`);
+      continue;
+    } else if (inPackage && /^publish\s*=\s*false\b/.test(trimmed)) {
+      continue;
+    }
+    lines.push(line);
+  }
+
+  await fs.writeFile(cargoTomlPath, lines.join('\n'), 'utf-8');
+}
+
+function validateCrateName(publishName: string): void {
+  if (!CRATE_NAME_REGEX.test(publishName)) {
+    throw new Error(
+      `"${publishName}" is not a valid crate name. Use only letters, numbers, hyphens and underscores.`,
+    );
+  }
+}
+
+export const rustGenerator: LanguageGenerator = {
+  name: 'rust',
+  dependabotEcosystem: 'cargo',
+  actions: () => [
+    'actions-rust-lang/setup-rust-toolchain',
+    'rust-lang/crates-io-auth-action',
+  ],
+  resolveVersions: (options) =>
+    getLatestCrateVersions(DEPENDENCIES, options.versionPolicy),
+  getFiles: (options, { versions }) => [
+    generateCargoToml(options, versions),
+    generateRustLib(options),
+  ],
+  install: () => ({
+    command: 'cargo',
+    args: ['generate-lockfile'],
+    lockfile: 'Cargo.lock',
+  }),
+  devcode: {
+    file: 'Cargo.toml',
+    description: 'name field',
+    marker: '"publish = false"',
+    parse: parseCargoToml,
+    replace: replaceInCargoToml,
+  },
+  managedLocations: [],
+  publish: {
+    target: 'crates.io trusted publishing',
+    validateName: validateCrateName,
+  },
+};
@@ -0,0 +1,363 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import YAML from 'yaml';
+import type { PackageManager, ProjectKind, ToolingOptions } from '../../types';
+import * as npmUtils from '../../utils/npm';
+import { generateCiWorkflow } from '../project';
+import {
+  generateEntryPoint,
+  generateHuskyHook,
+  generatePackageJson,
+  generateTsconfig,
+  getDependencies,
+  typescriptGenerator,
+} from './typescript';
+
+const VERSIONS = {
+  '@biomejs/biome': '1.0.0',
+  '@commitlint/cli': '1.0.0',
+  '@commitlint/config-conventional': '1.0.0',
+  'bun-types': '1.0.0',
+  husky: '1.0.0',
+  'lint-staged': '1.0.0',
+  typescript: '1.0.0',
+};
+
+const CONTEXT = { versions: VERSIONS, actionVersions: {} };
+
+describe('typescript generator', () => {
+  describe('generatePackageJson', () => {
+    let getNpmUsernameSpy: ReturnType<typeof spyOn>;
+
+    beforeEach(() => {
+      getNpmUsernameSpy = spyOn(npmUtils, 'getNpmUsername').mockResolvedValue(
+        'mocked-user',
+      );
+    });
+
+    afterEach(() => {
+      getNpmUsernameSpy.mockRestore();
+    });
+
+    test('should generate package.json with project name', async () => {
+      const result = await generatePackageJson(
+        {
+          projectName: 'my-awesome-project',
+          lang: 'typescript',
+          isDevcode: false,
+        },
+        VERSIONS,
+      );
+
+      expect(result.path).toBe('package.json');
+      expect(result.content).toContain('"name": "my-awesome-project"');
+    });
+
+    test('should include standard scripts', async () => {
+      const result = await generatePackageJson(
+        {
+          projectName: 'test-project',
+          lang: 'typescript',
+          isDevcode: false,
+        },
+        VERSIONS,
+      );
+
+      expect(result.content).toContain('"dev"');
+      expect(result.content).toContain('"build"');
+      expect(result.content).toContain('"test"');
+      expect(result.content).toContain('"check"');
+    });
+
+    test('should include mocked author', async () => {
+      const result = await generatePackageJson(
+        {
+          projectName: 'test-project',
+          lang: 'typescript',
+          isDevcode: false,
+        },
+        VERSIONS,
+      );
+
+      expect(result.content).toContain('"author": "mocked-user"');
+    });
+
+    test('should drop scripts and dependencies of disabled tools', async () => {
+      const result = await generatePackageJson(
+        {
+          projectName: 'test-project',
+          lang: 'typescript',
+          isDevcode: false,
+          tooling: { husky: false, biome: false },
+        },
+        VERSIONS,
+      );
+
+      const pkg = JSON.parse(result.content);
+      expect(pkg.scripts.check).toBeUndefined();
+      expect(pkg.scripts.prepare).toBeUndefined();
+      expect(Object.keys(pkg.devDependencies)).toEqual([
+        '@commitlint/cli',
+        '@commitlint/config-conventional',
+        'bun-types',
+        'typescript',
+      ]);
+    });
+
+    test('should configure lint-staged when enabled', async () => {
+      const result = await generatePackageJson(
+        {
+          projectName: 'test-project',
+          lang: 'typescript',
+          isDevcode: false,
+          tooling: { lintStaged: true },
+        },
+        VERSIONS,
+      );
+
+      const pkg = JSON.parse(result.content);
+      expect(pkg.devDependencies['lint-staged']).toBe('^1.0.0');
+      expect(pkg['lint-staged']).toBeDefined();
+    });
+
+    test('should apply the range style and write pins exactly', async () => {
+      const result = await generatePackageJson(
+        {
+          projectName: 'test-project',
+          lang: 'typescript',
+          isDevcode: false,
+          versionPolicy: {
+            rangeStyle: 'tilde',
+            pins: { typescript: '1.0.0' },
+          },
+        },
+        VERSIONS,
+      );
+
+      const pkg = JSON.parse(result.content);
+      expect(pkg.devDependencies.husky).toBe('~1.0.0');
+      expect(pkg.devDependencies.typescript).toBe('1.0.0');
+    });
+  });
+
+  describe('package managers', () => {
+    const pnpmOptions = {
+      projectName: 'test-project',
+      lang: 'typescript' as const,
+      isDevcode: false,
+      author: 'someone',
+      packageManager: 'pnpm' as const,
+    };
+
+    test('should use node tooling and record packageManager', async () => {
+      const result = await generatePackageJson(pnpmOptions, {
+        ...VERSIONS,
+        pnpm: '9.15.0',
+      });
+
+      const pkg = JSON.parse(result.content);
+      expect(pkg.packageManager).toBe('pnpm@9.15.0');
+      expect(pkg.scripts.build).toBe('tsc');
+      expect(pkg.devDependencies['bun-types']).toBeUndefined();
+      expect(Object.keys(pkg.devDependencies)).toContain('vitest');
+    });
+
+    test('should set tsconfig types and hooks for the package manager', async () => {
+      const tsconfig = await generateTsconfig(pnpmOptions);
+      const commitMsg = await generateHuskyHook(pnpmOptions, 'commit-msg');
+
+      expect(tsconfig.content).toContain('"types": ["node"]');
+      expect(commitMsg.content).toBe('pnpm exec commitlint --edit $1\n');
+    });
+
+    test('should set up pnpm in CI', async () => {
+      const ci = await generateCiWorkflow(pnpmOptions, {}, { pnpm: '9.15.0' });
+
+      expect(ci.content).toContain('pnpm/action-setup@');
+      expect(ci.content).not.toContain('version: latest');
+      expect(ci.content).toContain("cache: 'pnpm'");
+      expect(ci.content).toContain('pnpm install --frozen-lockfile');
+      expect(ci.content).toContain("- 'pnpm-lock.yaml'");
+      expect(ci.content).not.toContain('setup-bun');
+      expect(() => YAML.parse(ci.content)).not.toThrow();
+    });
+
+    test('should cache bun installs by lockfile', async () => {
+      const ci = await generateCiWorkflow(
+        { ...pnpmOptions, packageManager: 'bun' },
+        {},
+      );
+
+      expect(ci.content).toContain("hashFiles('bun.lock')");
+      expect(YAML.parse(ci.content).jobs.test.steps).toHaveLength(5);
+    });
+  });
+
+  describe('tooling files', () => {
+    async function generatedPaths(
+      tooling: Partial<ToolingOptions>,
+    ): Promise<string[]> {
+      const files = await Promise.all(
+        typescriptGenerator.getFiles(
+          {
+            projectName: 'test-project',
+            lang: 'typescript',
+            isDevcode: false,
+            author: 'someone',
+            tooling,
+          },
+          CONTEXT,
+        ),
+      );
+      return files.map((file) => file.path);
+    }
+
+    test('should generate biome, commitlint and husky hooks by default', async () => {
+      const paths = await generatedPaths({});
+
+      expect(paths).toContain('biome.json');
+      expect(paths).toContain('commitlint.config.js');
+      expect(paths).toContain('.husky/commit-msg');
+      expect(paths).toContain('.husky/pre-push');
+      expect(paths).not.toContain('.husky/pre-commit');
+    });
+
+    test('should skip opted-out tools', async () => {
+      const paths = await generatedPaths({
+        husky: false,
+        commitlint: false,
+        biome: false,
+      });
+
+      expect(paths).not.toContain('biome.json');
+      expect(paths).not.toContain('commitlint.config.js');
+      expect(paths.some((p) => p.startsWith('.husky/'))).toBe(false);
+    });
+
+    test('should pick pre-push hook contents', async () => {
+      const withTests = await generateHuskyHook(
+        { projectName: 'p', lang: 'typescript', isDevcode: false },
+        'pre-push',
+      );
+      const withoutTests = await generateHuskyHook(
+        {
+          projectName: 'p',
+          lang: 'typescript',
+          isDevcode: false,
+          tooling: { prePushTests: false },
+        },
+        'pre-push',
+      );
+
+      expect(withTests.content).toBe('bun run check\nbun test\n');
+      expect(withoutTests.content).toBe('bun run check\n');
+    });
+  });
+
+  describe('generateTsconfig', () => {
+    test('should generate tsconfig.json', async () => {
+      const result = await generateTsconfig({
+        projectName: 'test-project',
+        lang: 'typescript',
+        isDevcode: false,
+      });
+
+      expect(result.path).toBe('tsconfig.json');
+      expect(result.content).toContain('"target": "ES2022"');
+      expect(result.content).toContain('"moduleResolution": "bundler"');
+      expect(result.content).toContain('"bun-types"');
+    });
+  });
+
+  describe('generateEntryPoint', () => {
+    test('should generate src/index.ts with project name', async () => {
+      const result = await generateEntryPoint({
+        projectName: 'my-cool-project',
+        lang: 'typescript',
+        isDevcode: false,
+      });
+
+      expect(result.path).toBe('src/index.ts');
+      expect(result.content).toContain('my-cool-project');
+    });
+  });
+
+  describe('project kinds', () => {
+    function options(
+      kind: ProjectKind,
+      packageManager: PackageManager = 'bun',
+    ) {
+      return {
+        projectName: '@scope/my-tool',
+        lang: 'typescript' as const,
+        isDevcode: false,
+        author: 'someone',
+        kind,
+        packageManager,
+      };
+    }
+
+    async function packageJson(
+      kind: ProjectKind,
+      packageManager?: PackageManager,
+    ): Promise<Record<string, unknown>> {
+      const result = await generatePackageJson(options(kind, packageManager), {
+        ...VERSIONS,
+        commander: '14.0.0',
+      });
+      return JSON.parse(result.content);
+    }
+
+    test('should export a library with declarations and a test', async () => {
+      const pkg = await packageJson('library');
+      const tsconfig = await generateTsconfig(options('library'));
+      const files = await Promise.all(
+        typescriptGenerator.getFiles(options('library'), CONTEXT),
+      );
+      const entryPoint = files.find((file) => file.path === 'src/index.ts');
+      const test = files.find((file) => file.path === 'src/index.test.ts');
+
+      expect(pkg.exports).toEqual({
+        '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+      });
+      expect(pkg.types).toBe('./dist/index.d.ts');
+      expect(pkg.bin).toBeUndefined();
+      expect((pkg.scripts as Record<string, string>).build).toContain(
+        'tsc --emitDeclarationOnly',
+      );
+      expect(JSON.parse(tsconfig.content).compilerOptions.declaration).toBe(
+        true,
+      );
+      expect(entryPoint?.content).toContain('export function greet');
+      expect(test?.content).toContain("from 'bun:test'");
+    });
+
+    test('should add a bin entry and commander for a CLI', async () => {
+      const pkg = await packageJson('cli', 'npm');
+      const entryPoint = await generateEntryPoint(options('cli'));
+
+      expect(pkg.bin).toEqual({ 'my-tool': './dist/index.js' });
+      expect(pkg.dependencies).toEqual({ commander: '^14.0.0' });
+      expect(pkg.exports).toBeUndefined();
+      expect(entryPoint.content).toStartWith('#!/usr/bin/env node\n');
+      expect(entryPoint.content).toContain(".name('my-tool')");
+      expect(getDependencies('cli')).toEqual(['commander']);
+    });
+
+    test('should add a start script for an app', async () => {
+      const bunPkg = await packageJson('app');
+      const npmPkg = await packageJson('app', 'npm');
+      const paths = (
+        await Promise.all(typescriptGenerator.getFiles(options('app'), CONTEXT))
+      ).map((file) => file.path);
+
+      expect((bunPkg.scripts as Record<string, string>).start).toBe(
+        'bun dist/index.js',
+      );
+      expect((npmPkg.scripts as Record<string, string>).start).toBe(
+        'node dist/index.js',
+      );
+      expect(bunPkg.dependencies).toBeUndefined();
+      expect(paths).not.toContain('src/index.test.ts');
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type {
+  InitOptions,
+  ProjectKind,
+  ToolingOptions,
+  VersionPolicy,
+} from '../../types';
+import { getLatestVersions, getNpmUsername } from '../../utils/npm';
+import { getRegistryKind, getRegistryUrl } from '../../utils/npmrc';
+import { stripScope } from '../../utils/project-name';
+import { formatNpmRange, getRangeStyle } from '../../utils/version-policy';
+import { DEFAULT_KIND, getKindScripts } from '../kinds';
+import { getLicense } from '../licenses';
+import {
+  detectPackageManager,
+  formatPackageManagerField,
+  getPackageManager,
+  type PackageManagerConfig,
+} from '../package-managers';
+import { type GeneratedFile, loadTemplate } from '../templates';
+import { resolveTooling } from '../tooling';
+import type { LanguageGenerator } from './index';
+
+/** Runtime types, runner and test framework per package manager */
+function getRuntimeDependencies(pm: PackageManagerConfig): string[] {
+  return pm.name === 'bun' ? ['bun-types'] : ['@types/node', 'tsx', 'vitest'];
+}
+
+/**
+ * Runtime dependencies of the project kind, in package.json order
+ */
+export function getDependencies(kind: ProjectKind = DEFAULT_KIND): string[] {
+  return kind === 'cli' ? ['commander'] : [];
+}
+
+/**
+ * [name, range] pairs for package.json, formatted by the version policy
+ */
+export function toDependencyRanges(
+  names: string[],
+  versions: Record<string, string>,
+  policy?: VersionPolicy,
+): [string, string][] {
+  return names.map((name) => [
+    name,
+    formatNpmRange(versions[name], getRangeStyle(policy, name)),
+  ]);
+}
+
+/**
+ * Dev dependencies for the enabled tooling, in package.json order
+ */
+export function getDevDependencies(
+  tooling: ToolingOptions,
+  pm: PackageManagerConfig = getPackageManager(),
+): string[] {
+  return [
+    ...(tooling.biome ? ['@biomejs/biome'] : []),
+    ...(tooling.commitlint
+      ? ['@commitlint/cli', '@commitlint/config-conventional']
+      : []),
+    ...getRuntimeDependencies(pm),
+    ...(tooling.husky ? ['husky'] : []),
+    ...(tooling.lintStaged ? ['lint-staged'] : []),
+    'typescript',
+  ].sort();
+}
+
+interface PackageJson {
+  name: string;
+  private?: boolean;
+  [key: string]: unknown;
+}
+
+export async function generatePackageJson(
+  options: InitOptions,
+  versions: Record<string, string>,
+): Promise<GeneratedFile> {
+  try {
+    const detectedAuthor = options.author ?? (await getNpmUsername());
+    const author = detectedAuthor ?? '';
+    const tooling = resolveTooling(options);
+    const pm = getPackageManager(options.packageManager);
+    const kind = options.kind ?? DEFAULT_KIND;
+    const templatePath = `${options.lang}/package.json.ejs`;
+    const content = loadTemplate(templatePath, {
+      name: options.projectName,
+      binName: stripScope(options.projectName),
+      kind,
+      scripts: getKindScripts(kind, pm),
+      isDevcode: options.isDevcode,
+      author,
+      license: getLicense(options.license).id,
+      tooling,
+      pm,
+      packageManagerField: formatPackageManagerField(
+        pm,
+        versions[pm.packageName],
+      ),
+      dependencies: toDependencyRanges(
+        getDependencies(kind),
+        versions,
+        options.versionPolicy,
+      ),
+      devDependencies: toDependencyRanges(
+        getDevDependencies(tooling, pm),
+        versions,
+        options.versionPolicy,
+      ),
+    });
+    return { path: 'package.json', content };
+  } catch (error) {
+    throw new Error(
+      `Failed to generate package.json: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export async function generateTsconfig(
+  options: InitOptions,
+): Promise<GeneratedFile> {
+  const content = loadTemplate(`${options.lang}/tsconfig.json.ejs`, {
+    pm: getPackageManager(options.packageManager),
+    kind: options.kind ?? DEFAULT_KIND,
+  });
+  return { path: 'tsconfig.json', content };
+}
+
+export async function generateEntryPoint(
+  options: InitOptions,
+): Promise<GeneratedFile> {
+  const content = loadTemplate(`${options.lang}/src/index.ts.ejs`, {
+    name: options.projectName,
+    binName: stripScope(options.projectName),
+    kind: options.kind ?? DEFAULT_KIND,
+  });
+  return { path: 'src/index.ts', content, scaffold: true };
+}
+
+/**
+ * Generates a test for the sample function exported by a library
+ */
+export async function generateEntryPointTest(
+  options: InitOptions,
+): Promise<GeneratedFile> {
+  const content = loadTemplate(`${options.lang}/src/index.test.ts.ejs`, {
+    name: options.projectName,
+    pm: getPackageManager(options.packageManager),
+  });
+  return { path: 'src/index.test.ts', content, scaffold: true };
+}
+
+export async function generateBiomeConfig(
+  options: InitOptions,
+  versions: Record<string, string>,
+): Promise<GeneratedFile> {
+  const content = loadTemplate(`${options.lang}/biome.json.ejs`, {
+    biomeVersion: versions['@biomejs/biome'] ?? 'latest',
+  });
+  return { path: 'biome.json', content };
+}
+
+export async function generateCommitlintConfig(
+  options: InitOptions,
+): Promise<GeneratedFile> {
+  const content = loadTemplate(`${options.lang}/commitlint.config.js.ejs`, {});
+  return { path: 'commitlint.config.js', content };
+}
+
+export async function generateHuskyHook(
+  options: InitOptions,
+  hook: 'commit-msg' | 'pre-commit' | 'pre-push',
+): Promise<GeneratedFile> {
+  const content = loadTemplate(`${options.lang}/husky/${hook}.ejs`, {
+    tooling: resolveTooling(options),
+    pm: getPackageManager(options.packageManager),
+  });
+  return { path: `.husky/${hook}`, content };
+}
+
+/**
+ * Tooling config files and git hooks for the enabled tools
+ */
+export function getToolingFiles(
+  options: InitOptions,
+  versions: Record<string, string>,
+): Promise<GeneratedFile>[] {
+  const tooling = resolveTooling(options);
+  const files: Promise<GeneratedFile>[] = [];
+
+  if (tooling.biome) {
+    files.push(generateBiomeConfig(options, versions));
+  }
+  if (tooling.commitlint) {
+    files.push(generateCommitlintConfig(options));
+  }
+  if (tooling.husky) {
+    if (tooling.commitlint) {
+      files.push(generateHuskyHook(options, 'commit-msg'));
+    }
+    if (tooling.lintStaged) {
+      files.push(generateHuskyHook(options, 'pre-commit'));
+    }
+    if (tooling.biome || tooling.prePushTests) {
+      files.push(generateHuskyHook(options, 'pre-push'));
+    }
+  }
+
+  return files;
+}
+
+function parsePackageJson(content: string): {
+  name: string;
+  isDevcode: boolean;
+} {
+  const pkg = JSON.parse(content) as PackageJson;
+  return { name: pkg.name, isDevcode: !!pkg.private };
+}
+
+/**
+ * Updates package.json: replaces name and removes "private": true
+ * This is a MANAGED replacement - only touches the "name" field
+ */
+async function replaceInPackageJson(
+  targetDir: string,
+  _devcode: string,
+  publishName: string,
+): Promise<void> {
+  const packageJsonPath = path.join(targetDir, 'package.json');
+  const content = await fs.readFile(packageJsonPath, 'utf-8');
+  const pkg = JSON.parse(content) as PackageJson;
+
+  // Only replace the managed "name" field
+  pkg.name = publishName;
+
+  // Remove private flag
+  delete pkg.private;
+
+  await fs.writeFile(
+    packageJsonPath,
+    `${JSON.stringify(pkg, null, 2)}\n`,
+    'utf-8',
+  );
+}
+
+export const typescriptGenerator: LanguageGenerator = {
+  name: 'typescript',
+  dependabotEcosystem: 'npm',
+  actions: (options) => getPackageManager(options.packageManager).setupActions,
+  resolveVersions: (options) => {
+    const pm = getPackageManager(options.packageManager);
+    return getLatestVersions(
+      [
+        ...getDependencies(options.kind),
+        ...getDevDependencies(resolveTooling(options), pm),
+        pm.packageName,
+      ],
+      options.versionPolicy,
+    );
+  },
+  getFiles: (options, { versions }) => [
+    generatePackageJson(options, versions),
+    generateTsconfig(options),
+    generateEntryPoint(options),
+    ...((options.kind ?? DEFAULT_KIND) === 'library'
+      ? [generateEntryPointTest(options)]
+      : []),
+    ...getToolingFiles(options, versions),
+  ],
+  detectAuthor: () => getNpmUsername(),
+  install: (options) => {
+    const pm = getPackageManager(options.packageManager);
+    return { command: pm.name, args: ['install'], lockfile: pm.lockfile };
+  },
+  devcode: {
+    file: 'package.json',
+    description: 'name field',
+    marker: '"private": true',
+    parse: parsePackageJson,
+    replace: replaceInPackageJson,
+  },
+  managedLocations: [],
+  publish: {
+    target: 'npm OIDC publishing',
+    // Publishes to the registry the package's scope maps to in .npmrc
+    templateData: async (targetDir, publishName) => {
+      const detected = await detectPackageManager(targetDir);
+      const registryUrl = getRegistryUrl(publishName);
+      return {
+        pm: getPackageManager(detected.name),
+        packageManagerField: detected.field,
+        registry: getRegistryKind(registryUrl),
+        registryUrl: registryUrl.replace(/\/$/, ''),
+        // Not `scope`, which ejs.render reads as a (deprecated) option
+        npmScope: publishName.startsWith('@')
+          ? publishName.split('/')[0]
+          : undefined,
+      };
+    },
+  },
+};
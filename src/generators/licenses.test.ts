@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  generateLicenseFile,
+  getLicense,
+  LicenseError,
+  validateLicense,
+} from './licenses';
+
+describe('licenses', () => {
+  describe('validateLicense', () => {
+    test('should return the canonical SPDX identifier', () => {
+      expect(validateLicense('mit')).toBe('MIT');
+      expect(validateLicense('apache-2.0')).toBe('Apache-2.0');
+      expect(validateLicense('proprietary')).toBe('UNLICENSED');
+    });
+
+    test('should suggest close matches', () => {
+      const error = (() => {
+        try {
+          validateLicense('apache2');
+        } catch (e) {
+          return e;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(LicenseError);
+      expect((error as LicenseError).suggestions).toEqual(['Apache-2.0']);
+      expect(() => validateLicense('BSD')).toThrow(
+        'Did you mean BSD-3-Clause?',
+      );
+    });
+
+    test('should list supported licenses when nothing is close', () => {
+      expect(() => validateLicense('WTFPL')).toThrow(
+        'Supported: MIT, Apache-2.0, BSD-3-Clause, MPL-2.0, ISC, UNLICENSED',
+      );
+    });
+  });
+
+  test('getLicense should default to MIT', () => {
+    expect(getLicense()).toEqual({ id: 'MIT', githubKey: 'mit' });
+    expect(getLicense('UNLICENSED').githubKey).toBeUndefined();
+  });
+
+  describe('generateLicenseFile', () => {
+    test('should fill in the year and author', async () => {
+      const result = await generateLicenseFile(
+        {
+          projectName: 'my-project',
+          lang: 'typescript',
+          isDevcode: false,
+          author: 'Alice',
+        },
+        2026,
+      );
+
+      expect(result.path).toBe('LICENSE');
+      expect(result.content).toStartWith('MIT License');
+      expect(result.content).toContain('Copyright (c) 2026 Alice');
+    });
+
+    test('should fill in the Apache-2.0 appendix', async () => {
+      const result = await generateLicenseFile(
+        {
+          projectName: 'my-project',
+          lang: 'go',
+          isDevcode: false,
+          owner: 'my-org',
+          license: 'Apache-2.0',
+        },
+        2026,
+      );
+
+      expect(result.content).toContain('Copyright 2026 my-org');
+      expect(result.content).not.toContain('[yyyy]');
+    });
+
+    test('should fall back to the project authors', async () => {
+      const result = await generateLicenseFile(
+        {
+          projectName: 'my-project',
+          lang: 'rust',
+          isDevcode: false,
+          license: 'UNLICENSED',
+        },
+        2026,
+      );
+
+      expect(result.content).toContain(
+        'Copyright (c) 2026 The my-project authors. All rights reserved.',
+      );
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { DEFAULT_LICENSE } from '../config';
+import type { InitOptions } from '../types';
+import { type GeneratedFile, loadTemplate } from './templates';
+
+export interface LicenseConfig {
+  /** SPDX identifier written to manifests */
+  id: string;
+  /** GitHub license template key, for licenses GitHub can detect */
+  githubKey?: string;
+}
+
+export const LICENSES: Record<string, LicenseConfig> = {
+  MIT: { id: 'MIT', githubKey: 'mit' },
+  'Apache-2.0': { id: 'Apache-2.0', githubKey: 'apache-2.0' },
+  'BSD-3-Clause': { id: 'BSD-3-Clause', githubKey: 'bsd-3-clause' },
+  'MPL-2.0': { id: 'MPL-2.0', githubKey: 'mpl-2.0' },
+  ISC: { id: 'ISC', githubKey: 'isc' },
+  UNLICENSED: { id: 'UNLICENSED' },
+};
+
+export const SUPPORTED_LICENSES = Object.keys(LICENSES);
+
+/** Accepted spellings that are not SPDX identifiers */
+const LICENSE_ALIASES: Record<string, string> = {
+  proprietary: 'UNLICENSED',
+};
+
+export class LicenseError extends Error {
+  constructor(
+    public readonly license: string,
+    public readonly suggestions: string[],
+  ) {
+    const hint =
+      suggestions.length > 0
+        ? `Did you mean ${suggestions.join(' or ')}?`
+        : `Supported: ${SUPPORTED_LICENSES.join(', ')}`;
+    super(`Unsupported license: ${license}. ${hint}`);
+    this.name = 'LicenseError';
+  }
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Lowercases and drops punctuation, so "apache2" compares close to "Apache-2.0" */
+function normalizeLicense(license: string): string {
+  return license.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Supported licenses that look like a typo or abbreviation of the given identifier
+ */
+function suggestLicenses(license: string): string[] {
+  const input = normalizeLicense(license);
+  if (!input) {
+    return [];
+  }
+  return SUPPORTED_LICENSES.filter((id) => {
+    const candidate = normalizeLicense(id);
+    const maxDistance = Math.max(1, Math.floor(candidate.length / 3));
+    return (
+      candidate.startsWith(input) ||
+      editDistance(input, candidate) <= maxDistance
+    );
+  });
+}
+
+/**
+ * Returns the canonical SPDX identifier (case-insensitive, "proprietary" is
+ * accepted for UNLICENSED), or throws with suggestions
+ */
+export function validateLicense(license: string): string {
+  const input = license.trim().toLowerCase();
+  const alias = LICENSE_ALIASES[input];
+  if (alias) {
+    return alias;
+  }
+
+  const match = SUPPORTED_LICENSES.find((id) => id.toLowerCase() === input);
+  if (!match) {
+    throw new LicenseError(license, suggestLicenses(license));
+  }
+  return match;
+}
+
+export function getLicense(id: string = DEFAULT_LICENSE): LicenseConfig {
+  return LICENSES[validateLicense(id)];
+}
+
+/**
+ * Copyright holder when neither an author nor a GitHub owner is known
+ */
+function getProjectAuthors(projectName: string): string {
+  return `The ${projectName} authors`;
+}
+
+/**
+ * Generates LICENSE with the copyright year and holder filled in
+ * The holder falls back to the GitHub owner, then to the project's authors.
+ */
+export async function generateLicenseFile(
+  options: InitOptions,
+  year: number = new Date().getFullYear(),
+): Promise<GeneratedFile> {
+  const { id } = getLicense(options.license);
+  const content = loadTemplate(`licenses/${id}.ejs`, {
+    year,
+    author:
+      options.author ?? options.owner ?? getProjectAuthors(options.projectName),
+  });
+  return { path: 'LICENSE', content };
+}
+
+/**
+ * Updates LICENSE: renames a "The <devcode> authors" holder after the
+ * published package. A named author or owner is left as it is.
+ */
+export async function replaceInLicense(
+  targetDir: string,
+  devcode: string,
+  publishName: string,
+): Promise<void> {
+  const licensePath = path.join(targetDir, 'LICENSE');
+
+  let content: string;
+  try {
+    content = await fs.readFile(licensePath, 'utf-8');
+  } catch (error) {
+    const fsError = error as NodeJS.ErrnoException;
+    if (fsError.code === 'ENOENT') {
+      return; // File doesn't exist, nothing to do
+    }
+    throw error;
+  }
+
+  const updated = content.replaceAll(
+    getProjectAuthors(devcode),
+    getProjectAuthors(publishName),
+  );
+  if (updated !== content) {
+    await fs.writeFile(licensePath, updated, 'utf-8');
+  }
+}
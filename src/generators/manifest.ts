@@ -0,0 +1,173 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import packageJson from '../../package.json';
+import type { InitOptions } from '../types';
+import type { GeneratedFile } from './templates';
+
+/** Where init records how the project was generated */
+export const MANIFEST_PATH = '.github/initrepo.json';
+
+/** Format of the manifest file; bumped on incompatible changes */
+export const MANIFEST_VERSION = 1;
+
+/**
+ * Options that decide what the templates render; the output directory, how
+ * conflicts were handled and init's runtime flags (git, install, ...) are
+ * not part of it
+ */
+const MANIFEST_OPTION_KEYS = [
+  'projectName',
+  'lang',
+  'isDevcode',
+  'author',
+  'owner',
+  'license',
+  'packageManager',
+  'kind',
+  'workspaces',
+  'pinActions',
+  'versionPolicy',
+  'tooling',
+] as const satisfies readonly (keyof InitOptions)[];
+
+export type ManifestOptions = Pick<
+  InitOptions,
+  (typeof MANIFEST_OPTION_KEYS)[number]
+>;
+
+export interface ProjectManifest {
+  manifestVersion: number;
+  /** initrepo version whose templates rendered the recorded files */
+  initrepoVersion: string;
+  options: ManifestOptions;
+  /** Dependency versions the files were rendered with (package name -> version) */
+  versions: Record<string, string>;
+  /** GitHub Actions versions the workflows were rendered with (action -> version) */
+  actionVersions: Record<string, string>;
+  /**
+   * Rendered content by path: the common base for sync's three-way merge
+   * (source scaffolds are left out, since sync never touches them)
+   */
+  files: Record<string, string>;
+}
+
+export class ManifestError extends Error {
+  constructor(
+    message: string,
+    public readonly manifestPath: string,
+  ) {
+    super(message);
+    this.name = 'ManifestError';
+  }
+}
+
+export function getManifestOptions(options: InitOptions): ManifestOptions {
+  return Object.fromEntries(
+    MANIFEST_OPTION_KEYS.filter((key) => options[key] !== undefined).map(
+      (key) => [key, options[key]],
+    ),
+  ) as ManifestOptions;
+}
+
+/**
+ * Renders the manifest for a set of generated files
+ */
+export function generateManifest(
+  options: InitOptions,
+  rendered: {
+    files: GeneratedFile[];
+    versions: Record<string, string>;
+    actionVersions: Record<string, string>;
+  },
+): GeneratedFile {
+  const manifest: ProjectManifest = {
+    manifestVersion: MANIFEST_VERSION,
+    initrepoVersion: packageJson.version,
+    options: getManifestOptions(options),
+    versions: rendered.versions,
+    actionVersions: rendered.actionVersions,
+    files: Object.fromEntries(
+      rendered.files
+        .filter((file) => file.path !== MANIFEST_PATH && !file.scaffold)
+        .map((file) => [file.path, file.content]),
+    ),
+  };
+  return {
+    path: MANIFEST_PATH,
+    content: `${JSON.stringify(manifest, null, 2)}\n`,
+  };
+}
+
+/**
+ * Reads the manifest init wrote into targetDir
+ */
+export async function readManifest(
+  targetDir: string,
+): Promise<ProjectManifest> {
+  const manifestPath = path.join(targetDir, MANIFEST_PATH);
+
+  let content: string;
+  try {
+    content = await fs.readFile(manifestPath, 'utf-8');
+  } catch (error) {
+    const fsError = error as NodeJS.ErrnoException;
+    if (fsError.code === 'ENOENT') {
+      throw new ManifestError(
+        `No ${MANIFEST_PATH} found in "${targetDir}". Only projects created by initrepo init can be synced.`,
+        manifestPath,
+      );
+    }
+    throw error;
+  }
+
+  let manifest: ProjectManifest;
+  try {
+    manifest = JSON.parse(content);
+  } catch (error) {
+    throw new ManifestError(
+      `Invalid ${MANIFEST_PATH}: ${error instanceof Error ? error.message : String(error)}`,
+      manifestPath,
+    );
+  }
+  if (manifest.manifestVersion !== MANIFEST_VERSION) {
+    throw new ManifestError(
+      `Unsupported ${MANIFEST_PATH} format version ${manifest.manifestVersion}; upgrade initrepo to sync this project`,
+      manifestPath,
+    );
+  }
+  return manifest;
+}
+
+/**
+ * Updates the manifest for prepare-release: the recorded project name and
+ * devcode flag, so sync renders the released project. The recorded files
+ * stay the common base, and sync merges the release's renames like any
+ * other template change.
+ */
+export async function replaceInManifest(
+  targetDir: string,
+  devcode: string,
+  publishName: string,
+): Promise<void> {
+  try {
+    await fs.access(path.join(targetDir, MANIFEST_PATH));
+  } catch {
+    return; // Not created by initrepo init, nothing to do
+  }
+
+  const manifest = await readManifest(targetDir);
+  // In a workspace only the package init created is recorded
+  if (manifest.options.projectName !== devcode) {
+    return;
+  }
+  manifest.options = {
+    ...manifest.options,
+    projectName: publishName,
+    isDevcode: false,
+  };
+  await fs.writeFile(
+    path.join(targetDir, MANIFEST_PATH),
+    `${JSON.stringify(manifest, null, 2)}\n`,
+    'utf-8',
+  );
+}
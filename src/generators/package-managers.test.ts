@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { MANIFEST_PATH, MANIFEST_VERSION } from './manifest';
+import {
+  detectPackageManager,
+  formatPackageManagerField,
+  getPackageManager,
+  validatePackageManager,
+} from './package-managers';
+
+describe('package managers', () => {
+  const testDir = path.join(import.meta.dir, '../../.test-package-managers');
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function writeFile(name: string, content: string): Promise<void> {
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, name), content);
+  }
+
+  test('validatePackageManager should reject unknown names', () => {
+    expect(validatePackageManager('pnpm')).toBe('pnpm');
+    expect(() => validatePackageManager('rush')).toThrow(
+      'Unsupported package manager: rush',
+    );
+  });
+
+  test('formatPackageManagerField should skip unresolved versions', () => {
+    const pnpm = getPackageManager('pnpm');
+
+    expect(formatPackageManagerField(pnpm, '9.15.0')).toBe('pnpm@9.15.0');
+    expect(formatPackageManagerField(pnpm, 'latest')).toBeNull();
+    expect(formatPackageManagerField(pnpm, undefined)).toBeNull();
+  });
+
+  test('should detect from the packageManager field first', async () => {
+    await writeFile('package.json', '{ "packageManager": "yarn@4.5.0" }');
+    await writeFile('pnpm-lock.yaml', '');
+
+    expect(await detectPackageManager(testDir)).toEqual({
+      name: 'yarn',
+      field: 'yarn@4.5.0',
+    });
+  });
+
+  test('should fall back to lockfiles and then bun', async () => {
+    await writeFile('package.json', '{}');
+    expect((await detectPackageManager(testDir)).name).toBe('bun');
+
+    await writeFile('package-lock.json', '{}');
+    expect(await detectPackageManager(testDir)).toEqual({
+      name: 'npm',
+      field: null,
+    });
+  });
+
+  test('should use the package manager recorded at init without a lockfile', async () => {
+    await writeFile('package.json', '{}');
+    await fs.mkdir(path.join(testDir, '.github'), { recursive: true });
+    await writeFile(
+      MANIFEST_PATH,
+      JSON.stringify({
+        manifestVersion: MANIFEST_VERSION,
+        options: {
+          projectName: 'app',
+          lang: 'typescript',
+          isDevcode: false,
+          packageManager: 'pnpm',
+        },
+      }),
+    );
+    expect(await detectPackageManager(testDir)).toEqual({
+      name: 'pnpm',
+      field: null,
+    });
+
+    await writeFile('yarn.lock', '');
+    expect((await detectPackageManager(testDir)).name).toBe('yarn');
+  });
+});
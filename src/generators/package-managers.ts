@@ -0,0 +1,191 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { GitHubAction } from '../config';
+import type { PackageManager } from '../types';
+import { readManifest } from './manifest';
+
+/**
+ * Commands and files that differ between JavaScript package managers
+ */
+export interface PackageManagerConfig {
+  name: PackageManager;
+  /** npm package whose version is written to the packageManager field */
+  packageName: string;
+  lockfile: string;
+  /** Adds a dependency (e.g., "pnpm add") */
+  add: string;
+  /** Install with the lockfile frozen (CI) */
+  ciInstall: string;
+  /** Prefix for running package.json scripts (e.g., "pnpm run") */
+  run: string;
+  /** Runs a script in every workspace package, excluding the root (e.g., "pnpm -r run") */
+  runAll: string;
+  /** Runs a locally installed binary (e.g., "pnpm exec") */
+  exec: string;
+  /** Runs the test script */
+  test: string;
+  /** actions/setup-node cache key, if supported */
+  nodeCache?: string;
+  /** Actions the CI and publish workflows set this package manager up with */
+  setupActions: GitHubAction[];
+}
+
+export const PACKAGE_MANAGERS: Record<PackageManager, PackageManagerConfig> = {
+  bun: {
+    name: 'bun',
+    packageName: 'bun',
+    lockfile: 'bun.lock',
+    add: 'bun add',
+    ciInstall: 'bun install --frozen-lockfile',
+    run: 'bun run',
+    runAll: "bun run --filter './packages/*'",
+    exec: 'bunx --no --',
+    test: 'bun test',
+    setupActions: ['oven-sh/setup-bun', 'actions/cache', 'actions/setup-node'],
+  },
+  npm: {
+    name: 'npm',
+    packageName: 'npm',
+    lockfile: 'package-lock.json',
+    add: 'npm install',
+    ciInstall: 'npm ci',
+    run: 'npm run',
+    runAll: 'npm run --workspaces --if-present',
+    exec: 'npx --no --',
+    test: 'npm test',
+    nodeCache: 'npm',
+    setupActions: ['actions/setup-node'],
+  },
+  pnpm: {
+    name: 'pnpm',
+    packageName: 'pnpm',
+    lockfile: 'pnpm-lock.yaml',
+    add: 'pnpm add',
+    ciInstall: 'pnpm install --frozen-lockfile',
+    run: 'pnpm run',
+    runAll: 'pnpm -r run',
+    exec: 'pnpm exec',
+    test: 'pnpm test',
+    nodeCache: 'pnpm',
+    setupActions: ['pnpm/action-setup', 'actions/setup-node'],
+  },
+  yarn: {
+    name: 'yarn',
+    packageName: '@yarnpkg/cli-dist',
+    lockfile: 'yarn.lock',
+    add: 'yarn add',
+    ciInstall: 'yarn install --immutable',
+    run: 'yarn run',
+    runAll:
+      "yarn workspaces foreach --all --topological --include 'packages/*' run",
+    exec: 'yarn exec',
+    test: 'yarn test',
+    nodeCache: 'yarn',
+    setupActions: ['actions/setup-node'],
+  },
+};
+
+export const SUPPORTED_PACKAGE_MANAGERS = Object.keys(
+  PACKAGE_MANAGERS,
+) as PackageManager[];
+
+export const DEFAULT_PACKAGE_MANAGER: PackageManager = 'bun';
+
+/** Lockfiles checked when package.json has no packageManager field */
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+];
+
+export function getPackageManager(
+  name: PackageManager = DEFAULT_PACKAGE_MANAGER,
+): PackageManagerConfig {
+  return PACKAGE_MANAGERS[name];
+}
+
+export function validatePackageManager(name: string): PackageManager {
+  if (!SUPPORTED_PACKAGE_MANAGERS.includes(name as PackageManager)) {
+    throw new Error(
+      `Unsupported package manager: ${name}. Supported: ${SUPPORTED_PACKAGE_MANAGERS.join(', ')}`,
+    );
+  }
+  return name as PackageManager;
+}
+
+/**
+ * Formats the package.json packageManager field (e.g., "pnpm@9.15.0")
+ * Returns null when the version could not be resolved
+ */
+export function formatPackageManagerField(
+  pm: PackageManagerConfig,
+  version: string | undefined,
+): string | null {
+  return version && version !== 'latest' ? `${pm.name}@${version}` : null;
+}
+
+export interface DetectedPackageManager {
+  name: PackageManager;
+  /** The packageManager field, if package.json has one */
+  field: string | null;
+}
+
+/**
+ * Package manager recorded at init, for projects whose packageManager field
+ * was left out (its version could not be resolved) and that have no lockfile
+ */
+async function readRecordedPackageManager(
+  targetDir: string,
+): Promise<PackageManager | null> {
+  try {
+    const { packageManager } = (await readManifest(targetDir)).options;
+    return packageManager && SUPPORTED_PACKAGE_MANAGERS.includes(packageManager)
+      ? packageManager
+      : null;
+  } catch {
+    return null; // Not created by initrepo init
+  }
+}
+
+/**
+ * Detects the package manager of an existing project from the
+ * packageManager field, then from lockfiles, then from the choice recorded
+ * in .github/initrepo.json. Defaults to bun.
+ */
+export async function detectPackageManager(
+  targetDir: string,
+): Promise<DetectedPackageManager> {
+  try {
+    const content = await fs.readFile(
+      path.join(targetDir, 'package.json'),
+      'utf-8',
+    );
+    const field = (JSON.parse(content) as { packageManager?: unknown })
+      .packageManager;
+    if (typeof field === 'string') {
+      const name = field.split('@')[0];
+      if (SUPPORTED_PACKAGE_MANAGERS.includes(name as PackageManager)) {
+        return { name: name as PackageManager, field };
+      }
+    }
+  } catch {
+    // No readable package.json; fall through to lockfiles
+  }
+
+  for (const [lockfile, name] of LOCKFILES) {
+    try {
+      await fs.access(path.join(targetDir, lockfile));
+      return { name, field: null };
+    } catch {
+      // Try next lockfile
+    }
+  }
+
+  return {
+    name:
+      (await readRecordedPackageManager(targetDir)) ?? DEFAULT_PACKAGE_MANAGER,
+    field: null,
+  };
+}
@@ -1,18 +1,18 @@
 import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import { getLatestActionVersions } from '../utils/github';
+import * as githubUtils from '../utils/github';
 import * as npmUtils from '../utils/npm';
 import {
-  generateEntryPoint,
-  generatePackageJson,
+  applyGeneratedFiles,
+  FileConflictError,
+  FileWriteError,
+  generateGitignore,
   generateProject,
+  generateProjectConfig,
   generateTagprConfig,
   generateTagprWorkflow,
-  generateTsconfig,
-  loadTemplate,
   ProjectNameError,
-  TemplateError,
   validateProjectName,
   writeGeneratedFiles,
 } from './project';
@@ -28,121 +28,171 @@ describe('project generator', () => {
     await fs.rm(testDir, { recursive: true, force: true });
   });
 
-  describe('loadTemplate', () => {
-    test('should throw TemplateError for path traversal attempt', () => {
-      // With embedded templates, path traversal simply results in "not found"
-      expect(() => loadTemplate('../../../etc/passwd', {})).toThrow(
-        TemplateError,
-      );
-      expect(() => loadTemplate('../../../etc/passwd', {})).toThrow(
-        'Template not found',
-      );
-    });
+  describe('writeGeneratedFiles', () => {
+    test('should create directory and write files', async () => {
+      const files = [
+        { path: 'test.txt', content: 'hello world' },
+        { path: 'nested/file.txt', content: 'nested content' },
+      ];
+
+      await writeGeneratedFiles(testDir, files);
 
-    test('should throw TemplateError for non-existent template', () => {
-      expect(() => loadTemplate('non-existent.ejs', {})).toThrow(TemplateError);
-      expect(() => loadTemplate('non-existent.ejs', {})).toThrow(
-        'Template not found',
+      const file1 = await fs.readFile(path.join(testDir, 'test.txt'), 'utf-8');
+      const file2 = await fs.readFile(
+        path.join(testDir, 'nested/file.txt'),
+        'utf-8',
       );
+
+      expect(file1).toBe('hello world');
+      expect(file2).toBe('nested content');
     });
 
-    test('should load and render valid template', () => {
-      const result = loadTemplate('typescript/package.json.ejs', {
-        name: 'test',
-        author: '',
-        isDevcode: false,
-        versions: {
-          '@biomejs/biome': '1.0.0',
-          '@commitlint/cli': '1.0.0',
-          '@commitlint/config-conventional': '1.0.0',
-          'bun-types': '1.0.0',
-          husky: '1.0.0',
-          typescript: '1.0.0',
+    describe('existing files', () => {
+      const files = [
+        {
+          path: 'package.json',
+          content: '{\n  "name": "new",\n  "license": "MIT"\n}\n',
         },
+        { path: 'ci.yml', content: 'name: CI\non: push\n' },
+        { path: 'new.txt', content: 'new' },
+      ];
+
+      beforeEach(async () => {
+        await fs.mkdir(testDir, { recursive: true });
+        await fs.writeFile(
+          path.join(testDir, 'package.json'),
+          '{ "name": "mine", "private": true }',
+        );
+        await fs.writeFile(path.join(testDir, 'ci.yml'), 'name: Mine\n');
       });
 
-      expect(result).toContain('"name": "test"');
-    });
-  });
+      async function read(file: string): Promise<string> {
+        return fs.readFile(path.join(testDir, file), 'utf-8');
+      }
+
+      test('should stop without writing by default', async () => {
+        const error = await writeGeneratedFiles(testDir, files).catch(
+          (e: unknown) => e,
+        );
+
+        expect(error).toBeInstanceOf(FileConflictError);
+        expect((error as FileConflictError).conflicts).toEqual([
+          'package.json',
+          'ci.yml',
+        ]);
+        expect(await read('ci.yml')).toBe('name: Mine\n');
+        expect(fs.access(path.join(testDir, 'new.txt'))).rejects.toThrow();
+      });
 
-  describe('generatePackageJson', () => {
-    let getNpmUsernameSpy: ReturnType<typeof spyOn>;
-    let getLatestVersionsSpy: ReturnType<typeof spyOn>;
+      test('should overwrite with force', async () => {
+        const results = await writeGeneratedFiles(testDir, files, 'force');
 
-    beforeEach(() => {
-      getNpmUsernameSpy = spyOn(npmUtils, 'getNpmUsername').mockResolvedValue(
-        'mocked-user',
-      );
-      getLatestVersionsSpy = spyOn(
-        npmUtils,
-        'getLatestVersions',
-      ).mockResolvedValue({
-        '@biomejs/biome': '1.0.0',
-        '@commitlint/cli': '1.0.0',
-        '@commitlint/config-conventional': '1.0.0',
-        'bun-types': '1.0.0',
-        husky: '1.0.0',
-        typescript: '1.0.0',
+        expect(results.map((r) => r.action)).toEqual([
+          'overwritten',
+          'overwritten',
+          'created',
+        ]);
+        expect(await read('ci.yml')).toBe('name: CI\non: push\n');
       });
-    });
 
-    afterEach(() => {
-      getNpmUsernameSpy.mockRestore();
-      getLatestVersionsSpy.mockRestore();
-    });
-
-    test('should generate package.json with project name', async () => {
-      const result = await generatePackageJson({
-        projectName: 'my-awesome-project',
-        lang: 'typescript',
-        isDevcode: false,
+      test('should keep existing files with skip-existing', async () => {
+        const results = await writeGeneratedFiles(
+          testDir,
+          files,
+          'skip-existing',
+        );
+
+        expect(results.map((r) => r.action)).toEqual([
+          'skipped',
+          'skipped',
+          'created',
+        ]);
+        expect(await read('ci.yml')).toBe('name: Mine\n');
       });
 
-      expect(result.path).toBe('package.json');
-      expect(result.content).toContain('"name": "my-awesome-project"');
+      test('should merge JSON and diff other files with merge', async () => {
+        const results = await writeGeneratedFiles(testDir, files, 'merge');
+
+        expect(results.map((r) => r.action)).toEqual([
+          'merged',
+          'skipped',
+          'created',
+        ]);
+        expect(JSON.parse(await read('package.json'))).toEqual({
+          name: 'mine',
+          private: true,
+          license: 'MIT',
+        });
+        expect(await read('ci.yml')).toBe('name: Mine\n');
+        expect(results[1].diff).toContain('-name: Mine');
+        expect(results[1].diff).toContain('+name: CI');
+      });
     });
+  });
 
-    test('should include standard scripts', async () => {
-      const result = await generatePackageJson({
-        projectName: 'test-project',
-        lang: 'typescript',
-        isDevcode: false,
-      });
+  describe('applyGeneratedFiles', () => {
+    async function stagingLeftovers(): Promise<string[]> {
+      const entries = await fs.readdir(path.dirname(testDir));
+      return entries.filter((entry) => entry.includes('.initrepo-'));
+    }
 
-      expect(result.content).toContain('"dev"');
-      expect(result.content).toContain('"build"');
-      expect(result.content).toContain('"test"');
-      expect(result.content).toContain('"check"');
+    test('should leave nothing behind when a write fails', async () => {
+      const error = await applyGeneratedFiles(testDir, [
+        { path: 'a', content: 'file' },
+        { path: 'a/b', content: 'nested under a file' },
+      ]).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(FileWriteError);
+      expect((error as FileWriteError).rolledBack).toHaveLength(1);
+      expect((error as FileWriteError).message).toContain('Rolled back:');
+      expect(fs.access(testDir)).rejects.toThrow();
+      expect(await stagingLeftovers()).toEqual([]);
     });
 
-    test('should include mocked author', async () => {
-      const result = await generatePackageJson({
-        projectName: 'test-project',
-        lang: 'typescript',
-        isDevcode: false,
-      });
+    test('should remove a new target directory on rollback', async () => {
+      const { rollback } = await applyGeneratedFiles(testDir, [
+        { path: 'nested/file.txt', content: 'content' },
+      ]);
+      expect(await stagingLeftovers()).toEqual([]);
 
-      expect(result.content).toContain('"author": "mocked-user"');
+      expect(await rollback()).toEqual([`removed ${testDir}`]);
+      expect(fs.access(testDir)).rejects.toThrow();
     });
-  });
 
-  describe('writeGeneratedFiles', () => {
-    test('should create directory and write files', async () => {
-      const files = [
-        { path: 'test.txt', content: 'hello world' },
-        { path: 'nested/file.txt', content: 'nested content' },
-      ];
+    test('should create a new target directory with the umask mode', async () => {
+      await applyGeneratedFiles(testDir, [
+        { path: 'file.txt', content: 'content' },
+      ]);
 
-      await writeGeneratedFiles(testDir, files);
+      const { mode } = await fs.stat(testDir);
+      expect(mode & 0o777).toBe(0o777 & ~process.umask());
+    });
 
-      const file1 = await fs.readFile(path.join(testDir, 'test.txt'), 'utf-8');
-      const file2 = await fs.readFile(
-        path.join(testDir, 'nested/file.txt'),
-        'utf-8',
+    test('should restore an existing target directory on rollback', async () => {
+      await fs.mkdir(testDir, { recursive: true });
+      await fs.writeFile(path.join(testDir, 'keep.txt'), 'original');
+
+      const { rollback } = await applyGeneratedFiles(
+        testDir,
+        [
+          { path: 'keep.txt', content: 'generated' },
+          { path: 'nested/new.txt', content: 'new' },
+        ],
+        'force',
+      );
+      expect(await fs.readFile(path.join(testDir, 'keep.txt'), 'utf-8')).toBe(
+        'generated',
       );
 
-      expect(file1).toBe('hello world');
-      expect(file2).toBe('nested content');
+      expect(await rollback()).toEqual([
+        'removed nested/new.txt',
+        'removed nested/',
+        'restored keep.txt',
+      ]);
+      expect(await fs.readdir(testDir)).toEqual(['keep.txt']);
+      expect(await fs.readFile(path.join(testDir, 'keep.txt'), 'utf-8')).toBe(
+        'original',
+      );
     });
   });
 
@@ -184,48 +234,80 @@ describe('project generator', () => {
     });
   });
 
-  describe('generateTsconfig', () => {
-    test('should generate tsconfig.json', async () => {
-      const result = await generateTsconfig({
+  describe('generateTagprConfig', () => {
+    test('should generate .tagpr with versionFile for TypeScript', async () => {
+      const result = await generateTagprConfig({
         projectName: 'test-project',
         lang: 'typescript',
         isDevcode: false,
       });
 
-      expect(result.path).toBe('tsconfig.json');
-      expect(result.content).toContain('"target": "ES2022"');
-      expect(result.content).toContain('"moduleResolution": "bundler"');
-      expect(result.content).toContain('"bun-types"');
+      expect(result.path).toBe('.tagpr');
+      expect(result.content).toContain('versionFile = "package.json"');
     });
   });
 
-  describe('generateEntryPoint', () => {
-    test('should generate src/index.ts with project name', async () => {
-      const result = await generateEntryPoint({
-        projectName: 'my-cool-project',
+  describe('generateGitignore', () => {
+    test('should ignore dependencies and build output for each language', async () => {
+      const ignored = {
+        typescript: 'node_modules/',
+        python: '.venv/',
+        go: 'dist/',
+        rust: 'target/',
+      } as const;
+
+      for (const [lang, entry] of Object.entries(ignored)) {
+        const result = await generateGitignore({
+          projectName: 'test-project',
+          lang: lang as keyof typeof ignored,
+          isDevcode: false,
+        });
+
+        expect(result.path).toBe('.gitignore');
+        expect(result.content.split('\n')).toContain(entry);
+      }
+    });
+  });
+
+  describe('generateProjectConfig', () => {
+    test('should record SHA pinning in .initreporc', async () => {
+      const result = await generateProjectConfig({
+        projectName: 'test-project',
         lang: 'typescript',
         isDevcode: false,
+        pinActions: 'sha',
       });
 
-      expect(result.path).toBe('src/index.ts');
-      expect(result.content).toContain('my-cool-project');
+      expect(result?.path).toBe('.initreporc');
+      expect(JSON.parse(result?.content ?? '')).toEqual({ pinActions: 'sha' });
     });
-  });
 
-  describe('generateTagprConfig', () => {
-    test('should generate .tagpr with versionFile for TypeScript', async () => {
-      const result = await generateTagprConfig({
+    test('should skip the file for default choices', async () => {
+      const result = await generateProjectConfig({
         projectName: 'test-project',
         lang: 'typescript',
         isDevcode: false,
       });
 
-      expect(result.path).toBe('.tagpr');
-      expect(result.content).toContain('versionFile = "package.json"');
+      expect(result).toBeNull();
     });
   });
 
   describe('generateTagprWorkflow', () => {
+    let getLatestActionVersionsSpy: ReturnType<typeof spyOn>;
+
+    beforeEach(() => {
+      // Keep the tests off the live GitHub API and its rate limit
+      getLatestActionVersionsSpy = spyOn(
+        githubUtils,
+        'getLatestActionVersions',
+      ).mockResolvedValue({ ...githubUtils.GITHUB_ACTIONS });
+    });
+
+    afterEach(() => {
+      getLatestActionVersionsSpy.mockRestore();
+    });
+
     // Helper to extract major version number from "vN" format
     function extractMajorVersion(content: string, action: string): number {
       const regex = new RegExp(`${action.replace('/', '\\/')}@v(\\d+)`);
@@ -234,7 +316,7 @@ describe('project generator', () => {
     }
 
     test('should generate tagpr.yml for devcode project', async () => {
-      const actionVersions = await getLatestActionVersions();
+      const actionVersions = await githubUtils.getLatestActionVersions();
       const result = await generateTagprWorkflow(
         {
           projectName: 'test-devcode',
@@ -246,7 +328,7 @@ describe('project generator', () => {
 
       expect(result.path).toBe('.github/workflows/tagpr.yml');
       expect(result.content).toContain(
-        'GITHUB_TOKEN: ${{ secrets.GITHUB_TOKEN }}',
+        `GITHUB_TOKEN: \${{ secrets.GITHUB_TOKEN }}`,
       );
       expect(result.content).toContain('# TODO: After replace-devcode');
 
@@ -260,7 +342,7 @@ describe('project generator', () => {
     });
 
     test('should generate tagpr.yml for production project', async () => {
-      const actionVersions = await getLatestActionVersions();
+      const actionVersions = await githubUtils.getLatestActionVersions();
       const result = await generateTagprWorkflow(
         {
           projectName: 'test-prod',
@@ -272,7 +354,7 @@ describe('project generator', () => {
 
       expect(result.path).toBe('.github/workflows/tagpr.yml');
       expect(result.content).toContain(
-        'GITHUB_TOKEN: ${{ secrets.PAT_FOR_TAGPR }}',
+        `GITHUB_TOKEN: \${{ secrets.PAT_FOR_TAGPR }}`,
       );
       expect(result.content).not.toContain('# TODO: After replace-devcode');
 
@@ -289,6 +371,7 @@ describe('project generator', () => {
   describe('generateProject', () => {
     let getNpmUsernameSpy: ReturnType<typeof spyOn>;
     let getLatestVersionsSpy: ReturnType<typeof spyOn>;
+    let getLatestActionVersionsSpy: ReturnType<typeof spyOn>;
 
     beforeEach(() => {
       getNpmUsernameSpy = spyOn(npmUtils, 'getNpmUsername').mockResolvedValue(
@@ -305,11 +388,16 @@ describe('project generator', () => {
         husky: '1.0.0',
         typescript: '1.0.0',
       });
+      getLatestActionVersionsSpy = spyOn(
+        githubUtils,
+        'getLatestActionVersions',
+      ).mockResolvedValue({ ...githubUtils.GITHUB_ACTIONS });
     });
 
     afterEach(() => {
       getNpmUsernameSpy.mockRestore();
       getLatestVersionsSpy.mockRestore();
+      getLatestActionVersionsSpy.mockRestore();
     });
 
     test('should throw for invalid project name', async () => {
@@ -340,6 +428,25 @@ describe('project generator', () => {
       expect(pkg.author).toBe('mocked-user');
     });
 
+    test('should name the detected author in LICENSE', async () => {
+      const projectDir = path.join(testDir, 'devcode-x');
+
+      await generateProject({
+        projectName: 'devcode-x',
+        lang: 'typescript',
+        isDevcode: true,
+        targetDir: projectDir,
+      });
+
+      const license = await fs.readFile(
+        path.join(projectDir, 'LICENSE'),
+        'utf-8',
+      );
+      expect(license).toContain('mocked-user');
+      expect(license).not.toContain('devcode-x');
+      expect(getNpmUsernameSpy).toHaveBeenCalledTimes(1);
+    });
+
     test('should generate all expected files', async () => {
       const projectDir = path.join(testDir, 'full-project');
 
@@ -355,8 +462,51 @@ describe('project generator', () => {
       expect(files).toContain('package.json');
       expect(files).toContain('tsconfig.json');
       expect(files).toContain('.tagpr');
+      expect(files).toContain('.gitignore');
+      expect(files).toContain('README.md');
+      expect(files).toContain('LICENSE');
       expect(files).toContain(path.join('src', 'index.ts'));
       expect(files).toContain(path.join('.github', 'workflows', 'tagpr.yml'));
     });
+
+    test('should record options, versions and rendered files in the manifest', async () => {
+      const projectDir = path.join(testDir, 'manifest-project');
+
+      // init passes its runtime flags along with the options
+      const initOptions = {
+        projectName: 'manifest-project',
+        lang: 'typescript',
+        isDevcode: false,
+        targetDir: projectDir,
+        conflictStrategy: 'force',
+        createRepo: true,
+        isPrivate: false,
+        install: false,
+        dryRun: false,
+      } as const;
+      await generateProject(initOptions);
+
+      const manifest = JSON.parse(
+        await fs.readFile(
+          path.join(projectDir, '.github', 'initrepo.json'),
+          'utf-8',
+        ),
+      );
+      expect(manifest.manifestVersion).toBe(1);
+      expect(manifest.options).toEqual({
+        projectName: 'manifest-project',
+        lang: 'typescript',
+        isDevcode: false,
+        author: 'mocked-user',
+      });
+      expect(manifest.versions.typescript).toBe('1.0.0');
+      expect(manifest.files['.github/workflows/ci.yml']).toBe(
+        await fs.readFile(
+          path.join(projectDir, '.github', 'workflows', 'ci.yml'),
+          'utf-8',
+        ),
+      );
+      expect(manifest.files['.github/initrepo.json']).toBeUndefined();
+    });
   });
 });
@@ -1,108 +1,41 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import ejs from 'ejs';
-import type { InitOptions } from '../types';
+import type { ConflictStrategy, InitOptions } from '../types';
+import { createUnifiedDiff } from '../utils/diff';
 import { getLatestActionVersions } from '../utils/github';
-import { getLatestVersions, getNpmUsername } from '../utils/npm';
-import { EMBEDDED_TEMPLATES } from './embedded-templates';
-
-const DEV_DEPENDENCIES = [
-  '@biomejs/biome',
-  '@commitlint/cli',
-  '@commitlint/config-conventional',
-  'bun-types',
-  'husky',
-  'typescript',
-];
-
-export interface GeneratedFile {
-  path: string;
-  content: string;
-}
-
-export class TemplateError extends Error {
-  constructor(
-    message: string,
-    public readonly templatePath: string,
-    public readonly cause?: Error,
-  ) {
-    super(message);
-    this.name = 'TemplateError';
-  }
-}
+import { mergeJson } from '../utils/json-merge';
+import { getLanguageActions, getLanguageGenerator } from './languages';
+import { generateLicenseFile } from './licenses';
+import { generateManifest } from './manifest';
+import {
+  formatPackageManagerField,
+  getPackageManager,
+} from './package-managers';
+import { generateReadme } from './readme';
+import { type GeneratedFile, loadTemplate } from './templates';
+import { resolveTooling } from './tooling';
+import {
+  generateWorkspaceTagprConfig,
+  getMemberDir,
+  getWorkspaceFiles,
+} from './workspace';
 
-export function loadTemplate(
-  templatePath: string,
-  data: Record<string, unknown>,
-): string {
-  // Normalize path separators
-  const normalizedPath = templatePath.replace(/\\/g, '/');
-
-  const template = EMBEDDED_TEMPLATES[normalizedPath];
-  if (!template) {
-    throw new TemplateError(
-      `Template not found: "${templatePath}"`,
-      templatePath,
-    );
-  }
-
-  try {
-    return ejs.render(template, data);
-  } catch (error) {
-    const renderError = error as Error;
-    throw new TemplateError(
-      `Failed to render template "${templatePath}": ${renderError.message}`,
-      templatePath,
-      renderError,
-    );
-  }
-}
-
-export async function generatePackageJson(
-  options: InitOptions,
-): Promise<GeneratedFile> {
-  try {
-    const [versions, detectedAuthor] = await Promise.all([
-      getLatestVersions(DEV_DEPENDENCIES),
-      options.author ? Promise.resolve(options.author) : getNpmUsername(),
-    ]);
-    const author = detectedAuthor ?? '';
-    const templatePath = `${options.lang}/package.json.ejs`;
-    const content = loadTemplate(templatePath, {
-      name: options.projectName,
-      isDevcode: options.isDevcode,
-      author,
-      versions,
-    });
-    return { path: 'package.json', content };
-  } catch (error) {
-    throw new Error(
-      `Failed to generate package.json: ${error instanceof Error ? error.message : String(error)}`,
-    );
-  }
-}
-
-export async function generateTsconfig(
-  options: InitOptions,
-): Promise<GeneratedFile> {
-  const content = loadTemplate(`${options.lang}/tsconfig.json.ejs`, {});
-  return { path: 'tsconfig.json', content };
-}
-
-export async function generateEntryPoint(
+export async function generateTagprConfig(
   options: InitOptions,
 ): Promise<GeneratedFile> {
-  const content = loadTemplate(`${options.lang}/src/index.ts.ejs`, {
-    name: options.projectName,
-  });
-  return { path: 'src/index.ts', content };
+  const content = loadTemplate(`${options.lang}/.tagpr.ejs`, {});
+  return { path: '.tagpr', content };
 }
 
-export async function generateTagprConfig(
+/**
+ * .gitignore for the language's dependencies and build output, so the
+ * install before the initial commit leaves nothing to commit by accident
+ */
+export async function generateGitignore(
   options: InitOptions,
 ): Promise<GeneratedFile> {
-  const content = loadTemplate(`${options.lang}/.tagpr.ejs`, {});
-  return { path: '.tagpr', content };
+  const content = loadTemplate(`${options.lang}/.gitignore.ejs`, {});
+  return { path: '.gitignore', content };
 }
 
 export async function generateTagprWorkflow(
@@ -119,9 +52,18 @@ export async function generateTagprWorkflow(
 export async function generateCiWorkflow(
   options: InitOptions,
   actionVersions: Record<string, string>,
+  versions: Record<string, string> = {},
 ): Promise<GeneratedFile> {
+  const pm = getPackageManager(options.packageManager);
   const content = loadTemplate(`${options.lang}/workflows/ci.yml.ejs`, {
     actionVersions,
+    tooling: resolveTooling(options),
+    workspaces: options.workspaces ?? false,
+    pm,
+    packageManagerField: formatPackageManagerField(
+      pm,
+      versions[pm.packageName],
+    ),
   });
   return { path: '.github/workflows/ci.yml', content };
 }
@@ -149,7 +91,7 @@ export async function generateDependabot(
   options: InitOptions,
 ): Promise<GeneratedFile> {
   const content = loadTemplate('common/dependabot.yml.ejs', {
-    lang: options.lang,
+    ecosystem: getLanguageGenerator(options.lang).dependabotEcosystem,
   });
   return { path: '.github/dependabot.yml', content };
 }
@@ -159,23 +101,235 @@ export async function generateReleaseConfig(): Promise<GeneratedFile> {
   return { path: '.github/release.yml', content };
 }
 
+/**
+ * Project-local .initreporc recording choices that later commands must keep
+ * (e.g., prepare-release regenerating workflows with SHA-pinned actions).
+ * Returns null when every choice is the default.
+ */
+export async function generateProjectConfig(
+  options: InitOptions,
+): Promise<GeneratedFile | null> {
+  if (options.pinActions !== 'sha') {
+    return null;
+  }
+  const content = `${JSON.stringify({ pinActions: options.pinActions }, null, 2)}\n`;
+  return { path: '.initreporc', content };
+}
+
 export class FileWriteError extends Error {
   constructor(
     message: string,
     public readonly targetPath: string,
     public readonly cause?: Error,
+    /** What was undone before the error was thrown */
+    public readonly rolledBack: string[] = [],
   ) {
-    super(message);
+    super(
+      rolledBack.length > 0
+        ? `${message}\nRolled back:\n${rolledBack.map((item) => `  - ${item}`).join('\n')}`
+        : message,
+    );
     this.name = 'FileWriteError';
   }
 }
 
-export async function writeGeneratedFiles(
+export type FileWriteAction =
+  | 'created'
+  | 'unchanged'
+  | 'overwritten'
+  | 'skipped'
+  | 'merged';
+
+export interface FileWriteResult {
+  path: string;
+  action: FileWriteAction;
+  /** Diff from the existing file to the generated one, for files kept by --merge */
+  diff?: string;
+}
+
+export class FileConflictError extends Error {
+  constructor(
+    public readonly targetDir: string,
+    public readonly conflicts: string[],
+  ) {
+    super(
+      `Target directory "${targetDir}" already contains files that would be overwritten:\n${conflicts.map((file) => `  - ${file}`).join('\n')}\nUse --force to overwrite, --skip-existing to keep them, or --merge to merge them.`,
+    );
+    this.name = 'FileConflictError';
+  }
+}
+
+async function readExistingFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    const fsError = error as NodeJS.ErrnoException;
+    if (fsError.code === 'ENOENT') {
+      return null;
+    }
+    throw new FileWriteError(
+      `Failed to read existing file "${filePath}": ${fsError.message}`,
+      filePath,
+      fsError,
+    );
+  }
+}
+
+/**
+ * Merges a generated file into an existing one
+ * JSON files are deep-merged (existing values win); other files are kept
+ * as they are and the difference is reported instead
+ */
+function mergeExistingFile(
+  file: GeneratedFile,
+  existing: string,
+): { content: string | null; diff?: string } {
+  if (file.path.endsWith('.json')) {
+    try {
+      const merged = mergeJson(JSON.parse(existing), JSON.parse(file.content));
+      return { content: `${JSON.stringify(merged, null, 2)}\n` };
+    } catch {
+      // Not plain JSON (e.g., comments); fall back to reporting a diff
+    }
+  }
+  return {
+    content: null,
+    diff: createUnifiedDiff(
+      existing,
+      file.content,
+      `${file.path} (existing)`,
+      `${file.path} (generated)`,
+    ),
+  };
+}
+
+interface PlannedWrite {
+  file: GeneratedFile;
+  result: FileWriteResult;
+  /** Content to write, or null to leave the file untouched */
+  content: string | null;
+  /** Content before this run, or null if the file did not exist */
+  existing: string | null;
+}
+
+async function planWrite(
+  targetDir: string,
+  file: GeneratedFile,
+  strategy: ConflictStrategy,
+): Promise<PlannedWrite> {
+  const existing = await readExistingFile(path.join(targetDir, file.path));
+
+  if (existing === null) {
+    return {
+      file,
+      result: { path: file.path, action: 'created' },
+      content: file.content,
+      existing,
+    };
+  }
+  if (existing === file.content) {
+    return {
+      file,
+      result: { path: file.path, action: 'unchanged' },
+      content: null,
+      existing,
+    };
+  }
+
+  switch (strategy) {
+    case 'force':
+      return {
+        file,
+        result: { path: file.path, action: 'overwritten' },
+        content: file.content,
+        existing,
+      };
+    case 'merge': {
+      const { content, diff } = mergeExistingFile(file, existing);
+      if (content === null || content === existing) {
+        return {
+          file,
+          result: {
+            path: file.path,
+            action: content === null ? 'skipped' : 'unchanged',
+            diff,
+          },
+          content: null,
+          existing,
+        };
+      }
+      return {
+        file,
+        result: { path: file.path, action: 'merged' },
+        content,
+        existing,
+      };
+    }
+    default:
+      return {
+        file,
+        result: { path: file.path, action: 'skipped' },
+        content: null,
+        existing,
+      };
+  }
+}
+
+async function pathExists(targetPath: string): Promise<boolean> {
+  try {
+    await fs.access(targetPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface AppliedFiles {
+  results: FileWriteResult[];
+  /**
+   * Undoes this run: removes a newly created target directory, or restores
+   * overwritten files and removes created ones. Returns what was undone.
+   */
+  rollback: () => Promise<string[]>;
+}
+
+/**
+ * Writes files into a staging directory next to targetDir, then moves them
+ * into place. A new target directory is moved with a single rename; an
+ * existing one receives the files one by one and is restored on failure.
+ */
+export async function applyGeneratedFiles(
   targetDir: string,
   files: GeneratedFile[],
-): Promise<void> {
+  strategy: ConflictStrategy = 'error',
+): Promise<AppliedFiles> {
+  const plans = await Promise.all(
+    files.map((file) => planWrite(targetDir, file, strategy)),
+  );
+
+  if (strategy === 'error') {
+    const conflicts = plans
+      .filter((plan) => plan.result.action === 'skipped')
+      .map((plan) => plan.file.path);
+    if (conflicts.length > 0) {
+      throw new FileConflictError(targetDir, conflicts);
+    }
+  }
+
+  const writes = plans.filter((plan) => plan.content !== null);
+  const results = plans.map((plan) => plan.result);
+  const targetExisted = await pathExists(targetDir);
+  const parentDir = path.dirname(path.resolve(targetDir));
+
+  let createdParent: string | undefined;
+  let stagingDir: string;
   try {
-    await fs.mkdir(targetDir, { recursive: true });
+    createdParent = await fs.mkdir(parentDir, { recursive: true });
+    stagingDir = await fs.mkdtemp(
+      path.join(parentDir, `.${path.basename(targetDir)}.initrepo-`),
+    );
+    // mkdtemp creates 0700; a new target directory gets the usual umask mode
+    await fs.chmod(stagingDir, 0o777 & ~process.umask());
   } catch (error) {
     const fsError = error as NodeJS.ErrnoException;
     throw new FileWriteError(
@@ -185,24 +339,114 @@ export async function writeGeneratedFiles(
     );
   }
 
-  for (const file of files) {
-    const filePath = path.join(targetDir, file.path);
-    const fileDir = path.dirname(filePath);
+  const removeStaging = () =>
+    fs.rm(stagingDir, { recursive: true, force: true });
+
+  for (const { file, content } of writes) {
+    const filePath = path.join(stagingDir, file.path);
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content as string, 'utf-8');
+    } catch (error) {
+      const fsError = error as NodeJS.ErrnoException;
+      await removeStaging();
+      throw new FileWriteError(
+        `Failed to write file "${file.path}" in "${targetDir}": ${fsError.message}`,
+        path.join(targetDir, file.path),
+        fsError,
+        [`discarded staged files (nothing was written to "${targetDir}")`],
+      );
+    }
+  }
 
+  if (!targetExisted) {
     try {
-      if (fileDir !== targetDir) {
-        await fs.mkdir(fileDir, { recursive: true });
+      await fs.rename(stagingDir, targetDir);
+    } catch (error) {
+      const fsError = error as NodeJS.ErrnoException;
+      await removeStaging();
+      throw new FileWriteError(
+        `Failed to move generated files into "${targetDir}": ${fsError.message}`,
+        targetDir,
+        fsError,
+        [`discarded staged files (nothing was written to "${targetDir}")`],
+      );
+    }
+
+    const removedDir = createdParent ?? targetDir;
+    return {
+      results,
+      rollback: async () => {
+        await fs.rm(removedDir, { recursive: true, force: true });
+        return [`removed ${removedDir}`];
+      },
+    };
+  }
+
+  // Existing target: move staged files in one by one, remembering how to undo
+  const undo: Array<{ description: string; run: () => Promise<void> }> = [];
+  const rollback = async (): Promise<string[]> => {
+    const done: string[] = [];
+    for (const step of undo.reverse()) {
+      await step.run();
+      done.push(step.description);
+    }
+    return done;
+  };
+
+  for (const { file, existing } of writes) {
+    const filePath = path.join(targetDir, file.path);
+    try {
+      const createdDir = await fs.mkdir(path.dirname(filePath), {
+        recursive: true,
+      });
+      if (createdDir) {
+        undo.push({
+          description: `removed ${path.relative(targetDir, createdDir)}/`,
+          run: () => fs.rm(createdDir, { recursive: true, force: true }),
+        });
       }
-      await fs.writeFile(filePath, file.content, 'utf-8');
+      await fs.rename(path.join(stagingDir, file.path), filePath);
+      undo.push(
+        existing === null
+          ? {
+              description: `removed ${file.path}`,
+              run: () => fs.rm(filePath, { force: true }),
+            }
+          : {
+              description: `restored ${file.path}`,
+              run: () => fs.writeFile(filePath, existing, 'utf-8'),
+            },
+      );
     } catch (error) {
       const fsError = error as NodeJS.ErrnoException;
+      const rolledBack = await rollback();
+      await removeStaging();
       throw new FileWriteError(
         `Failed to write file "${file.path}" in "${targetDir}": ${fsError.message}`,
         filePath,
         fsError,
+        rolledBack,
       );
     }
   }
+
+  await removeStaging();
+  return { results, rollback };
+}
+
+/**
+ * Writes generated files into targetDir
+ * Existing files are handled according to strategy; with 'error' (default)
+ * nothing is written if any generated file would replace an existing one.
+ */
+export async function writeGeneratedFiles(
+  targetDir: string,
+  files: GeneratedFile[],
+  strategy: ConflictStrategy = 'error',
+): Promise<FileWriteResult[]> {
+  const { results } = await applyGeneratedFiles(targetDir, files, strategy);
+  return results;
 }
 
 export class ProjectNameError extends Error {
@@ -245,29 +489,105 @@ export function validateProjectName(projectName: string): void {
   }
 }
 
-export async function generateProject(options: InitOptions): Promise<void> {
-  validateProjectName(options.projectName);
+export interface RenderedProject {
+  /** Directory the files are written to */
+  outputDir: string;
+  files: GeneratedFile[];
+  /** Resolved dependency versions (package name -> version) */
+  versions: Record<string, string>;
+  /** Resolved GitHub Actions versions (action -> version) */
+  actionVersions: Record<string, string>;
+}
+
+/**
+ * Resolves versions and renders every project file without touching disk
+ * Passing resolved versions skips resolution, so a project can be
+ * re-rendered with the versions it was created with (see sync).
+ */
+export async function renderProject(
+  initOptions: InitOptions,
+  resolved?: Pick<RenderedProject, 'versions' | 'actionVersions'>,
+): Promise<RenderedProject> {
+  validateProjectName(initOptions.projectName);
+  if (initOptions.workspaces && initOptions.lang !== 'typescript') {
+    throw new Error('Workspaces are only supported for TypeScript projects');
+  }
 
+  const generator = getLanguageGenerator(initOptions.lang);
+  // Detected once, so package.json, LICENSE and the manifest name the same author
+  const options: InitOptions = {
+    ...initOptions,
+    author:
+      initOptions.author ?? (await generator.detectAuthor?.()) ?? undefined,
+  };
   const outputDir = options.targetDir ?? options.projectName;
-  const actionVersions = await getLatestActionVersions();
-
-  const files: GeneratedFile[] = await Promise.all([
-    generatePackageJson(options),
-    generateTsconfig(options),
-    generateEntryPoint(options),
-    generateTagprConfig(options),
-    generateTagprWorkflow(options, actionVersions),
-    generateCiWorkflow(options, actionVersions),
-    generateCodeqlWorkflow(options, actionVersions),
-    generateCodeqlConfig(options),
-    generateDependabot(options),
-    generateReleaseConfig(),
+  const [actionVersions, versions] = resolved
+    ? [resolved.actionVersions, resolved.versions]
+    : await Promise.all([
+        getLatestActionVersions(
+          getLanguageActions(options),
+          options.pinActions,
+        ),
+        generator.resolveVersions(options),
+      ]);
+
+  const context = { versions, actionVersions };
+  const [languageFiles, commonFiles] = await Promise.all([
+    options.workspaces
+      ? getWorkspaceFiles(options, context)
+      : Promise.all(generator.getFiles(options, context)),
+    Promise.all([
+      options.workspaces
+        ? generateWorkspaceTagprConfig(options, [
+            `${getMemberDir(options.projectName)}/package.json`,
+          ])
+        : generateTagprConfig(options),
+      generateGitignore(options),
+      generateTagprWorkflow(options, actionVersions),
+      generateCiWorkflow(options, actionVersions, versions),
+      generateCodeqlWorkflow(options, actionVersions),
+      generateCodeqlConfig(options),
+      generateDependabot(options),
+      generateReleaseConfig(),
+      generateLicenseFile(options),
+      generateReadme(options),
+    ]),
   ]);
+  const projectConfig = await generateProjectConfig(options);
+  const files = [
+    ...languageFiles,
+    ...commonFiles,
+    ...(projectConfig ? [projectConfig] : []),
+  ];
+
+  return {
+    outputDir,
+    files: [
+      ...files,
+      generateManifest(options, { files, versions, actionVersions }),
+    ],
+    versions,
+    actionVersions,
+  };
+}
+
+/**
+ * Renders and writes the project
+ * The returned rollback undoes the writes if a later step fails.
+ */
+export async function generateProject(
+  options: InitOptions,
+): Promise<AppliedFiles> {
+  const { outputDir, files } = await renderProject(options);
 
   try {
-    await writeGeneratedFiles(outputDir, files);
+    return await applyGeneratedFiles(
+      outputDir,
+      files,
+      options.conflictStrategy,
+    );
   } catch (error) {
-    if (error instanceof FileWriteError) {
+    if (error instanceof FileWriteError || error instanceof FileConflictError) {
       throw error;
     }
     throw new FileWriteError(
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { getPackageManager } from './package-managers';
+import { renderReadme, replaceInReadme } from './readme';
+
+describe('readme generator', () => {
+  test('should show the devcode notice and workflow badges', () => {
+    const content = renderReadme({
+      name: 'my-devcode',
+      lang: 'typescript',
+      isDevcode: true,
+      owner: 'alice',
+      repoName: 'my-devcode',
+      pm: getPackageManager('pnpm'),
+    });
+
+    expect(content).toStartWith('# my-devcode\n');
+    expect(content).toContain('`my-devcode` is a development codename');
+    expect(content).toContain(
+      'https://github.com/alice/my-devcode/actions/workflows/ci.yml/badge.svg',
+    );
+    expect(content).toContain('workflows/codeql.yml/badge.svg');
+    expect(content).toContain('workflows/tagpr.yml/badge.svg');
+    expect(content).not.toContain('img.shields.io/npm');
+    expect(content).toContain('pnpm install\npnpm run dev\npnpm test');
+  });
+
+  test('should omit workflow badges without an owner', () => {
+    const content = renderReadme({
+      name: 'my-crate',
+      lang: 'rust',
+      isDevcode: false,
+      owner: null,
+      repoName: 'my-crate',
+      pm: getPackageManager(),
+    });
+
+    expect(content).not.toContain('actions/workflows');
+    expect(content).toContain('https://img.shields.io/crates/v/my-crate');
+    expect(content).toContain('cargo add my-crate');
+  });
+
+  describe('replaceInReadme', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'initrepo-readme-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    test('should switch to the publish name and keep user edits', async () => {
+      const generated = renderReadme({
+        name: 'my-devcode',
+        lang: 'typescript',
+        isDevcode: true,
+        owner: 'alice',
+        repoName: 'my-devcode',
+        pm: getPackageManager('npm'),
+      });
+      await fs.writeFile(
+        path.join(testDir, 'README.md'),
+        generated.replace(
+          '## Development',
+          'Notes about my-devcode.\n\n## Development',
+        ),
+      );
+      await fs.writeFile(path.join(testDir, 'package-lock.json'), '{}');
+
+      await replaceInReadme(testDir, 'typescript', 'my-devcode', 'my-package');
+
+      const content = await fs.readFile(
+        path.join(testDir, 'README.md'),
+        'utf-8',
+      );
+      expect(content).toStartWith('# my-package\n');
+      expect(content).not.toContain('development codename');
+      expect(content).toContain(
+        '[![npm](https://img.shields.io/npm/v/my-package)](https://www.npmjs.com/package/my-package)',
+      );
+      expect(content).toContain('npm install my-package');
+      // The repository keeps its name
+      expect(content).toContain('github.com/alice/my-devcode/actions');
+      expect(content).toContain('Notes about my-devcode.');
+    });
+
+    test('should do nothing without a README', async () => {
+      await replaceInReadme(testDir, 'typescript', 'my-devcode', 'my-package');
+
+      expect(await fs.readdir(testDir)).toEqual([]);
+    });
+  });
+});
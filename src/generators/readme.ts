@@ -0,0 +1,145 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { InitOptions, Language } from '../types';
+import { getGitHubLogin } from '../utils/github-repo';
+import { stripScope } from '../utils/project-name';
+import { toCrateName } from './languages/rust';
+import {
+  detectPackageManager,
+  getPackageManager,
+  type PackageManagerConfig,
+} from './package-managers';
+import { type GeneratedFile, loadTemplate } from './templates';
+
+/**
+ * Sections between <!-- initrepo:NAME --> markers that prepare-release
+ * regenerates. Everything outside them is left as the user wrote it.
+ */
+const MANAGED_SECTIONS = ['badges', 'notice', 'install'] as const;
+
+/** Badge links look like https://github.com/<owner>/<repo>/actions/... */
+const REPO_BADGE_REGEX = /github\.com\/([\w.-]+)\/([\w.-]+)\/actions\//;
+
+export interface ReadmeOptions {
+  name: string;
+  lang: Language;
+  isDevcode: boolean;
+  /** GitHub owner; workflow badges are omitted when unknown */
+  owner: string | null;
+  /** GitHub repository name */
+  repoName: string;
+  pm: PackageManagerConfig;
+}
+
+/**
+ * Name users install the package by
+ */
+function getPackageName(name: string, lang: Language): string {
+  switch (lang) {
+    case 'rust':
+      return toCrateName(name);
+    case 'go':
+      return stripScope(name);
+    default:
+      return name;
+  }
+}
+
+export function renderReadme(options: ReadmeOptions): string {
+  const { name, lang, owner } = options;
+  return loadTemplate('common/README.md.ejs', {
+    name,
+    lang,
+    isDevcode: options.isDevcode,
+    repo: owner ? `${owner}/${options.repoName}` : null,
+    packageName: getPackageName(name, lang),
+    modulePath: owner ? `github.com/${owner}/${stripScope(name)}` : null,
+    pm: options.pm,
+  });
+}
+
+export async function generateReadme(
+  options: InitOptions,
+): Promise<GeneratedFile> {
+  const content = renderReadme({
+    name: options.projectName,
+    lang: options.lang,
+    isDevcode: options.isDevcode,
+    owner: options.owner ?? (await getGitHubLogin()),
+    repoName: stripScope(options.projectName),
+    pm: getPackageManager(options.packageManager),
+  });
+  return { path: 'README.md', content };
+}
+
+/**
+ * Returns the text between a section's markers, or null if either is missing
+ */
+function findSection(
+  content: string,
+  section: string,
+): { start: number; end: number } | null {
+  const open = `<!-- initrepo:${section} -->`;
+  const start = content.indexOf(open);
+  const end = content.indexOf(`<!-- /initrepo:${section} -->`, start);
+  if (start === -1 || end === -1) {
+    return null;
+  }
+  return { start: start + open.length, end };
+}
+
+/**
+ * Updates README.md for release: renames the title, drops the devcode
+ * notice and regenerates the badges and install sections
+ * This is a MANAGED replacement - only touches the title and marked sections
+ */
+export async function replaceInReadme(
+  targetDir: string,
+  lang: Language,
+  devcode: string,
+  publishName: string,
+): Promise<void> {
+  const readmePath = path.join(targetDir, 'README.md');
+
+  let content: string;
+  try {
+    content = await fs.readFile(readmePath, 'utf-8');
+  } catch (error) {
+    const fsError = error as NodeJS.ErrnoException;
+    if (fsError.code === 'ENOENT') {
+      return; // File doesn't exist, nothing to do
+    }
+    throw error;
+  }
+
+  // The repository keeps its name; only the package is renamed
+  const repoMatch = content.match(REPO_BADGE_REGEX);
+  const { name: pmName } = await detectPackageManager(targetDir);
+  const rendered = renderReadme({
+    name: publishName,
+    lang,
+    isDevcode: false,
+    owner: repoMatch?.[1] ?? null,
+    repoName: repoMatch?.[2] ?? publishName,
+    pm: getPackageManager(pmName),
+  });
+
+  for (const section of MANAGED_SECTIONS) {
+    const existing = findSection(content, section);
+    const replacement = findSection(rendered, section);
+    if (existing && replacement) {
+      content =
+        content.slice(0, existing.start) +
+        rendered.slice(replacement.start, replacement.end) +
+        content.slice(existing.end);
+    }
+  }
+
+  const lines = content.split('\n');
+  const titleIndex = lines.findIndex((line) => line.startsWith('# '));
+  if (titleIndex !== -1) {
+    lines[titleIndex] = lines[titleIndex].replace(devcode, publishName);
+  }
+
+  await fs.writeFile(readmePath, lines.join('\n'), 'utf-8');
+}
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { DEFAULT_TOOLING } from '../config';
+import { getPackageManager } from './package-managers';
+import {
+  getTemplateLayers,
+  listTemplates,
+  loadTemplate,
+  loadTemplateLayers,
+  TemplateError,
+} from './templates';
+
+describe('templates', () => {
+  describe('loadTemplate', () => {
+    test('should throw TemplateError for path traversal attempt', () => {
+      // With embedded templates, path traversal simply results in "not found"
+      expect(() => loadTemplate('../../../etc/passwd', {})).toThrow(
+        TemplateError,
+      );
+      expect(() => loadTemplate('../../../etc/passwd', {})).toThrow(
+        'Template not found',
+      );
+    });
+
+    test('should throw TemplateError for non-existent template', () => {
+      expect(() => loadTemplate('non-existent.ejs', {})).toThrow(TemplateError);
+      expect(() => loadTemplate('non-existent.ejs', {})).toThrow(
+        'Template not found',
+      );
+    });
+
+    test('should load and render valid template', () => {
+      const result = loadTemplate('typescript/package.json.ejs', {
+        name: 'test',
+        binName: 'test',
+        kind: 'library',
+        scripts: { build: 'tsc' },
+        author: '',
+        license: 'MIT',
+        isDevcode: false,
+        tooling: DEFAULT_TOOLING,
+        pm: getPackageManager(),
+        packageManagerField: null,
+        dependencies: [],
+        devDependencies: [
+          ['bun-types', '^1.0.0'],
+          ['typescript', '^1.0.0'],
+        ],
+      });
+
+      expect(result).toContain('"name": "test"');
+    });
+  });
+
+  describe('template layers', () => {
+    const testDir = path.join(import.meta.dir, '../../.test-templates');
+    const projectLayer = path.join(testDir, 'project');
+    const cliLayer = path.join(testDir, 'cli');
+
+    async function writeTemplate(dir: string, key: string, content: string) {
+      const filePath = path.join(dir, key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content);
+    }
+
+    beforeEach(async () => {
+      await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    afterEach(async () => {
+      await loadTemplateLayers([]);
+      await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    test('should shadow embedded templates by relative key', async () => {
+      await writeTemplate(
+        cliLayer,
+        'common/release.yml.ejs',
+        'custom release for <%= name %>',
+      );
+      await loadTemplateLayers([{ name: '--templates', dir: cliLayer }]);
+
+      expect(loadTemplate('common/release.yml.ejs', { name: 'x' })).toBe(
+        'custom release for x',
+      );
+    });
+
+    test('should add templates that are not embedded', async () => {
+      await writeTemplate(cliLayer, 'extra/notes.md.ejs', 'notes');
+      await loadTemplateLayers([{ name: '--templates', dir: cliLayer }]);
+
+      expect(loadTemplate('extra/notes.md.ejs', {})).toBe('notes');
+    });
+
+    test('should prefer earlier layers in the search path', async () => {
+      await writeTemplate(projectLayer, 'common/release.yml.ejs', 'project');
+      await writeTemplate(cliLayer, 'common/release.yml.ejs', 'cli');
+      await loadTemplateLayers([
+        { name: '--templates', dir: cliLayer },
+        { name: 'project', dir: projectLayer },
+      ]);
+
+      expect(loadTemplate('common/release.yml.ejs', {})).toBe('cli');
+    });
+
+    test('should skip missing optional layers but reject a missing --templates dir', async () => {
+      await loadTemplateLayers([
+        { name: 'project', dir: path.join(testDir, 'missing') },
+      ]);
+      expect(loadTemplate('common/release.yml.ejs', {})).toContain('changelog');
+
+      expect(
+        loadTemplateLayers([
+          {
+            name: '--templates',
+            dir: path.join(testDir, 'missing'),
+            required: true,
+          },
+        ]),
+      ).rejects.toThrow(TemplateError);
+    });
+
+    test('should list the layer each template comes from', async () => {
+      await writeTemplate(projectLayer, 'common/release.yml.ejs', 'project');
+      await loadTemplateLayers([{ name: 'project', dir: projectLayer }]);
+
+      const templates = listTemplates();
+      expect(templates.find((t) => t.key === 'common/release.yml.ejs')).toEqual(
+        {
+          key: 'common/release.yml.ejs',
+          layer: 'project',
+          filePath: path.join(projectLayer, 'common/release.yml.ejs'),
+        },
+      );
+      expect(
+        templates.find((t) => t.key === 'common/dependabot.yml.ejs')?.layer,
+      ).toBe('embedded');
+    });
+
+    test('getTemplateLayers should order --templates, project, then user', () => {
+      const layers = getTemplateLayers({
+        projectDir: '/work/repo',
+        templatesDir: '/tmp/templates',
+      });
+
+      expect(layers.map((l) => l.name)).toEqual([
+        '--templates',
+        'project',
+        'user',
+      ]);
+      expect(layers[0].dir).toBe(path.resolve('/tmp/templates'));
+      expect(layers[0].required).toBe(true);
+      expect(layers[1].dir).toBe(
+        path.join('/work/repo', '.initrepo/templates'),
+      );
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import ejs from 'ejs';
+import { EMBEDDED_TEMPLATES } from './embedded-templates';
+
+export interface GeneratedFile {
+  path: string;
+  content: string;
+  /** Sample source the user owns after init: written once, never synced */
+  scaffold?: boolean;
+}
+
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly templatePath: string,
+    public readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * A directory of user templates that can shadow or add embedded templates
+ */
+export interface TemplateLayer {
+  /** Layer name shown by `initrepo templates` (e.g., "project") */
+  name: string;
+  dir: string;
+  /** If true, a missing directory is an error instead of an empty layer */
+  required?: boolean;
+}
+
+export interface ResolvedTemplate {
+  /** Template key relative to the templates root (e.g., "typescript/workflows/ci.yml.ejs") */
+  key: string;
+  /** Name of the layer that provides the template, or "embedded" */
+  layer: string;
+  /** File path for templates loaded from a layer */
+  filePath?: string;
+}
+
+interface LayerTemplate extends ResolvedTemplate {
+  content: string;
+}
+
+/** Templates loaded from user layers, keyed by template key */
+let layerTemplates = new Map<string, LayerTemplate>();
+
+export interface TemplateSearchOptions {
+  /** Directory holding the project-local `.initrepo/templates` (defaults to cwd) */
+  projectDir?: string;
+  /** Directory passed with `--templates` */
+  templatesDir?: string;
+}
+
+/**
+ * Returns the template search path, in lookup order:
+ * `--templates <dir>`, project-local `.initrepo/templates/`, then `~/.config/initrepo/templates/`.
+ * Embedded templates are always the last fallback.
+ */
+export function getTemplateLayers(
+  options: TemplateSearchOptions = {},
+): TemplateLayer[] {
+  const configHome =
+    process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  const layers: TemplateLayer[] = [
+    {
+      name: 'project',
+      dir: path.join(
+        options.projectDir ?? process.cwd(),
+        '.initrepo/templates',
+      ),
+    },
+    { name: 'user', dir: path.join(configHome, 'initrepo/templates') },
+  ];
+  if (options.templatesDir) {
+    layers.unshift({
+      name: '--templates',
+      dir: path.resolve(options.templatesDir),
+      required: true,
+    });
+  }
+  return layers;
+}
+
+async function findTemplateFiles(
+  dir: string,
+  basePath = '',
+): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const relativePath = basePath ? `${basePath}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(
+        ...(await findTemplateFiles(path.join(dir, entry.name), relativePath)),
+      );
+    } else if (entry.name.endsWith('.ejs')) {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Loads user template layers so that loadTemplate() can stay synchronous.
+ * Earlier layers shadow later ones; calling again replaces all loaded layers.
+ */
+export async function loadTemplateLayers(
+  layers: TemplateLayer[],
+): Promise<void> {
+  const loaded = new Map<string, LayerTemplate>();
+
+  for (const layer of layers) {
+    let keys: string[];
+    try {
+      keys = await findTemplateFiles(layer.dir);
+    } catch (error) {
+      const fsError = error as NodeJS.ErrnoException;
+      if (fsError.code === 'ENOENT' && !layer.required) {
+        continue;
+      }
+      throw new TemplateError(
+        `Failed to read templates from "${layer.dir}": ${fsError.message}`,
+        layer.dir,
+        fsError,
+      );
+    }
+
+    for (const key of keys) {
+      if (loaded.has(key)) {
+        continue; // Shadowed by an earlier layer
+      }
+      const filePath = path.join(layer.dir, key);
+      const content = await fs.readFile(filePath, 'utf-8');
+      loaded.set(key, { key, layer: layer.name, filePath, content });
+    }
+  }
+
+  layerTemplates = loaded;
+}
+
+/**
+ * Lists every available template and the layer it is resolved from
+ */
+export function listTemplates(): ResolvedTemplate[] {
+  const keys = new Set([
+    ...Object.keys(EMBEDDED_TEMPLATES),
+    ...layerTemplates.keys(),
+  ]);
+
+  return [...keys].sort().map((key) => {
+    const layerTemplate = layerTemplates.get(key);
+    if (layerTemplate) {
+      const { content: _content, ...resolved } = layerTemplate;
+      return resolved;
+    }
+    return { key, layer: 'embedded' };
+  });
+}
+
+export function loadTemplate(
+  templatePath: string,
+  data: Record<string, unknown>,
+): string {
+  // Normalize path separators
+  const normalizedPath = templatePath.replace(/\\/g, '/');
+
+  const template =
+    layerTemplates.get(normalizedPath)?.content ??
+    EMBEDDED_TEMPLATES[normalizedPath];
+  if (!template) {
+    throw new TemplateError(
+      `Template not found: "${templatePath}"`,
+      templatePath,
+    );
+  }
+
+  try {
+    return ejs.render(template, data);
+  } catch (error) {
+    const renderError = error as Error;
+    throw new TemplateError(
+      `Failed to render template "${templatePath}": ${renderError.message}`,
+      templatePath,
+      renderError,
+    );
+  }
+}
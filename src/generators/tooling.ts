@@ -0,0 +1,14 @@
+import { DEFAULT_TOOLING } from '../config';
+import type { InitOptions, ToolingOptions } from '../types';
+
+/**
+ * Applies the tooling overrides to the defaults
+ * lint-staged runs biome from a husky hook, so it needs both.
+ */
+export function resolveTooling(options: InitOptions): ToolingOptions {
+  const tooling = { ...DEFAULT_TOOLING, ...options.tooling };
+  return {
+    ...tooling,
+    lintStaged: tooling.lintStaged && tooling.husky && tooling.biome,
+  };
+}
@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { InitOptions } from '../types';
+import * as githubUtils from '../utils/github';
+import * as npmUtils from '../utils/npm';
+import { renderProject } from './project';
+import {
+  addTagprVersionFile,
+  generateMemberFiles,
+  getMemberDir,
+  isWorkspaceRoot,
+  readWorkspaceVersion,
+} from './workspace';
+
+describe('workspace generator', () => {
+  const testDir = path.join(import.meta.dir, '../../.test-workspace');
+  const options: InitOptions = {
+    projectName: '@scope/core',
+    lang: 'typescript',
+    isDevcode: false,
+    author: 'test-author',
+    workspaces: true,
+  };
+
+  beforeEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function readJson(
+    files: { path: string; content: string }[],
+    filePath: string,
+  ): Promise<Record<string, unknown>> {
+    const file = files.find((f) => f.path === filePath);
+    expect(file).toBeDefined();
+    return JSON.parse(file?.content ?? '{}');
+  }
+
+  test('getMemberDir should strip the scope', () => {
+    expect(getMemberDir('@scope/core')).toBe('packages/core');
+    expect(getMemberDir('cli')).toBe('packages/cli');
+  });
+
+  describe('renderProject with workspaces', () => {
+    let getLatestVersionsSpy: ReturnType<typeof spyOn>;
+    let getLatestActionVersionsSpy: ReturnType<typeof spyOn>;
+
+    beforeEach(() => {
+      getLatestVersionsSpy = spyOn(
+        npmUtils,
+        'getLatestVersions',
+      ).mockImplementation(async (packages: string[]) =>
+        Object.fromEntries(packages.map((name) => [name, '1.0.0'])),
+      );
+      getLatestActionVersionsSpy = spyOn(
+        githubUtils,
+        'getLatestActionVersions',
+      ).mockResolvedValue({ ...githubUtils.GITHUB_ACTIONS });
+    });
+
+    afterEach(() => {
+      getLatestVersionsSpy.mockRestore();
+      getLatestActionVersionsSpy.mockRestore();
+    });
+
+    test('should generate a root and the first package', async () => {
+      const { files } = await renderProject(options);
+      const paths = files.map((f) => f.path);
+
+      expect(paths).toContain('package.json');
+      expect(paths).toContain('tsconfig.base.json');
+      expect(paths).toContain('packages/core/package.json');
+      expect(paths).toContain('packages/core/tsconfig.json');
+      expect(paths).toContain('packages/core/src/index.ts');
+      expect(paths).not.toContain('tsconfig.json');
+      expect(paths).not.toContain('src/index.ts');
+      expect(paths).not.toContain('pnpm-workspace.yaml');
+
+      const root = await readJson(files, 'package.json');
+      expect(root.name).toBe('core-root');
+      expect(root.private).toBe(true);
+      expect(root.workspaces).toEqual(['packages/*']);
+
+      const member = await readJson(files, 'packages/core/package.json');
+      expect(member.name).toBe('@scope/core');
+      expect(member.version).toBe('0.0.0');
+      expect(member.private).toBeUndefined();
+
+      const tagpr = files.find((f) => f.path === '.tagpr');
+      expect(tagpr?.content).toContain(
+        'versionFile = "packages/core/package.json"',
+      );
+
+      const ci = files.find((f) => f.path === '.github/workflows/ci.yml');
+      expect(ci?.content).toContain("- 'packages/**'");
+    });
+
+    test('should use pnpm-workspace.yaml for pnpm', async () => {
+      const { files } = await renderProject({
+        ...options,
+        packageManager: 'pnpm',
+      });
+
+      const root = await readJson(files, 'package.json');
+      expect(root.workspaces).toBeUndefined();
+      expect((root.scripts as Record<string, string>).test).toBe(
+        'pnpm -r run test',
+      );
+      expect(files.map((f) => f.path)).toContain('pnpm-workspace.yaml');
+    });
+
+    test('should reject workspaces for other languages', async () => {
+      await expect(
+        renderProject({ ...options, lang: 'go', projectName: 'core' }),
+      ).rejects.toThrow('only supported for TypeScript');
+    });
+  });
+
+  test('generateMemberFiles should mark devcode packages private', async () => {
+    const files = await generateMemberFiles(
+      { ...options, projectName: 'tool', isDevcode: true, kind: 'cli' },
+      { commander: '12.0.0' },
+      '1.2.0',
+    );
+
+    const member = await readJson(files, 'packages/tool/package.json');
+    expect(member.private).toBe(true);
+    expect(member.version).toBe('1.2.0');
+    expect(member.bin).toEqual({ tool: './dist/index.js' });
+    expect(member.dependencies).toEqual({ commander: '^12.0.0' });
+    expect(files.map((f) => f.path)).not.toContain(
+      'packages/tool/src/index.test.ts',
+    );
+  });
+
+  describe('workspace root helpers', () => {
+    async function writeFile(name: string, content: string): Promise<void> {
+      await fs.mkdir(path.dirname(path.join(testDir, name)), {
+        recursive: true,
+      });
+      await fs.writeFile(path.join(testDir, name), content);
+    }
+
+    test('isWorkspaceRoot should detect workspaces and pnpm', async () => {
+      await writeFile('package.json', '{ "name": "app" }');
+      expect(await isWorkspaceRoot(testDir)).toBe(false);
+
+      await writeFile('pnpm-workspace.yaml', "packages:\n  - 'packages/*'\n");
+      expect(await isWorkspaceRoot(testDir)).toBe(true);
+
+      await fs.rm(path.join(testDir, 'pnpm-workspace.yaml'));
+      await writeFile('package.json', '{ "workspaces": ["packages/*"] }');
+      expect(await isWorkspaceRoot(testDir)).toBe(true);
+    });
+
+    test('should read the version and append to versionFile', async () => {
+      await writeFile(
+        '.tagpr',
+        '[tagpr]\nversionFile = "packages/core/package.json"\n',
+      );
+      await writeFile('packages/core/package.json', '{ "version": "0.3.1" }');
+
+      expect(await readWorkspaceVersion(testDir)).toBe('0.3.1');
+      expect(
+        await addTagprVersionFile(testDir, 'packages/cli/package.json'),
+      ).toBe(true);
+      // Adding the same file twice keeps a single entry
+      await addTagprVersionFile(testDir, 'packages/cli/package.json');
+
+      const tagpr = await fs.readFile(path.join(testDir, '.tagpr'), 'utf-8');
+      expect(tagpr).toBe(
+        '[tagpr]\nversionFile = "packages/core/package.json,packages/cli/package.json"\n',
+      );
+    });
+
+    test('should fall back when .tagpr has no versionFile', async () => {
+      await writeFile('.tagpr', '[tagpr]\n');
+
+      expect(await readWorkspaceVersion(testDir)).toBe('0.0.0');
+      expect(
+        await addTagprVersionFile(testDir, 'packages/cli/package.json'),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { InitOptions } from '../types';
+import { getNpmUsername } from '../utils/npm';
+import { stripScope } from '../utils/project-name';
+import { DEFAULT_KIND, getKindScripts } from './kinds';
+import type { GenerationContext } from './languages';
+import {
+  generateEntryPoint,
+  generateEntryPointTest,
+  getDependencies,
+  getDevDependencies,
+  getToolingFiles,
+  toDependencyRanges,
+} from './languages/typescript';
+import { getLicense } from './licenses';
+import {
+  formatPackageManagerField,
+  getPackageManager,
+} from './package-managers';
+import { type GeneratedFile, loadTemplate } from './templates';
+import { resolveTooling } from './tooling';
+
+/** Directory that holds the workspace packages */
+export const WORKSPACE_PACKAGES_DIR = 'packages';
+
+const TAGPR_CONFIG = '.tagpr';
+
+/** Version of a package created before anything was released */
+const INITIAL_VERSION = '0.0.0';
+
+/**
+ * Directory of a workspace package (e.g., "@scope/name" -> "packages/name")
+ */
+export function getMemberDir(name: string): string {
+  return `${WORKSPACE_PACKAGES_DIR}/${stripScope(name)}`;
+}
+
+function inMemberDir(memberDir: string, file: GeneratedFile): GeneratedFile {
+  return { ...file, path: `${memberDir}/${file.path}` };
+}
+
+/**
+ * Root package.json: private, lists the workspaces (except for pnpm) and
+ * holds the shared dev dependencies and tooling scripts
+ */
+export async function generateWorkspacePackageJson(
+  options: InitOptions,
+  versions: Record<string, string>,
+): Promise<GeneratedFile> {
+  const tooling = resolveTooling(options);
+  const pm = getPackageManager(options.packageManager);
+  const content = loadTemplate(`${options.lang}/workspace/package.json.ejs`, {
+    name: `${stripScope(options.projectName)}-root`,
+    author: options.author ?? '',
+    license: getLicense(options.license).id,
+    tooling,
+    pm,
+    packageManagerField: formatPackageManagerField(
+      pm,
+      versions[pm.packageName],
+    ),
+    devDependencies: toDependencyRanges(
+      getDevDependencies(tooling, pm),
+      versions,
+      options.versionPolicy,
+    ),
+  });
+  return { path: 'package.json', content };
+}
+
+export async function generatePnpmWorkspace(
+  options: InitOptions,
+): Promise<GeneratedFile> {
+  const content = loadTemplate(
+    `${options.lang}/workspace/pnpm-workspace.yaml.ejs`,
+    {},
+  );
+  return { path: 'pnpm-workspace.yaml', content };
+}
+
+export async function generateTsconfigBase(
+  options: InitOptions,
+): Promise<GeneratedFile> {
+  const content = loadTemplate(
+    `${options.lang}/workspace/tsconfig.base.json.ejs`,
+    { pm: getPackageManager(options.packageManager) },
+  );
+  return { path: 'tsconfig.base.json', content };
+}
+
+/**
+ * .tagpr that bumps every package's package.json together
+ */
+export async function generateWorkspaceTagprConfig(
+  options: InitOptions,
+  versionFiles: string[],
+): Promise<GeneratedFile> {
+  const content = loadTemplate(`${options.lang}/workspace/.tagpr.ejs`, {
+    versionFiles,
+  });
+  return { path: TAGPR_CONFIG, content };
+}
+
+/**
+ * Files of one workspace package, with paths relative to the workspace root
+ */
+export async function generateMemberFiles(
+  options: InitOptions,
+  versions: Record<string, string>,
+  version: string = INITIAL_VERSION,
+): Promise<GeneratedFile[]> {
+  const memberDir = getMemberDir(options.projectName);
+  const kind = options.kind ?? DEFAULT_KIND;
+  const pm = getPackageManager(options.packageManager);
+
+  const packageJson = loadTemplate(
+    `${options.lang}/workspace/member/package.json.ejs`,
+    {
+      name: options.projectName,
+      binName: stripScope(options.projectName),
+      version,
+      isDevcode: options.isDevcode,
+      kind,
+      scripts: getKindScripts(kind, pm),
+      author: options.author ?? '',
+      license: getLicense(options.license).id,
+      pm,
+      dependencies: toDependencyRanges(
+        getDependencies(kind),
+        versions,
+        options.versionPolicy,
+      ),
+    },
+  );
+  const tsconfig = loadTemplate(
+    `${options.lang}/workspace/member/tsconfig.json.ejs`,
+    { kind },
+  );
+
+  const sources = await Promise.all([
+    generateEntryPoint(options),
+    ...(kind === 'library' ? [generateEntryPointTest(options)] : []),
+  ]);
+
+  return [
+    { path: 'package.json', content: packageJson },
+    { path: 'tsconfig.json', content: tsconfig },
+    ...sources,
+  ].map((file) => inMemberDir(memberDir, file));
+}
+
+/**
+ * Workspace root files, shared tooling and the first package
+ */
+export async function getWorkspaceFiles(
+  options: InitOptions,
+  { versions }: GenerationContext,
+): Promise<GeneratedFile[]> {
+  const author = options.author ?? (await getNpmUsername()) ?? undefined;
+  const resolved = { ...options, author };
+  const pm = getPackageManager(options.packageManager);
+
+  return Promise.all([
+    generateWorkspacePackageJson(resolved, versions),
+    generateTsconfigBase(resolved),
+    ...(pm.name === 'pnpm' ? [generatePnpmWorkspace(resolved)] : []),
+    ...getToolingFiles(resolved, versions),
+    generateMemberFiles(resolved, versions),
+  ]).then((files) => files.flat());
+}
+
+/**
+ * Returns true if dir is a workspace root (workspaces in package.json or a
+ * pnpm-workspace.yaml)
+ */
+export async function isWorkspaceRoot(dir: string): Promise<boolean> {
+  try {
+    await fs.access(path.join(dir, 'pnpm-workspace.yaml'));
+    return true;
+  } catch {
+    // Not a pnpm workspace; check package.json
+  }
+
+  try {
+    const content = await fs.readFile(path.join(dir, 'package.json'), 'utf-8');
+    return 'workspaces' in (JSON.parse(content) as Record<string, unknown>);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Directories of the workspace packages that have a package.json
+ * (e.g., ["packages/cli", "packages/core"])
+ */
+export async function listWorkspaceMembers(dir: string): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(path.join(dir, WORKSPACE_PACKAGES_DIR));
+  } catch {
+    return [];
+  }
+
+  const members: string[] = [];
+  for (const entry of entries.sort()) {
+    const memberDir = `${WORKSPACE_PACKAGES_DIR}/${entry}`;
+    try {
+      await fs.access(path.join(dir, memberDir, 'package.json'));
+      members.push(memberDir);
+    } catch {
+      // Not a package (e.g., a stray file or an empty directory)
+    }
+  }
+  return members;
+}
+
+/**
+ * Reads the versionFile list from .tagpr
+ */
+async function readTagprVersionFiles(
+  dir: string,
+): Promise<{ lines: string[]; index: number; files: string[] } | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(dir, TAGPR_CONFIG), 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const lines = content.split('\n');
+  const index = lines.findIndex((line) =>
+    line.trimStart().startsWith('versionFile'),
+  );
+  if (index === -1) {
+    return null;
+  }
+  const value = lines[index].slice(lines[index].indexOf('=') + 1).trim();
+  const files = value
+    .replace(/^"|"$/g, '')
+    .split(',')
+    .map((file) => file.trim())
+    .filter(Boolean);
+  return { lines, index, files };
+}
+
+/**
+ * Version shared by the workspace packages, read from the first versionFile
+ */
+export async function readWorkspaceVersion(dir: string): Promise<string> {
+  const tagpr = await readTagprVersionFiles(dir);
+  const first = tagpr?.files[0];
+  if (!first) {
+    return INITIAL_VERSION;
+  }
+
+  try {
+    const content = await fs.readFile(path.join(dir, first), 'utf-8');
+    const { version } = JSON.parse(content) as { version?: unknown };
+    return typeof version === 'string' ? version : INITIAL_VERSION;
+  } catch {
+    return INITIAL_VERSION;
+  }
+}
+
+/**
+ * Appends a package.json to the versionFile list in .tagpr
+ * Returns false if .tagpr has no versionFile to append to.
+ */
+export async function addTagprVersionFile(
+  dir: string,
+  versionFile: string,
+): Promise<boolean> {
+  const tagpr = await readTagprVersionFiles(dir);
+  if (!tagpr) {
+    return false;
+  }
+  if (tagpr.files.includes(versionFile)) {
+    return true;
+  }
+
+  const { lines, index, files } = tagpr;
+  lines[index] = `versionFile = "${[...files, versionFile].join(',')}"`;
+  await fs.writeFile(path.join(dir, TAGPR_CONFIG), lines.join('\n'), 'utf-8');
+  return true;
+}
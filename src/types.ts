@@ -1,7 +1,67 @@
-export type Language = 'typescript';
+export type Language = 'typescript' | 'python' | 'go' | 'rust';
+
+export type PackageManager = 'bun' | 'npm' | 'pnpm' | 'yarn';
+
+/**
+ * What a TypeScript project builds
+ * - library: exports map, type declarations and a sample exported function
+ * - cli: bin entry with a commander skeleton
+ * - app: start script for a runnable application
+ */
+export type ProjectKind = 'library' | 'cli' | 'app';
+
+/**
+ * How generated workflows reference GitHub Actions
+ * - major: the latest major tag (e.g., actions/checkout@v4)
+ * - sha: the commit of the latest release (e.g., actions/checkout@<sha> # v4.2.0)
+ */
+export type ActionPinning = 'major' | 'sha';
+
+/**
+ * Range written for dependencies: ^1.2.3, ~1.2.3 or 1.2.3
+ * (translated to the equivalent requirement syntax for PyPI and Cargo)
+ */
+export type RangeStyle = 'caret' | 'tilde' | 'exact';
+
+/**
+ * Which dependency versions new projects get
+ */
+export interface VersionPolicy {
+  /** Skip releases younger than this many days */
+  minReleaseAgeDays?: number;
+  /** Defaults to each language's usual requirement style */
+  rangeStyle?: RangeStyle;
+  /** Exact versions per package, used instead of resolving */
+  pins?: Record<string, string>;
+}
+
+/**
+ * How to handle generated files that already exist in the target directory
+ * - error: stop before writing anything (default)
+ * - force: overwrite existing files
+ * - skip-existing: keep existing files
+ * - merge: deep-merge JSON files, keep other files and report a diff
+ */
+export type ConflictStrategy = 'error' | 'force' | 'skip-existing' | 'merge';
+
+/**
+ * Developer tooling generated for TypeScript projects
+ */
+export interface ToolingOptions {
+  /** Git hooks via husky (.husky/) */
+  husky: boolean;
+  /** Conventional commit linting (commitlint.config.js and commit-msg hook) */
+  commitlint: boolean;
+  /** Formatter and linter (biome.json and lint/format/check scripts) */
+  biome: boolean;
+  /** Format staged files with biome in a pre-commit hook (requires husky and biome) */
+  lintStaged: boolean;
+  /** Run tests in the pre-push hook */
+  prePushTests: boolean;
+}
 
 export interface InitOptions {
-  /** The name used for npm publish (e.g., @scope/package-name) */
+  /** The name used for publishing (e.g., @scope/package-name for npm) */
   projectName: string;
   lang: Language;
   /** If true, projectName is a development code that will be replaced later */
@@ -10,4 +70,22 @@ export interface InitOptions {
   targetDir?: string;
   /** Package author. If not specified, detected from language-specific tools (e.g., npm whoami for TypeScript). */
   author?: string;
+  /** GitHub owner (user or organization). If not specified, detected from GITHUB_TOKEN where needed (e.g., Go module path). */
+  owner?: string;
+  /** SPDX license identifier. Defaults to MIT. */
+  license?: string;
+  /** How to handle files that already exist. Defaults to 'error'. */
+  conflictStrategy?: ConflictStrategy;
+  /** Package manager for TypeScript projects. Defaults to bun. */
+  packageManager?: PackageManager;
+  /** Kind of TypeScript project. Defaults to library. */
+  kind?: ProjectKind;
+  /** Generate a TypeScript workspace root with the project as its first package */
+  workspaces?: boolean;
+  /** How workflows reference GitHub Actions. Defaults to major. */
+  pinActions?: ActionPinning;
+  /** Minimum release age, range style and pins for dependency versions */
+  versionPolicy?: VersionPolicy;
+  /** Overrides for the generated developer tooling. Defaults to DEFAULT_TOOLING. */
+  tooling?: Partial<ToolingOptions>;
 }
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, mock, test } from 'bun:test';
+import { getLatestCrateVersion, getLatestCrateVersions } from './crates';
+
+describe('crates utils', () => {
+  describe('getLatestCrateVersion', () => {
+    const originalFetch = globalThis.fetch;
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    test('should return max stable version from crates.io', async () => {
+      const fetchMock = mock(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              crate: {
+                max_stable_version: '2.0.11',
+                max_version: '3.0.0-rc.1',
+              },
+            }),
+        } as Response),
+      );
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const version = await getLatestCrateVersion('thiserror');
+      expect(version).toBe('2.0.11');
+
+      const [, init] = fetchMock.mock.calls[0] as unknown as [
+        string,
+        RequestInit,
+      ];
+      expect(init.headers).toHaveProperty('User-Agent');
+    });
+
+    test('should throw error when fetch fails', async () => {
+      globalThis.fetch = mock(() =>
+        Promise.resolve({
+          ok: false,
+        } as Response),
+      ) as unknown as typeof fetch;
+
+      expect(getLatestCrateVersion('thiserror')).rejects.toThrow(
+        'Failed to fetch version',
+      );
+    });
+  });
+
+  describe('getLatestCrateVersions', () => {
+    const originalFetch = globalThis.fetch;
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    test('should return versions for multiple crates', async () => {
+      globalThis.fetch = mock((url: string) => {
+        const crateName = url.toString().split('/').pop() as string;
+        const versions: Record<string, string> = {
+          'crate-a': '1.0.0',
+          'crate-b': '2.0.0',
+        };
+        return Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              crate: {
+                max_stable_version: versions[crateName],
+                max_version: versions[crateName],
+              },
+            }),
+        } as Response);
+      }) as unknown as typeof fetch;
+
+      const versions = await getLatestCrateVersions(['crate-a', 'crate-b']);
+      expect(versions['crate-a']).toBe('1.0.0');
+      expect(versions['crate-b']).toBe('2.0.0');
+    });
+
+    test('should fallback to "latest" when fetch fails', async () => {
+      globalThis.fetch = mock(() =>
+        Promise.resolve({
+          ok: false,
+        } as Response),
+      ) as unknown as typeof fetch;
+
+      const versions = await getLatestCrateVersions(['failing-crate']);
+      expect(versions['failing-crate']).toBe('latest');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import type { VersionPolicy } from '../types';
+import { httpFetch } from './http';
+import { type Release, resolvePolicyVersions } from './version-policy';
+
+/**
+ * crates.io requires a descriptive User-Agent for API access
+ * https://crates.io/data-access
+ */
+const USER_AGENT = '@rindrics/initrepo (https://github.com/Rindrics/initrepo)';
+
+/**
+ * Fetches the latest stable version of a crate from crates.io
+ */
+export async function getLatestCrateVersion(
+  crateName: string,
+): Promise<string> {
+  const response = await httpFetch(
+    `https://crates.io/api/v1/crates/${crateName}`,
+    {
+      headers: { 'User-Agent': USER_AGENT },
+    },
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch version for ${crateName}`);
+  }
+
+  const data = (await response.json()) as {
+    crate: { max_stable_version: string | null; max_version: string };
+  };
+  return data.crate.max_stable_version ?? data.crate.max_version;
+}
+
+/**
+ * Fetches every version of a crate with its publish time
+ */
+export async function getCrateReleases(
+  crateName: string,
+): Promise<{ releases: Release[]; latest?: string }> {
+  const response = await httpFetch(
+    `https://crates.io/api/v1/crates/${crateName}`,
+    {
+      headers: { 'User-Agent': USER_AGENT },
+    },
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch versions for ${crateName}`);
+  }
+
+  const data = (await response.json()) as {
+    crate: { max_stable_version: string | null; max_version: string };
+    versions: { num: string; created_at: string; yanked: boolean }[];
+  };
+  const releases = data.versions.map((version) => ({
+    version: version.num,
+    publishedAt: version.created_at,
+    yanked: version.yanked,
+  }));
+  return {
+    releases,
+    latest: data.crate.max_stable_version ?? data.crate.max_version,
+  };
+}
+
+/**
+ * Fetches versions for multiple crates, following the version policy
+ * (unresolved versions fall back to "latest")
+ */
+export async function getLatestCrateVersions(
+  crateNames: string[],
+  policy: VersionPolicy = {},
+): Promise<Record<string, string>> {
+  return resolvePolicyVersions('crates', crateNames, policy, {
+    fetchLatest: getLatestCrateVersion,
+    fetchReleases: getCrateReleases,
+  });
+}
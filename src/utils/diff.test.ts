@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'bun:test';
+import { createUnifiedDiff, mergeThreeWay } from './diff';
+
+describe('diff utils', () => {
+  test('should return an empty string for identical texts', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb\n', 'old', 'new')).toBe('');
+  });
+
+  test('should create a unified diff with context', () => {
+    const oldText = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n');
+    const newText = ['a', 'b', 'c', 'd', 'E', 'f', 'g', 'h'].join('\n');
+
+    expect(createUnifiedDiff(oldText, newText, 'old', 'new')).toBe(
+      [
+        '--- old',
+        '+++ new',
+        '@@ -2,7 +2,7 @@',
+        ' b',
+        ' c',
+        ' d',
+        '-e',
+        '+E',
+        ' f',
+        ' g',
+        ' h',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('should split distant changes into separate hunks', () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+    const newLines = [...oldLines];
+    newLines[1] = 'changed 1';
+    newLines[18] = 'changed 18';
+
+    const diff = createUnifiedDiff(
+      oldLines.join('\n'),
+      newLines.join('\n'),
+      'old',
+      'new',
+    );
+
+    expect(diff).toContain('@@ -1,5 +1,5 @@');
+    expect(diff).toContain('@@ -16,5 +16,5 @@');
+  });
+
+  describe('mergeThreeWay', () => {
+    const base = ['a', 'b', 'c', 'd', 'e', 'f', 'g', ''].join('\n');
+
+    test('should combine changes to different regions', () => {
+      const current = base.replace('b', 'B (local)');
+      const incoming = base.replace('f', 'F (template)').concat('h\n');
+
+      expect(mergeThreeWay(base, current, incoming)).toEqual({
+        content: [
+          'a',
+          'B (local)',
+          'c',
+          'd',
+          'e',
+          'F (template)',
+          'g',
+          'h',
+          '',
+        ].join('\n'),
+        conflicts: 0,
+      });
+    });
+
+    test('should take identical changes once', () => {
+      const changed = base.replace('d', 'D');
+
+      expect(mergeThreeWay(base, changed, `${changed}x\n`).content).toBe(
+        `${changed}x\n`,
+      );
+      expect(mergeThreeWay(base, `${changed}local\n`, changed).content).toBe(
+        `${changed}local\n`,
+      );
+    });
+
+    test('should mark overlapping changes as conflicts', () => {
+      const current = base.replace('d', 'D (local)');
+      const incoming = base.replace('d', 'D (template)');
+
+      const result = mergeThreeWay(base, current, incoming, 'ours', 'theirs');
+
+      expect(result.conflicts).toBe(1);
+      expect(result.content).toBe(
+        [
+          'a',
+          'b',
+          'c',
+          '<<<<<<< ours',
+          'D (local)',
+          '=======',
+          'D (template)',
+          '>>>>>>> theirs',
+          'e',
+          'f',
+          'g',
+          '',
+        ].join('\n'),
+      );
+    });
+  });
+});
@@ -0,0 +1,214 @@
+interface DiffOp {
+  type: ' ' | '-' | '+';
+  line: string;
+}
+
+/** Unchanged lines shown around each change */
+const CONTEXT_LINES = 3;
+
+function splitLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Line-level diff based on the longest common subsequence
+ * (generated files are small, so O(n*m) is fine)
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () =>
+    new Array<number>(m + 1).fill(0),
+  );
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        oldLines[i] === newLines[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      ops.push({ type: ' ', line: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: '-', line: oldLines[i++] });
+    } else {
+      ops.push({ type: '+', line: newLines[j++] });
+    }
+  }
+  while (i < n) {
+    ops.push({ type: '-', line: oldLines[i++] });
+  }
+  while (j < m) {
+    ops.push({ type: '+', line: newLines[j++] });
+  }
+  return ops;
+}
+
+/**
+ * Creates a unified diff between two texts
+ * Returns an empty string when they are identical
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+): string {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const changes = ops.flatMap((op, index) => (op.type === ' ' ? [] : [index]));
+  if (changes.length === 0) {
+    return '';
+  }
+
+  // Group changes whose context would overlap into one hunk
+  const hunks: Array<[number, number]> = [];
+  for (const index of changes) {
+    const last = hunks[hunks.length - 1];
+    if (last && index - last[1] <= CONTEXT_LINES * 2) {
+      last[1] = index;
+    } else {
+      hunks.push([index, index]);
+    }
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const [firstChange, lastChange] of hunks) {
+    const start = Math.max(0, firstChange - CONTEXT_LINES);
+    const end = Math.min(ops.length, lastChange + CONTEXT_LINES + 1);
+    const before = ops.slice(0, start);
+    const hunk = ops.slice(start, end);
+
+    const oldStart = before.filter((op) => op.type !== '+').length + 1;
+    const newStart = before.filter((op) => op.type !== '-').length + 1;
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of hunk) {
+      output.push(`${op.type}${op.line}`);
+    }
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+export interface MergeResult {
+  content: string;
+  /** Number of regions wrapped in conflict markers */
+  conflicts: number;
+}
+
+/**
+ * For each line of oldLines that newLines keeps, the index it has there
+ */
+function matchLines(
+  oldLines: string[],
+  newLines: string[],
+): Map<number, number> {
+  const matches = new Map<number, number>();
+  let i = 0;
+  let j = 0;
+  for (const op of diffLines(oldLines, newLines)) {
+    if (op.type === ' ') {
+      matches.set(i++, j++);
+    } else if (op.type === '-') {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Three-way merge (diff3) of two texts derived from a common base
+ * Regions changed on one side only take that side; regions both sides
+ * changed differently are wrapped in conflict markers labelled with
+ * currentLabel and incomingLabel.
+ */
+export function mergeThreeWay(
+  base: string,
+  current: string,
+  incoming: string,
+  currentLabel = 'current',
+  incomingLabel = 'incoming',
+): MergeResult {
+  if (current === base || current === incoming) {
+    return { content: incoming, conflicts: 0 };
+  }
+  if (incoming === base) {
+    return { content: current, conflicts: 0 };
+  }
+
+  const baseLines = splitLines(base);
+  const currentLines = splitLines(current);
+  const incomingLines = splitLines(incoming);
+  const currentMatches = matchLines(baseLines, currentLines);
+  const incomingMatches = matchLines(baseLines, incomingLines);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let c = 0;
+  let n = 0;
+  for (;;) {
+    // Next base line both sides kept: everything before it is one chunk
+    let stable = b;
+    while (
+      stable < baseLines.length &&
+      !(currentMatches.has(stable) && incomingMatches.has(stable))
+    ) {
+      stable++;
+    }
+    const currentEnd = currentMatches.get(stable) ?? currentLines.length;
+    const incomingEnd = incomingMatches.get(stable) ?? incomingLines.length;
+
+    const original = baseLines.slice(b, stable);
+    const ours = currentLines.slice(c, currentEnd);
+    const theirs = incomingLines.slice(n, incomingEnd);
+    if (sameLines(ours, original)) {
+      output.push(...theirs);
+    } else if (sameLines(theirs, original) || sameLines(ours, theirs)) {
+      output.push(...ours);
+    } else {
+      output.push(
+        `<<<<<<< ${currentLabel}`,
+        ...ours,
+        '=======',
+        ...theirs,
+        `>>>>>>> ${incomingLabel}`,
+      );
+      conflicts++;
+    }
+
+    if (stable >= baseLines.length) {
+      break;
+    }
+    output.push(baseLines[stable]);
+    b = stable + 1;
+    c = currentEnd + 1;
+    n = incomingEnd + 1;
+  }
+
+  const trailingNewline = current.endsWith('\n') || incoming.endsWith('\n');
+  return {
+    content: `${output.join('\n')}${trailingNewline && output.length > 0 ? '\n' : ''}`,
+    conflicts,
+  };
+}
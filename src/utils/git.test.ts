@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  bootstrapGitRepo,
+  GitError,
+  getGitHubRemote,
+  parseGitHubRemote,
+} from './git';
+
+describe('git utils', () => {
+  // Outside the repository so git does not pick up its config
+  let testDir: string;
+  let projectDir: string;
+  let remoteDir: string;
+  const originalEnv = { ...process.env };
+
+  function git(args: string[], cwd: string): string {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+    }).trim();
+  }
+
+  async function writeGlobalConfig(content: string): Promise<void> {
+    await fs.writeFile(path.join(testDir, 'gitconfig'), content);
+  }
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'initrepo-git-'));
+    projectDir = path.join(testDir, 'project');
+    remoteDir = path.join(testDir, 'remote.git');
+    await fs.mkdir(projectDir);
+    await fs.writeFile(path.join(projectDir, 'README.md'), '# project\n');
+    git(['init', '--bare', remoteDir], testDir);
+
+    process.env.GIT_CONFIG_GLOBAL = path.join(testDir, 'gitconfig');
+    process.env.GIT_CONFIG_NOSYSTEM = '1';
+    await writeGlobalConfig(
+      '[user]\n\tname = Test User\n\temail = test@example.com\n',
+    );
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should commit on main and push to the remote', async () => {
+    const result = await bootstrapGitRepo({
+      dir: projectDir,
+      remoteUrl: remoteDir,
+      push: true,
+    });
+
+    expect(result).toEqual({
+      initialized: true,
+      remoteAdded: true,
+      pushed: true,
+    });
+    expect(git(['log', '--format=%s', 'main'], remoteDir)).toBe(
+      'chore: initial commit',
+    );
+    expect(git(['branch', '--show-current'], projectDir)).toBe('main');
+  });
+
+  test('should not push when push is disabled', async () => {
+    const result = await bootstrapGitRepo({
+      dir: projectDir,
+      remoteUrl: remoteDir,
+      push: false,
+    });
+
+    expect(result.pushed).toBe(false);
+    expect(git(['remote', 'get-url', 'origin'], projectDir)).toBe(remoteDir);
+    expect(git(['branch', '--list'], remoteDir)).toBe('');
+  });
+
+  test('should commit files written by beforeCommit', async () => {
+    await bootstrapGitRepo({
+      dir: projectDir,
+      beforeCommit: () =>
+        fs.writeFile(path.join(projectDir, 'bun.lock'), '{}\n'),
+    });
+
+    expect(git(['ls-files'], projectDir).split('\n')).toEqual([
+      'README.md',
+      'bun.lock',
+    ]);
+  });
+
+  test('should leave an existing repository untouched', async () => {
+    git(['init'], projectDir);
+    const execFn = mock(() => Promise.resolve({ stdout: '', stderr: '' }));
+
+    const result = await bootstrapGitRepo({ dir: projectDir }, execFn);
+
+    expect(result.initialized).toBe(false);
+    expect(execFn).not.toHaveBeenCalled();
+  });
+
+  test('should report a missing git identity', async () => {
+    await writeGlobalConfig('');
+
+    const error = await bootstrapGitRepo({ dir: projectDir }).catch(
+      (e: unknown) => e,
+    );
+
+    expect(error).toBeInstanceOf(GitError);
+    expect((error as GitError).step).toBe('identity');
+    expect((error as GitError).message).toContain('user.name, user.email');
+  });
+
+  test('should report push failures', async () => {
+    const error = await bootstrapGitRepo({
+      dir: projectDir,
+      remoteUrl: path.join(testDir, 'missing.git'),
+      push: true,
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(GitError);
+    expect((error as GitError).step).toBe('push');
+    expect(git(['log', '--format=%s'], projectDir)).toBe(
+      'chore: initial commit',
+    );
+  });
+
+  test('parseGitHubRemote should accept HTTPS and SSH URLs', () => {
+    const ref = { owner: 'octo', repo: 'my.repo' };
+
+    expect(parseGitHubRemote('https://github.com/octo/my.repo.git')).toEqual(
+      ref,
+    );
+    expect(parseGitHubRemote('git@github.com:octo/my.repo.git\n')).toEqual(ref);
+    expect(parseGitHubRemote('ssh://git@github.com/octo/my.repo')).toEqual(ref);
+    expect(parseGitHubRemote('https://gitlab.com/octo/my.repo.git')).toBeNull();
+  });
+
+  test('getGitHubRemote should read origin', async () => {
+    git(['init'], projectDir);
+    expect(await getGitHubRemote(projectDir)).toBeNull();
+
+    git(
+      ['remote', 'add', 'origin', 'https://github.com/octo/project.git'],
+      projectDir,
+    );
+    expect(await getGitHubRemote(projectDir)).toEqual({
+      owner: 'octo',
+      repo: 'project',
+    });
+  });
+});
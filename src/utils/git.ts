@@ -0,0 +1,211 @@
+import { execFile } from 'node:child_process';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+type GitExecFn = (
+  args: string[],
+  cwd: string,
+) => Promise<{ stdout: string; stderr: string }>;
+
+const execGit: GitExecFn = (args, cwd) => execFileAsync('git', args, { cwd });
+
+export const DEFAULT_BRANCH = 'main';
+
+export const INITIAL_COMMIT_MESSAGE = 'chore: initial commit';
+
+/** Step of the bootstrap that failed */
+export type GitStep = 'init' | 'identity' | 'commit' | 'remote' | 'push';
+
+export class GitError extends Error {
+  constructor(
+    message: string,
+    public readonly step: GitStep,
+    public readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+export interface GitBootstrapOptions {
+  /** Project directory */
+  dir: string;
+  /** URL added as origin (e.g., GitHubRepoResult.cloneUrl) */
+  remoteUrl?: string;
+  /** Push the initial commit to origin (requires remoteUrl) */
+  push?: boolean;
+  /** Replace the remote branch, e.g. the LICENSE commit of a repository created with a license template */
+  forcePush?: boolean;
+  /** Runs after git init and before the initial commit (e.g., installing dependencies) */
+  beforeCommit?: () => Promise<void>;
+}
+
+export interface GitBootstrapResult {
+  /** False when the directory already had a .git and was left untouched */
+  initialized: boolean;
+  remoteAdded: boolean;
+  pushed: boolean;
+}
+
+/**
+ * Returns the trimmed stderr of a failed git command, or the error message
+ */
+function describeGitFailure(error: unknown): string {
+  const execError = error as { stderr?: string; message?: string };
+  return (execError.stderr?.trim() || execError.message) ?? String(error);
+}
+
+async function runGit(
+  execFn: GitExecFn,
+  args: string[],
+  cwd: string,
+  step: GitStep,
+): Promise<string> {
+  try {
+    const { stdout } = await execFn(args, cwd);
+    return stdout.trim();
+  } catch (error) {
+    throw new GitError(
+      `git ${args[0]} failed: ${describeGitFailure(error)}`,
+      step,
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+async function getGitConfig(
+  execFn: GitExecFn,
+  key: string,
+  cwd: string,
+): Promise<string | null> {
+  try {
+    const { stdout } = await execFn(['config', '--get', key], cwd);
+    return stdout.trim() || null;
+  } catch {
+    // Exit code 1 means the key is not set
+    return null;
+  }
+}
+
+export async function hasGitDirectory(dir: string): Promise<boolean> {
+  try {
+    await fs.access(path.join(dir, '.git'));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Initializes a git repository on main, makes the initial commit,
+ * adds origin and optionally pushes
+ * A directory that already contains .git is left untouched.
+ *
+ * @param execFn - Optional git runner for testing (defaults to execFile)
+ */
+export async function bootstrapGitRepo(
+  options: GitBootstrapOptions,
+  execFn: GitExecFn = execGit,
+): Promise<GitBootstrapResult> {
+  const { dir } = options;
+
+  if (await hasGitDirectory(dir)) {
+    return { initialized: false, remoteAdded: false, pushed: false };
+  }
+
+  await runGit(execFn, ['init'], dir, 'init');
+  await runGit(
+    execFn,
+    ['symbolic-ref', 'HEAD', `refs/heads/${DEFAULT_BRANCH}`],
+    dir,
+    'init',
+  );
+
+  await options.beforeCommit?.();
+
+  const missing = [];
+  for (const key of ['user.name', 'user.email']) {
+    if (!(await getGitConfig(execFn, key, dir))) {
+      missing.push(key);
+    }
+  }
+  if (missing.length > 0) {
+    throw new GitError(
+      `Git identity is not configured (missing ${missing.join(', ')}). Set it with: git config --global ${missing[0]} <value>`,
+      'identity',
+    );
+  }
+
+  await runGit(execFn, ['add', '-A'], dir, 'commit');
+  await runGit(execFn, ['commit', '-m', INITIAL_COMMIT_MESSAGE], dir, 'commit');
+
+  if (!options.remoteUrl) {
+    return { initialized: true, remoteAdded: false, pushed: false };
+  }
+
+  await runGit(
+    execFn,
+    ['remote', 'add', 'origin', options.remoteUrl],
+    dir,
+    'remote',
+  );
+
+  if (!options.push) {
+    return { initialized: true, remoteAdded: true, pushed: false };
+  }
+
+  await runGit(
+    execFn,
+    [
+      'push',
+      ...(options.forcePush ? ['--force'] : []),
+      '-u',
+      'origin',
+      DEFAULT_BRANCH,
+    ],
+    dir,
+    'push',
+  );
+
+  return { initialized: true, remoteAdded: true, pushed: true };
+}
+
+export interface GitHubRepoRef {
+  owner: string;
+  repo: string;
+}
+
+/**
+ * Parses the owner and name from a GitHub remote URL
+ * (https://github.com/o/r.git, git@github.com:o/r.git or ssh://git@github.com/o/r)
+ * Returns null for other hosts.
+ */
+export function parseGitHubRemote(url: string): GitHubRepoRef | null {
+  const match = url
+    .trim()
+    .match(
+      /^(?:https:\/\/(?:[^@/]+@)?github\.com\/|git@github\.com:|ssh:\/\/git@github\.com\/)([^/]+)\/([^/]+?)(?:\.git)?\/?$/,
+    );
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+/**
+ * Returns the GitHub repository origin points to, or null if there is no
+ * origin or it is not on GitHub
+ *
+ * @param execFn - Optional git runner for testing (defaults to execFile)
+ */
+export async function getGitHubRemote(
+  dir: string,
+  execFn: GitExecFn = execGit,
+): Promise<GitHubRepoRef | null> {
+  try {
+    const { stdout } = await execFn(['remote', 'get-url', 'origin'], dir);
+    return parseGitHubRemote(stdout);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,148 @@
+import { Octokit } from 'octokit';
+import { httpFetch } from './http';
+
+/** Longest rate-limit wait worth blocking a CLI run for */
+const MAX_RATE_LIMIT_WAIT_SECONDS = 60;
+
+/** Retries per request after a rate-limit response */
+const MAX_RATE_LIMIT_RETRIES = 2;
+
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  /** When the quota resets */
+  reset: Date;
+}
+
+type Headers = Record<string, string | number | undefined>;
+
+let sharedClient: { token: string | undefined; octokit: Octokit } | null = null;
+let rateLimit: RateLimitStatus | null = null;
+
+/**
+ * Token from GITHUB_TOKEN, or GH_TOKEN as used by the GitHub CLI
+ */
+export function getGitHubToken(): string | undefined {
+  return process.env.GITHUB_TOKEN || process.env.GH_TOKEN || undefined;
+}
+
+/**
+ * Remembers the quota reported by the X-RateLimit-* headers
+ */
+function recordRateLimit(headers: Headers | undefined): void {
+  const limit = Number(headers?.['x-ratelimit-limit']);
+  const remaining = Number(headers?.['x-ratelimit-remaining']);
+  const reset = Number(headers?.['x-ratelimit-reset']);
+  if (Number.isFinite(limit) && Number.isFinite(remaining)) {
+    rateLimit = { limit, remaining, reset: new Date(reset * 1000) };
+  }
+}
+
+/**
+ * Retries a rate-limited request only when the wait is short; waiting for
+ * the hourly quota to reset is left to the caller's fallback
+ */
+function onRateLimit(
+  retryAfter: number,
+  options: { method: string; url: string },
+  _octokit: unknown,
+  retryCount: number,
+): boolean {
+  if (
+    retryCount >= MAX_RATE_LIMIT_RETRIES ||
+    retryAfter > MAX_RATE_LIMIT_WAIT_SECONDS
+  ) {
+    return false;
+  }
+  console.warn(
+    `⏳ GitHub API rate limit hit for ${options.method} ${options.url}; retrying in ${retryAfter}s`,
+  );
+  return true;
+}
+
+/**
+ * Creates an Octokit client, authenticated when a token is available
+ * Requests go through the shared HTTP layer, which already retries network
+ * errors and server errors, so Octokit's own retry plugin is off.
+ */
+export function createGitHubClient(
+  token: string | undefined = getGitHubToken(),
+): Octokit {
+  const octokit = new Octokit({
+    auth: token,
+    throttle: { onRateLimit, onSecondaryRateLimit: onRateLimit },
+    retry: { enabled: false },
+    request: { fetch: httpFetch },
+    log: {
+      debug: () => {},
+      info: () => {},
+      warn: console.warn,
+      error: console.error,
+    },
+  });
+
+  octokit.hook.after('request', (response) => {
+    recordRateLimit(response.headers);
+  });
+  octokit.hook.error('request', (error) => {
+    recordRateLimit(
+      (error as { response?: { headers?: Headers } }).response?.headers,
+    );
+    throw error;
+  });
+
+  return octokit;
+}
+
+/**
+ * Client shared by every GitHub API call, recreated when the token changes
+ */
+export function getGitHubClient(): Octokit {
+  const token = getGitHubToken();
+  if (!sharedClient || sharedClient.token !== token) {
+    sharedClient = { token, octokit: createGitHubClient(token) };
+  }
+  return sharedClient.octokit;
+}
+
+/**
+ * Quota from the most recent GitHub API response, if any
+ */
+export function getRateLimitStatus(): RateLimitStatus | null {
+  return rateLimit;
+}
+
+export function isRateLimitError(error: unknown): boolean {
+  const apiError = error as {
+    status?: number;
+    message?: string;
+    response?: { headers?: Headers };
+  };
+  if (apiError.status === 429) {
+    return true;
+  }
+  return (
+    apiError.status === 403 &&
+    (apiError.response?.headers?.['x-ratelimit-remaining'] === '0' ||
+      /rate limit/i.test(apiError.message ?? ''))
+  );
+}
+
+/**
+ * Explains why a GitHub API request failed, with a hint for rate limits
+ */
+export function describeGitHubError(error: unknown): string {
+  if (!isRateLimitError(error)) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  const reset = rateLimit?.reset;
+  const resetHint =
+    reset && reset.getTime() > 0
+      ? ` (resets at ${reset.toLocaleTimeString()})`
+      : '';
+  const tokenHint = getGitHubToken()
+    ? ''
+    : '; set GITHUB_TOKEN or GH_TOKEN to raise the limit from 60 to 5,000 requests per hour';
+  return `GitHub API rate limit exceeded${resetHint}${tokenHint}`;
+}
@@ -1,9 +1,16 @@
-import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
-import { hasGitHubToken } from './github-repo';
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import * as githubClient from './github-client';
+import { getGitHubLogin, hasGitHubToken } from './github-repo';
+import { configureVersionCache, resetVersionCache } from './version-cache';
 
 describe('github-repo utils', () => {
   describe('hasGitHubToken', () => {
     const originalToken = process.env.GITHUB_TOKEN;
+    const originalGhToken = process.env.GH_TOKEN;
+
+    beforeEach(() => {
+      delete process.env.GH_TOKEN;
+    });
 
     afterEach(() => {
       if (originalToken !== undefined) {
@@ -11,6 +18,11 @@ describe('github-repo utils', () => {
       } else {
         delete process.env.GITHUB_TOKEN;
       }
+      if (originalGhToken !== undefined) {
+        process.env.GH_TOKEN = originalGhToken;
+      } else {
+        delete process.env.GH_TOKEN;
+      }
     });
 
     test('should return true when GITHUB_TOKEN is set', () => {
@@ -23,6 +35,26 @@ describe('github-repo utils', () => {
       expect(hasGitHubToken()).toBe(false);
     });
 
+    test('should accept GH_TOKEN as used by the GitHub CLI', () => {
+      delete process.env.GITHUB_TOKEN;
+      process.env.GH_TOKEN = 'gh-token';
+      expect(hasGitHubToken()).toBe(true);
+    });
+
+    test('getGitHubLogin should not call GitHub with --offline', async () => {
+      process.env.GITHUB_TOKEN = 'test-token';
+      const getGitHubClientSpy = spyOn(githubClient, 'getGitHubClient');
+
+      configureVersionCache({ offline: true, dir: 'unused' });
+      try {
+        expect(await getGitHubLogin()).toBeNull();
+        expect(getGitHubClientSpy).not.toHaveBeenCalled();
+      } finally {
+        resetVersionCache();
+        getGitHubClientSpy.mockRestore();
+      }
+    });
+
     test('should return false when GITHUB_TOKEN is empty', () => {
       process.env.GITHUB_TOKEN = '';
       expect(hasGitHubToken()).toBe(false);
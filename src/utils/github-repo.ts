@@ -1,21 +1,31 @@
-import { Octokit } from 'octokit';
+import type { Octokit } from 'octokit';
+import { getGitHubClient, getGitHubToken } from './github-client';
+import { isOffline } from './version-cache';
 
 export interface CreateRepoOptions {
   name: string;
   description?: string;
   isPrivate: boolean;
+  /** Organization (or user) to create the repository under. Defaults to the GITHUB_TOKEN user. */
+  owner?: string;
+  /** GitHub license template key (e.g., "mit"), committed as LICENSE on creation */
+  licenseTemplate?: string;
 }
 
 export interface GitHubRepoResult {
+  owner: string;
+  name: string;
   url: string;
   cloneUrl: string;
   alreadyExisted: boolean;
+  /** True when GitHub made an initial commit (the license template) that a push must replace */
+  hasInitialCommit: boolean;
 }
 
 /**
  * Labels required for tagpr workflow
  */
-const TAGPR_LABELS = [
+export const TAGPR_LABELS = [
   {
     name: 'tagpr:minor',
     color: '0e8a16',
@@ -39,24 +49,40 @@ export class RepoAlreadyExistsError extends Error {
   }
 }
 
+/**
+ * Thrown when setup fails after a new repository was created,
+ * so callers can decide whether to delete it
+ */
+export class RepoSetupError extends Error {
+  constructor(
+    message: string,
+    public readonly owner: string,
+    public readonly repoName: string,
+    public readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = 'RepoSetupError';
+  }
+}
+
 /**
  * Creates a GitHub repository and sets up tagpr labels
  */
 export async function createGitHubRepo(
   options: CreateRepoOptions,
 ): Promise<GitHubRepoResult> {
-  const token = process.env.GITHUB_TOKEN;
-
-  if (!token) {
+  if (!getGitHubToken()) {
     throw new Error(
-      'GITHUB_TOKEN environment variable is required for repository creation',
+      'GITHUB_TOKEN (or GH_TOKEN) environment variable is required for repository creation',
     );
   }
 
-  const octokit = new Octokit({ auth: token });
+  const octokit = getGitHubClient();
 
   // Get authenticated user
   const { data: user } = await octokit.rest.users.getAuthenticated();
+  const owner = options.owner ?? user.login;
+  const isOrg = owner.toLowerCase() !== user.login.toLowerCase();
 
   let repoUrl: string;
   let cloneUrl: string;
@@ -64,12 +90,16 @@ export async function createGitHubRepo(
 
   // Create repository
   try {
-    const { data: repo } = await octokit.rest.repos.createForAuthenticatedUser({
+    const params = {
       name: options.name,
       description: options.description ?? '',
       private: options.isPrivate,
       auto_init: false,
-    });
+      license_template: options.licenseTemplate,
+    };
+    const { data: repo } = isOrg
+      ? await octokit.rest.repos.createInOrg({ org: owner, ...params })
+      : await octokit.rest.repos.createForAuthenticatedUser(params);
     repoUrl = repo.html_url;
     cloneUrl = repo.clone_url;
   } catch (error) {
@@ -80,7 +110,7 @@ export async function createGitHubRepo(
       // Fetch existing repo info
       try {
         const { data: existingRepo } = await octokit.rest.repos.get({
-          owner: user.login,
+          owner,
           repo: options.name,
         });
         repoUrl = existingRepo.html_url;
@@ -97,15 +127,46 @@ export async function createGitHubRepo(
   }
 
   // Create tagpr labels (skip silently if already exist)
-  await createTagprLabels(octokit, user.login, options.name);
+  try {
+    await createTagprLabels(octokit, owner, options.name);
+  } catch (error) {
+    if (alreadyExisted) {
+      throw error;
+    }
+    throw new RepoSetupError(
+      `Repository "${owner}/${options.name}" was created but label setup failed: ${error instanceof Error ? error.message : String(error)}`,
+      owner,
+      options.name,
+      error instanceof Error ? error : undefined,
+    );
+  }
 
   return {
+    owner,
+    name: options.name,
     url: repoUrl,
     cloneUrl,
     alreadyExisted,
+    hasInitialCommit: !alreadyExisted && options.licenseTemplate !== undefined,
   };
 }
 
+/**
+ * Deletes a repository (requires the delete_repo scope)
+ */
+export async function deleteGitHubRepo(
+  owner: string,
+  name: string,
+): Promise<void> {
+  if (!getGitHubToken()) {
+    throw new Error(
+      'GITHUB_TOKEN (or GH_TOKEN) environment variable is required for repository deletion',
+    );
+  }
+
+  await getGitHubClient().rest.repos.delete({ owner, repo: name });
+}
+
 /**
  * Creates tagpr labels for a repository
  */
@@ -134,8 +195,92 @@ async function createTagprLabels(
 }
 
 /**
- * Checks if GITHUB_TOKEN is available
+ * Creates the tagpr labels a repository is missing
+ */
+export async function ensureTagprLabels(
+  owner: string,
+  repo: string,
+): Promise<void> {
+  await createTagprLabels(getGitHubClient(), owner, repo);
+}
+
+/**
+ * Settings of an existing repository that initrepo doctor checks
+ */
+export interface RepoSettings {
+  defaultBranch: string;
+  labels: string[];
+}
+
+export async function getRepoSettings(
+  owner: string,
+  repo: string,
+): Promise<RepoSettings> {
+  const octokit = getGitHubClient();
+  const { data } = await octokit.rest.repos.get({ owner, repo });
+  const labels = await octokit.paginate(octokit.rest.issues.listLabelsForRepo, {
+    owner,
+    repo,
+    per_page: 100,
+  });
+  return {
+    defaultBranch: data.default_branch,
+    labels: labels.map((label) => label.name),
+  };
+}
+
+/**
+ * Names of the repository's Actions secrets (requires admin access)
+ */
+export async function listSecretNames(
+  owner: string,
+  repo: string,
+): Promise<string[]> {
+  const octokit = getGitHubClient();
+  const secrets = await octokit.paginate(octokit.rest.actions.listRepoSecrets, {
+    owner,
+    repo,
+    per_page: 100,
+  });
+  return secrets.map((secret) => secret.name);
+}
+
+/**
+ * Whether GitHub Actions is enabled for the repository (requires admin access)
+ */
+export async function isActionsEnabled(
+  owner: string,
+  repo: string,
+): Promise<boolean> {
+  const { data } =
+    await getGitHubClient().rest.actions.getGithubActionsPermissionsRepository({
+      owner,
+      repo,
+    });
+  return data.enabled;
+}
+
+/**
+ * Gets the login of the GITHUB_TOKEN (or GH_TOKEN) owner
+ * Returns null if no token is set, the run is --offline or the lookup fails
+ */
+export async function getGitHubLogin(): Promise<string | null> {
+  if (!getGitHubToken() || isOffline()) {
+    return null;
+  }
+
+  try {
+    const { data: user } =
+      await getGitHubClient().rest.users.getAuthenticated();
+    return user.login;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks if GITHUB_TOKEN or GH_TOKEN is available
  */
 export function hasGitHubToken(): boolean {
-  return !!process.env.GITHUB_TOKEN;
+  return !!getGitHubToken();
 }
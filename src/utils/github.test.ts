@@ -0,0 +1,193 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from 'bun:test';
+import {
+  getActionRepo,
+  getLatestActionVersions,
+  getLatestPinnedActionVersion,
+  validateActionPinning,
+} from './github';
+import { getRateLimitStatus } from './github-client';
+
+const SHA = '11bd71901bbe5b1630ceea73d27597364c9af683';
+
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Serves releases/latest and commits/<ref> for every repository
+ */
+function mockGitHubApi(tag = 'v4.2.2'): ReturnType<typeof mock> {
+  return mock((url: string) => {
+    if (url.endsWith('/releases/latest')) {
+      return Promise.resolve(jsonResponse({ tag_name: tag }));
+    }
+    return Promise.resolve(
+      new Response(`${SHA}\n`, {
+        headers: {
+          'content-type': 'application/vnd.github.sha; charset=utf-8',
+        },
+      }),
+    );
+  });
+}
+
+/**
+ * Every request fails as if the hourly quota were used up
+ */
+function mockRateLimitedApi(): ReturnType<typeof mock> {
+  const reset = Math.floor(Date.now() / 1000) + 3600;
+  return mock(() =>
+    Promise.resolve(
+      jsonResponse({ message: 'API rate limit exceeded' }, 403, {
+        'x-ratelimit-limit': '60',
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': String(reset),
+      }),
+    ),
+  );
+}
+
+describe('github utils', () => {
+  const originalFetch = globalThis.fetch;
+  const originalToken = process.env.GITHUB_TOKEN;
+  const originalGhToken = process.env.GH_TOKEN;
+  let warnSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    delete process.env.GITHUB_TOKEN;
+    delete process.env.GH_TOKEN;
+    warnSpy = spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    warnSpy.mockRestore();
+    for (const [key, value] of [
+      ['GITHUB_TOKEN', originalToken],
+      ['GH_TOKEN', originalGhToken],
+    ] as const) {
+      if (value !== undefined) {
+        process.env[key] = value;
+      } else {
+        delete process.env[key];
+      }
+    }
+  });
+
+  test('getActionRepo should map sub-actions to their repository', () => {
+    expect(getActionRepo('github/codeql-action/init')).toBe(
+      'github/codeql-action',
+    );
+    expect(getActionRepo('actions/checkout')).toBe('actions/checkout');
+  });
+
+  test('validateActionPinning should reject unknown modes', () => {
+    expect(validateActionPinning('sha')).toBe('sha');
+    expect(() => validateActionPinning('tag')).toThrow(
+      'Unsupported action pinning: tag',
+    );
+  });
+
+  test('getLatestPinnedActionVersion should resolve the release tag to a SHA', async () => {
+    const fetchMock = mockGitHubApi();
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    expect(await getLatestPinnedActionVersion('actions/checkout')).toBe(
+      `${SHA} # v4.2.2`,
+    );
+    expect(fetchMock.mock.calls[1][0]).toBe(
+      'https://api.github.com/repos/actions/checkout/commits/v4.2.2',
+    );
+  });
+
+  test('should authenticate with GH_TOKEN', async () => {
+    process.env.GH_TOKEN = 'gh-token';
+    const fetchMock = mockGitHubApi();
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    await getLatestActionVersions(['actions/checkout']);
+
+    const init = fetchMock.mock.calls[0][1] as RequestInit;
+    expect((init.headers as Record<string, string>).authorization).toBe(
+      'token gh-token',
+    );
+  });
+
+  describe('getLatestActionVersions', () => {
+    test('should return major tags by default', async () => {
+      globalThis.fetch = mockGitHubApi() as unknown as typeof fetch;
+
+      const versions = await getLatestActionVersions(['actions/checkout']);
+      expect(versions).toEqual({ 'actions/checkout': 'v4' });
+    });
+
+    test('should pin sub-actions to their repository SHA', async () => {
+      const fetchMock = mockGitHubApi('v3.28.0');
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const versions = await getLatestActionVersions(
+        ['github/codeql-action/init', 'github/codeql-action/analyze'],
+        'sha',
+      );
+
+      expect(versions).toEqual({
+        'github/codeql-action/init': `${SHA} # v3.28.0`,
+        'github/codeql-action/analyze': `${SHA} # v3.28.0`,
+      });
+      // One release and one commit lookup for the shared repository
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    test('should fall back to configured major tags', async () => {
+      globalThis.fetch = mock(() =>
+        Promise.resolve(jsonResponse({ message: 'Not Found' }, 404)),
+      ) as unknown as typeof fetch;
+
+      const versions = await getLatestActionVersions(['actions/checkout']);
+      expect(versions['actions/checkout']).toMatch(/^v\d+$/);
+    });
+
+    test('should warn when the rate limit forces a fallback', async () => {
+      const fetchMock = mockRateLimitedApi();
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const versions = await getLatestActionVersions(['actions/checkout']);
+
+      expect(versions['actions/checkout']).toMatch(/^v\d+$/);
+      // The reset is an hour away, so the request is not retried
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const warnings = warnSpy.mock.calls.map((call: unknown[]) =>
+        String(call[0]),
+      );
+      expect(warnings.join('\n')).toContain('GitHub API rate limit exceeded');
+      expect(warnings.join('\n')).toContain('set GITHUB_TOKEN or GH_TOKEN');
+      expect(String(warnSpy.mock.calls[1][0])).toContain('actions/checkout');
+      expect(getRateLimitStatus()?.remaining).toBe(0);
+    });
+
+    test('should fail instead of leaving actions unpinned', async () => {
+      globalThis.fetch = mockRateLimitedApi() as unknown as typeof fetch;
+
+      await expect(
+        getLatestActionVersions(['actions/checkout'], 'sha'),
+      ).rejects.toThrow(
+        'Could not resolve commit SHAs for actions/checkout (GitHub API rate limit exceeded',
+      );
+    });
+  });
+});
@@ -1,4 +1,57 @@
 import { DEFAULT_ACTION_VERSION, GITHUB_ACTIONS } from '../config';
+import type { ActionPinning } from '../types';
+import { describeGitHubError, getGitHubClient } from './github-client';
+import { resolveCachedVersions } from './version-cache';
+
+export const SUPPORTED_ACTION_PINNINGS: ActionPinning[] = ['major', 'sha'];
+
+export const DEFAULT_ACTION_PINNING: ActionPinning = 'major';
+
+export class ActionPinError extends Error {
+  constructor(
+    public readonly actions: string[],
+    reason?: string,
+  ) {
+    super(
+      `Could not resolve commit SHAs for ${actions.join(', ')}${reason ? ` (${reason})` : ''}. Pinning needs the GitHub API (or a cached SHA); set GITHUB_TOKEN or GH_TOKEN if you hit the rate limit`,
+    );
+    this.name = 'ActionPinError';
+  }
+}
+
+export function validateActionPinning(pinning: string): ActionPinning {
+  if (!SUPPORTED_ACTION_PINNINGS.includes(pinning as ActionPinning)) {
+    throw new Error(
+      `Unsupported action pinning: ${pinning}. Supported: ${SUPPORTED_ACTION_PINNINGS.join(', ')}`,
+    );
+  }
+  return pinning as ActionPinning;
+}
+
+/**
+ * Repository that hosts an action; sub-actions live in their parent repo
+ * (e.g., "github/codeql-action/init" -> "github/codeql-action")
+ */
+export function getActionRepo(action: string): string {
+  return action.split('/').slice(0, 2).join('/');
+}
+
+function splitRepo(repo: string): { owner: string; repo: string } {
+  const [owner, name] = repo.split('/');
+  return { owner, repo: name };
+}
+
+/**
+ * Fetches the tag of the latest release of an action's repository
+ * @param repo - Repository in format "owner/repo" (e.g., "actions/checkout")
+ * @returns Release tag (e.g., "v4.2.0")
+ */
+async function getLatestActionTag(repo: string): Promise<string> {
+  const { data } = await getGitHubClient().rest.repos.getLatestRelease(
+    splitRepo(repo),
+  );
+  return data.tag_name;
+}
 
 /**
  * Fetches the latest major version tag for a GitHub Action
@@ -6,41 +59,119 @@ import { DEFAULT_ACTION_VERSION, GITHUB_ACTIONS } from '../config';
  * @returns Latest major version tag (e.g., "v4")
  */
 export async function getLatestActionVersion(repo: string): Promise<string> {
-  const response = await fetch(
-    `https://api.github.com/repos/${repo}/releases/latest`,
-  );
+  const tag = await getLatestActionTag(repo);
+  // Extract major version (e.g., "v4.2.0" -> "v4")
+  const match = tag.match(/^v?(\d+)/);
+  return match ? `v${match[1]}` : tag;
+}
+
+/**
+ * Fetches the commit SHA a tag points to
+ */
+export async function getActionCommitSha(
+  repo: string,
+  ref: string,
+): Promise<string> {
+  const { data } = await getGitHubClient().rest.repos.getCommit({
+    ...splitRepo(repo),
+    ref,
+    mediaType: { format: 'sha' },
+  });
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch latest release for ${repo}`);
+  // The "sha" media type returns the bare SHA instead of a commit object
+  const sha = String(data).trim();
+  if (!/^[0-9a-f]{40}$/.test(sha)) {
+    throw new Error(`Unexpected commit SHA for ${repo}@${ref}: ${sha}`);
   }
+  return sha;
+}
 
-  const data = (await response.json()) as { tag_name: string };
-  // Extract major version (e.g., "v4.2.0" -> "v4")
-  const match = data.tag_name.match(/^v?(\d+)/);
-  return match ? `v${match[1]}` : data.tag_name;
+/**
+ * Resolves the latest release of an action to a pinned reference
+ * @returns "<sha> # <tag>", rendered after "@" in `uses:`
+ */
+export async function getLatestPinnedActionVersion(
+  repo: string,
+): Promise<string> {
+  const tag = await getLatestActionTag(repo);
+  const sha = await getActionCommitSha(repo, tag);
+  return `${sha} # ${tag}`;
+}
+
+/**
+ * Wraps a lookup so that failures are collected while still propagating
+ */
+function trackFailures(
+  lookup: (repo: string) => Promise<string>,
+  failures: Map<string, unknown>,
+): (repo: string) => Promise<string> {
+  return async (repo) => {
+    try {
+      return await lookup(repo);
+    } catch (error) {
+      failures.set(repo, error);
+      throw error;
+    }
+  };
+}
+
+function describeFailures(failures: Map<string, unknown>): string {
+  return [...new Set([...failures.values()].map(describeGitHubError))].join(
+    '; ',
+  );
 }
 
 /**
- * Fetches latest major versions for all configured GitHub Actions
+ * Fetches latest versions for all configured GitHub Actions
+ * With "sha" pinning each version is a commit SHA followed by the release tag
+ * as a comment; actions whose SHA cannot be resolved are an error rather
+ * than silently left unpinned. With "major" pinning failed lookups fall back
+ * to cached or built-in tags, with a warning naming the affected actions.
  */
 export async function getLatestActionVersions(
   actions: readonly string[] = Object.keys(GITHUB_ACTIONS),
+  pinning: ActionPinning = DEFAULT_ACTION_PINNING,
 ): Promise<Record<string, string>> {
-  const versions: Record<string, string> = {};
-
-  await Promise.all(
-    actions.map(async (action) => {
-      try {
-        versions[action] = await getLatestActionVersion(action);
-      } catch {
-        versions[action] =
-          GITHUB_ACTIONS[action as keyof typeof GITHUB_ACTIONS] ??
-          DEFAULT_ACTION_VERSION;
-      }
-    }),
-  );
+  const repos = [...new Set(actions.map(getActionRepo))];
+  const failures = new Map<string, unknown>();
+
+  const repoVersions =
+    pinning === 'sha'
+      ? await resolveCachedVersions(
+          'actions-sha',
+          repos,
+          trackFailures(getLatestPinnedActionVersion, failures),
+          () => '',
+        )
+      : await resolveCachedVersions(
+          'actions',
+          repos,
+          trackFailures(getLatestActionVersion, failures),
+          (repo) =>
+            GITHUB_ACTIONS[repo as keyof typeof GITHUB_ACTIONS] ??
+            DEFAULT_ACTION_VERSION,
+        );
 
-  return versions;
+  const unresolved = repos.filter((repo) => repoVersions[repo] === '');
+  if (unresolved.length > 0) {
+    throw new ActionPinError(
+      unresolved,
+      failures.size > 0 ? describeFailures(failures) : undefined,
+    );
+  }
+
+  if (failures.size > 0) {
+    console.warn(
+      `\n⚠️  Could not fetch the latest GitHub Actions versions: ${describeFailures(failures)}`,
+    );
+    console.warn(
+      `   Using cached or built-in versions, which may be outdated, for: ${[...failures.keys()].join(', ')}`,
+    );
+  }
+
+  return Object.fromEntries(
+    actions.map((action) => [action, repoVersions[getActionRepo(action)]]),
+  );
 }
 
 // Re-export for convenience
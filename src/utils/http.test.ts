@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, mock, test } from 'bun:test';
+import * as path from 'node:path';
+import {
+  configureHttp,
+  getProxyForUrl,
+  getRetryDelay,
+  HttpError,
+  httpFetch,
+  parseTimeout,
+  resetHttp,
+  resolveHttpOptions,
+} from './http';
+
+describe('http utils', () => {
+  const originalFetch = globalThis.fetch;
+  const originalProxy = process.env.HTTPS_PROXY;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    resetHttp();
+    if (originalProxy !== undefined) {
+      process.env.HTTPS_PROXY = originalProxy;
+    } else {
+      delete process.env.HTTPS_PROXY;
+    }
+  });
+
+  test('parseTimeout should accept seconds and milliseconds', () => {
+    expect(parseTimeout('30s')).toBe(30_000);
+    expect(parseTimeout('1500ms')).toBe(1500);
+    expect(parseTimeout('2')).toBe(2000);
+    expect(() => parseTimeout('0')).toThrow('Invalid HTTP timeout: 0');
+    expect(() => parseTimeout('1m')).toThrow('Invalid HTTP timeout: 1m');
+  });
+
+  test('resolveHttpOptions should validate retries', () => {
+    expect(resolveHttpOptions({ retries: '3' }).retries).toBe(3);
+    expect(() => resolveHttpOptions({ retries: '-1' })).toThrow(
+      'Invalid HTTP retries: -1',
+    );
+  });
+
+  test('configureHttp should fail for a missing CA bundle', async () => {
+    const caFile = path.join(import.meta.dir, 'missing-ca.pem');
+
+    await expect(configureHttp({ caFile })).rejects.toThrow(
+      `Could not read CA bundle "${caFile}"`,
+    );
+  });
+
+  describe('getProxyForUrl', () => {
+    test('should pick the proxy for the URL scheme', () => {
+      const env = {
+        HTTPS_PROXY: 'http://proxy:3128',
+        http_proxy: 'http://p:80',
+      };
+
+      expect(getProxyForUrl('https://registry.npmjs.org/x', env)).toBe(
+        'http://proxy:3128',
+      );
+      expect(getProxyForUrl('http://example.com', env)).toBe('http://p:80');
+      expect(getProxyForUrl('https://example.com', {})).toBeUndefined();
+    });
+
+    test('should honor NO_PROXY domains, ports and wildcards', () => {
+      const env = {
+        HTTPS_PROXY: 'http://proxy:3128',
+        NO_PROXY: 'localhost,.internal.example.com,crates.io:8443',
+      };
+
+      expect(getProxyForUrl('https://localhost:4873', env)).toBeUndefined();
+      expect(
+        getProxyForUrl('https://npm.internal.example.com', env),
+      ).toBeUndefined();
+      expect(getProxyForUrl('https://crates.io', env)).toBe(
+        'http://proxy:3128',
+      );
+      expect(getProxyForUrl('https://crates.io:8443', env)).toBeUndefined();
+      expect(
+        getProxyForUrl('https://pypi.org', { ...env, NO_PROXY: '*' }),
+      ).toBeUndefined();
+    });
+  });
+
+  test('getRetryDelay should jitter exponential backoff and cap Retry-After', () => {
+    expect(getRetryDelay(0, null, () => 0.5)).toBe(250);
+    expect(getRetryDelay(2, null, () => 0.5)).toBe(1000);
+    expect(getRetryDelay(10, null, () => 1)).toBe(10_000);
+    expect(getRetryDelay(0, '2')).toBe(2000);
+    expect(getRetryDelay(0, '3600')).toBe(10_000);
+  });
+
+  describe('httpFetch', () => {
+    test('should retry server errors', async () => {
+      const fetchMock = mock()
+        .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+        .mockResolvedValueOnce(new Response('ok'));
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const response = await httpFetch('https://registry.npmjs.org/x');
+
+      expect(await response.text()).toBe('ok');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not retry POST requests', async () => {
+      const fetchMock = mock(() =>
+        Promise.resolve(new Response('', { status: 503 })),
+      );
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const response = await httpFetch('https://api.github.com/user/repos', {
+        method: 'POST',
+      });
+
+      expect(response.status).toBe(503);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    test('should time out hanging requests', async () => {
+      await configureHttp({ timeoutMs: 20, retries: 1 });
+      const fetchMock = mock(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () =>
+              reject(init.signal?.reason),
+            );
+          }),
+      );
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const error = await httpFetch('https://pypi.org/pypi/x/json').catch(
+        (caught) => caught,
+      );
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.message).toBe('Request to pypi.org timed out after 20ms');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    test('should send requests through the HTTPS proxy', async () => {
+      process.env.HTTPS_PROXY = 'http://proxy.example.com:3128';
+      const fetchMock = mock(() => Promise.resolve(new Response('ok')));
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      await httpFetch('https://crates.io/api/v1/crates/serde');
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://crates.io/api/v1/crates/serde',
+        expect.objectContaining({ proxy: 'http://proxy.example.com:3128' }),
+      );
+    });
+  });
+});
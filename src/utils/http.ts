@@ -0,0 +1,294 @@
+import * as fs from 'node:fs/promises';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { rootCertificates } from 'node:tls';
+
+export const DEFAULT_HTTP_TIMEOUT_MS = 10_000;
+
+export const DEFAULT_HTTP_RETRIES = 2;
+
+/** First retry waits up to this long; each further retry doubles it */
+const RETRY_BASE_DELAY_MS = 500;
+
+/** Upper bound for a single retry wait, including Retry-After */
+const MAX_RETRY_DELAY_MS = 10_000;
+
+/** Only requests that are safe to repeat are retried */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD'];
+
+export interface HttpOptions {
+  /** Per-request timeout in milliseconds */
+  timeoutMs?: number;
+  /** Retries after a network error, timeout, 429 or 5xx response */
+  retries?: number;
+  /** PEM file with extra trusted CA certificates, added to the defaults */
+  caFile?: string;
+}
+
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+interface HttpSettings {
+  timeoutMs: number;
+  retries: number;
+  /** Default roots plus the extra CA bundle, if one is configured */
+  ca?: string[];
+}
+
+let settings: HttpSettings = {
+  timeoutMs: DEFAULT_HTTP_TIMEOUT_MS,
+  retries: DEFAULT_HTTP_RETRIES,
+};
+
+/** Node.js dispatchers by proxy URL ('' for direct connections) */
+const dispatchers = new Map<string, unknown>();
+
+/**
+ * Parses a timeout such as "30s", "1500ms" or "30" (seconds) into milliseconds
+ */
+export function parseTimeout(timeout: string): number {
+  const match = timeout.trim().match(/^(\d+(?:\.\d+)?)(ms|s)?$/);
+  if (!match || Number(match[1]) <= 0) {
+    throw new Error(
+      `Invalid HTTP timeout: ${timeout}. Use seconds or milliseconds, e.g. 30s or 1500ms`,
+    );
+  }
+  const value = Number(match[1]);
+  return match[2] === 'ms' ? value : value * 1000;
+}
+
+export function parseRetries(retries: string): number {
+  if (!/^\d+$/.test(retries.trim())) {
+    throw new Error(
+      `Invalid HTTP retries: ${retries}. Use a whole number, e.g. 2`,
+    );
+  }
+  return Number(retries);
+}
+
+/**
+ * Builds HTTP options from config values, validating each one
+ */
+export function resolveHttpOptions(values: {
+  timeout?: string;
+  retries?: string;
+  caFile?: string;
+}): HttpOptions {
+  return {
+    timeoutMs:
+      values.timeout !== undefined ? parseTimeout(values.timeout) : undefined,
+    retries:
+      values.retries !== undefined ? parseRetries(values.retries) : undefined,
+    caFile: values.caFile,
+  };
+}
+
+/**
+ * Sets the timeout, retries and CA bundle for every later request
+ */
+export async function configureHttp(options: HttpOptions): Promise<void> {
+  let ca: string[] | undefined;
+  if (options.caFile) {
+    try {
+      ca = [...rootCertificates, await fs.readFile(options.caFile, 'utf-8')];
+    } catch (error) {
+      throw new Error(
+        `Could not read CA bundle "${options.caFile}": ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  settings = {
+    timeoutMs: options.timeoutMs ?? DEFAULT_HTTP_TIMEOUT_MS,
+    retries: options.retries ?? DEFAULT_HTTP_RETRIES,
+    ca,
+  };
+  dispatchers.clear();
+}
+
+/**
+ * Restores the defaults (for tests)
+ */
+export function resetHttp(): void {
+  settings = {
+    timeoutMs: DEFAULT_HTTP_TIMEOUT_MS,
+    retries: DEFAULT_HTTP_RETRIES,
+  };
+  dispatchers.clear();
+}
+
+/**
+ * Whether NO_PROXY exempts a host; entries match the host itself and its
+ * subdomains, optionally limited to a port, and "*" disables proxying
+ */
+function isNoProxy(url: URL, noProxy: string): boolean {
+  const host = url.hostname.toLowerCase();
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+  return noProxy
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .some((entry) => {
+      if (entry === '*') {
+        return true;
+      }
+      const [entryHost, entryPort] = entry.toLowerCase().split(':');
+      if (entryPort && entryPort !== port) {
+        return false;
+      }
+      const domain = entryHost.replace(/^\*?\./, '');
+      return host === domain || host.endsWith(`.${domain}`);
+    });
+}
+
+/**
+ * Proxy for a URL from HTTPS_PROXY / HTTP_PROXY, honoring NO_PROXY
+ * (lowercase variants are accepted too)
+ */
+export function getProxyForUrl(
+  url: string | URL,
+  env: NodeJS.ProcessEnv = process.env,
+): string | undefined {
+  const target = new URL(url);
+  const proxy =
+    target.protocol === 'https:'
+      ? env.HTTPS_PROXY || env.https_proxy
+      : env.HTTP_PROXY || env.http_proxy;
+  if (!proxy) {
+    return undefined;
+  }
+
+  const noProxy = env.NO_PROXY || env.no_proxy;
+  return noProxy && isNoProxy(target, noProxy) ? undefined : proxy;
+}
+
+/**
+ * Wait before a retry: full jitter over an exponential backoff, or the
+ * server's Retry-After (in seconds) when it sends one; both are capped
+ */
+export function getRetryDelay(
+  attempt: number,
+  retryAfter?: string | null,
+  random: () => number = Math.random,
+): number {
+  const retryAfterSeconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(retryAfterSeconds)) {
+    return Math.min(retryAfterSeconds * 1000, MAX_RETRY_DELAY_MS);
+  }
+  return Math.floor(
+    random() * Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS),
+  );
+}
+
+function isRetryableStatus(status: number | undefined): boolean {
+  return status === 429 || (status !== undefined && status >= 500);
+}
+
+function formatTimeout(ms: number): string {
+  return ms >= 1000 ? `${ms / 1000}s` : `${ms}ms`;
+}
+
+/**
+ * Picks the fetch implementation and its transport options for a URL.
+ * Bun's fetch takes `proxy` and `tls` directly; on Node.js the proxy and CA
+ * bundle need an undici dispatcher, used with undici's own fetch so the two
+ * always match.
+ */
+async function getTransport(
+  url: string,
+): Promise<{ fetchImpl: typeof fetch; init: Record<string, unknown> }> {
+  const proxy = getProxyForUrl(url);
+
+  if (process.versions.bun) {
+    return {
+      fetchImpl: globalThis.fetch,
+      init: {
+        ...(proxy && { proxy }),
+        ...(settings.ca && { tls: { ca: settings.ca } }),
+      },
+    };
+  }
+
+  if (!proxy && !settings.ca) {
+    return { fetchImpl: globalThis.fetch, init: {} };
+  }
+
+  const undici = await import('undici');
+  const key = proxy ?? '';
+  let dispatcher = dispatchers.get(key);
+  if (!dispatcher) {
+    const tls = settings.ca ? { ca: settings.ca } : undefined;
+    dispatcher = proxy
+      ? new undici.ProxyAgent({ uri: proxy, requestTls: tls, proxyTls: tls })
+      : new undici.Agent({ connect: tls });
+    dispatchers.set(key, dispatcher);
+  }
+  return {
+    fetchImpl: undici.fetch as unknown as typeof fetch,
+    init: { dispatcher },
+  };
+}
+
+/**
+ * fetch with a per-request timeout, bounded retries with jitter for GET and
+ * HEAD, proxy environment variables and the configured CA bundle.
+ * Every registry and GitHub lookup goes through this.
+ */
+export async function httpFetch(
+  input: string | URL,
+  init: RequestInit = {},
+): Promise<Response> {
+  const url = input.toString();
+  const method = (init.method ?? 'GET').toUpperCase();
+  const retries = IDEMPOTENT_METHODS.includes(method) ? settings.retries : 0;
+  const { fetchImpl, init: transport } = await getTransport(url);
+
+  for (let attempt = 0; ; attempt++) {
+    const timeout = AbortSignal.timeout(settings.timeoutMs);
+    const signal = init.signal
+      ? AbortSignal.any([init.signal, timeout])
+      : timeout;
+
+    let failure: HttpError;
+    try {
+      const response = await fetchImpl(url, {
+        ...init,
+        ...transport,
+        signal,
+      } as RequestInit);
+      if (attempt >= retries || !isRetryableStatus(response.status)) {
+        return response;
+      }
+      await sleep(getRetryDelay(attempt, response.headers.get('retry-after')));
+      continue;
+    } catch (error) {
+      if (init.signal?.aborted) {
+        throw error;
+      }
+      const host = new URL(url).host;
+      failure = timeout.aborted
+        ? new HttpError(
+            `Request to ${host} timed out after ${formatTimeout(settings.timeoutMs)}`,
+            url,
+            error,
+          )
+        : new HttpError(
+            `Request to ${host} failed: ${error instanceof Error ? error.message : String(error)}`,
+            url,
+            error,
+          );
+    }
+
+    if (attempt >= retries) {
+      throw failure;
+    }
+    await sleep(getRetryDelay(attempt));
+  }
+}
@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import {
+  ConfigError,
+  loadConfig,
+  parseConfigValue,
+  readConfigFile,
+  setConfigValue,
+  validateConfig,
+} from './initrepo-config';
+
+describe('initrepo config', () => {
+  const testDir = path.join(import.meta.dir, '../../.test-config');
+  const userDir = path.join(testDir, 'home');
+  const projectDir = path.join(testDir, 'project');
+  const dirs = { userDir, projectDir };
+
+  async function writeFile(filePath: string, content: string): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content, 'utf-8');
+  }
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should return an empty config when no file exists', async () => {
+    const loaded = await loadConfig(dirs);
+
+    expect(loaded.config).toEqual({});
+    expect(loaded.files).toEqual([]);
+  });
+
+  test('should let project config override user config', async () => {
+    await writeFile(
+      path.join(userDir, '.initreporc'),
+      JSON.stringify({ lang: 'go', author: 'alice', createRepo: true }),
+    );
+    await writeFile(
+      path.join(projectDir, '.initreporc.yaml'),
+      'lang: rust\nisPrivate: true\n',
+    );
+
+    const loaded = await loadConfig(dirs);
+
+    expect(loaded.config).toEqual({
+      lang: 'rust',
+      author: 'alice',
+      createRepo: true,
+      isPrivate: true,
+    });
+    expect(loaded.sources.lang).toBe('project');
+    expect(loaded.sources.author).toBe('user');
+  });
+
+  test('should read YAML from .initreporc', async () => {
+    const filePath = path.join(userDir, '.initreporc');
+    await writeFile(filePath, 'owner: octo-org\ndevcode: false\n');
+
+    expect(await readConfigFile(filePath)).toEqual({
+      owner: 'octo-org',
+      devcode: false,
+    });
+  });
+
+  test('should load initrepo.config.ts default export', async () => {
+    const filePath = path.join(projectDir, 'initrepo.config.ts');
+    await writeFile(filePath, "export default { license: 'Apache-2.0' };\n");
+
+    expect(await readConfigFile(filePath)).toEqual({ license: 'Apache-2.0' });
+  });
+
+  test('should load initrepo.config.mjs default export', async () => {
+    const filePath = path.join(projectDir, 'initrepo.config.mjs');
+    await writeFile(filePath, "export default { lang: 'rust' };\n");
+
+    expect(await readConfigFile(filePath)).toEqual({ lang: 'rust' });
+  });
+
+  test('should resolve templates relative to the config file', () => {
+    const config = validateConfig(
+      { templates: './templates' },
+      path.join(projectDir, '.initreporc'),
+    );
+
+    expect(config.templates).toBe(path.join(projectDir, 'templates'));
+  });
+
+  test('should reject unknown keys and wrong types', () => {
+    expect(() => validateConfig({ language: 'go' }, '.initreporc')).toThrow(
+      ConfigError,
+    );
+    expect(() => validateConfig({ createRepo: 'yes' }, '.initreporc')).toThrow(
+      'Invalid value for "createRepo"',
+    );
+  });
+
+  test('should accept numbers and lists where the flags take them', async () => {
+    const filePath = path.join(projectDir, '.initreporc.yaml');
+    await writeFile(
+      filePath,
+      'httpRetries: 3\nhttpTimeout: 30\nminReleaseAge: 7\npins:\n  - typescript@5.6.3\n  - ruff@0.8.0\n',
+    );
+
+    expect(await readConfigFile(filePath)).toEqual({
+      httpRetries: '3',
+      httpTimeout: '30',
+      minReleaseAge: '7',
+      pins: 'typescript@5.6.3,ruff@0.8.0',
+    });
+    expect(() => validateConfig({ lang: 3 }, '.initreporc')).toThrow(
+      'Invalid value for "lang" in ".initreporc": expected string',
+    );
+    expect(() => validateConfig({ pins: [1] }, '.initreporc')).toThrow(
+      'expected string or list of strings',
+    );
+  });
+
+  test('parseConfigValue should parse booleans', () => {
+    expect(parseConfigValue('isPrivate', 'true')).toBe(true);
+    expect(parseConfigValue('author', 'true')).toBe('true');
+    expect(() => parseConfigValue('devcode', 'yes')).toThrow(ConfigError);
+  });
+
+  test('setConfigValue should create and update .initreporc', async () => {
+    const filePath = await setConfigValue('user', 'author', 'alice', dirs);
+    await setConfigValue('user', 'createRepo', false, dirs);
+
+    expect(filePath).toBe(path.join(userDir, '.initreporc'));
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual({
+      author: 'alice',
+      createRepo: false,
+    });
+
+    await setConfigValue('user', 'author', undefined, dirs);
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual({
+      createRepo: false,
+    });
+  });
+
+  test('setConfigValue should keep YAML files as YAML', async () => {
+    const filePath = path.join(projectDir, '.initreporc.yml');
+    await writeFile(filePath, 'lang: python\n');
+
+    await setConfigValue('project', 'owner', 'octo-org', dirs);
+
+    expect(await fs.readFile(filePath, 'utf-8')).toBe(
+      'lang: python\nowner: octo-org\n',
+    );
+  });
+
+  test('setConfigValue should refuse to edit TS config', async () => {
+    await writeFile(
+      path.join(projectDir, 'initrepo.config.ts'),
+      'export default {};\n',
+    );
+
+    expect(setConfigValue('project', 'lang', 'go', dirs)).rejects.toThrow(
+      'Cannot edit',
+    );
+  });
+});
@@ -0,0 +1,396 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import YAML from 'yaml';
+
+/**
+ * Defaults for `init`, read from .initreporc / initrepo.config.ts
+ */
+export interface InitrepoConfig {
+  lang?: string;
+  author?: string;
+  /** GitHub owner (user or organization) */
+  owner?: string;
+  devcode?: boolean;
+  createRepo?: boolean;
+  isPrivate?: boolean;
+  license?: string;
+  /** Package manager for TypeScript projects (bun, npm, pnpm, yarn) */
+  packageManager?: string;
+  /** Kind of TypeScript project (library, cli, app) */
+  kind?: string;
+  /** Install dependencies after generating files */
+  install?: boolean;
+  /** Use only cached or fallback versions instead of querying registries */
+  offline?: boolean;
+  /** How workflows reference GitHub Actions (major, sha) */
+  pinActions?: string;
+  /** Skip dependency releases younger than this (e.g., 3d, 12h) */
+  minReleaseAge?: string;
+  /** Dependency range style (caret, tilde, exact) */
+  rangeStyle?: string;
+  /** Comma-separated exact versions (e.g., typescript@5.6.3,ruff@0.8.0); files may use a list */
+  pins?: string;
+  /** Template directory (relative paths are resolved from the config file) */
+  templates?: string;
+  /** Timeout for each registry or GitHub request (e.g., 30s, 1500ms) */
+  httpTimeout?: string;
+  /** Retries after network errors, timeouts and 429/5xx responses */
+  httpRetries?: string;
+  /** PEM file with extra CA certificates (relative paths are resolved from the config file) */
+  caFile?: string;
+}
+
+export type ConfigKey = keyof InitrepoConfig;
+
+export type ConfigScope = 'project' | 'user';
+
+/**
+ * Config file names, in lookup order within a directory
+ */
+export const CONFIG_FILE_NAMES = [
+  '.initreporc',
+  '.initreporc.json',
+  '.initreporc.yaml',
+  '.initreporc.yml',
+  'initrepo.config.ts',
+  'initrepo.config.js',
+  'initrepo.config.mjs',
+] as const;
+
+/**
+ * Value type of each key. Files may write "number" keys as numbers and
+ * "list" keys as lists; both are normalized to the strings the CLI flags take.
+ */
+const CONFIG_KEY_TYPES: Record<
+  ConfigKey,
+  'string' | 'boolean' | 'number' | 'list'
+> = {
+  lang: 'string',
+  author: 'string',
+  owner: 'string',
+  devcode: 'boolean',
+  createRepo: 'boolean',
+  isPrivate: 'boolean',
+  license: 'string',
+  packageManager: 'string',
+  kind: 'string',
+  install: 'boolean',
+  offline: 'boolean',
+  pinActions: 'string',
+  minReleaseAge: 'number',
+  rangeStyle: 'string',
+  pins: 'list',
+  templates: 'string',
+  httpTimeout: 'number',
+  httpRetries: 'number',
+  caFile: 'string',
+};
+
+export const CONFIG_KEYS = Object.keys(CONFIG_KEY_TYPES) as ConfigKey[];
+
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly configPath: string,
+  ) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface ConfigFile {
+  scope: ConfigScope;
+  path: string;
+  config: InitrepoConfig;
+}
+
+export interface ConfigDirs {
+  /** Directory searched for the project config (defaults to cwd) */
+  projectDir?: string;
+  /** Directory searched for the user config (defaults to the home directory) */
+  userDir?: string;
+}
+
+export interface LoadedConfig {
+  /** Project config merged over user config */
+  config: InitrepoConfig;
+  /** Scope that provided each key */
+  sources: Partial<Record<ConfigKey, ConfigScope>>;
+  files: ConfigFile[];
+}
+
+export function getConfigDir(
+  scope: ConfigScope,
+  dirs: ConfigDirs = {},
+): string {
+  return scope === 'project'
+    ? (dirs.projectDir ?? process.cwd())
+    : (dirs.userDir ?? os.homedir());
+}
+
+export function isConfigKey(key: string): key is ConfigKey {
+  return key in CONFIG_KEY_TYPES;
+}
+
+/**
+ * Validates a parsed config object and resolves relative template and CA paths
+ */
+/**
+ * Checks a value from a config file against its key's type
+ */
+function normalizeConfigValue(
+  key: ConfigKey,
+  value: unknown,
+  configPath: string,
+): string | boolean {
+  const type = CONFIG_KEY_TYPES[key];
+  if (
+    type === 'boolean' ? typeof value === 'boolean' : typeof value === 'string'
+  ) {
+    return value as string | boolean;
+  }
+  if (type === 'number' && typeof value === 'number') {
+    return String(value);
+  }
+  if (
+    type === 'list' &&
+    Array.isArray(value) &&
+    value.every((entry) => typeof entry === 'string')
+  ) {
+    return value.join(',');
+  }
+
+  const expected = {
+    string: 'string',
+    boolean: 'boolean',
+    number: 'string or number',
+    list: 'string or list of strings',
+  }[type];
+  throw new ConfigError(
+    `Invalid value for "${key}" in "${configPath}": expected ${expected}`,
+    configPath,
+  );
+}
+
+export function validateConfig(
+  raw: unknown,
+  configPath: string,
+): InitrepoConfig {
+  if (raw === null || raw === undefined) {
+    return {};
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigError(
+      `Invalid config in "${configPath}": expected an object`,
+      configPath,
+    );
+  }
+
+  const config: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!isConfigKey(key)) {
+      throw new ConfigError(
+        `Unknown config key "${key}" in "${configPath}". Valid keys: ${CONFIG_KEYS.join(', ')}`,
+        configPath,
+      );
+    }
+    config[key] = normalizeConfigValue(key, value, configPath);
+  }
+
+  if (typeof config.templates === 'string') {
+    config.templates = path.resolve(path.dirname(configPath), config.templates);
+  }
+  if (typeof config.caFile === 'string') {
+    config.caFile = path.resolve(path.dirname(configPath), config.caFile);
+  }
+
+  return config as InitrepoConfig;
+}
+
+/**
+ * Returns the first config file found in a directory, or null
+ */
+export async function findConfigFile(dir: string): Promise<string | null> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const filePath = path.join(dir, name);
+    try {
+      await fs.access(filePath);
+      return filePath;
+    } catch {
+      // Try next name
+    }
+  }
+  return null;
+}
+
+function isModuleConfig(filePath: string): boolean {
+  return /\.(ts|js|mjs)$/.test(filePath);
+}
+
+/**
+ * Imports a module config. Bun runs TypeScript as is; Node cannot import a
+ * .ts file, so its types are stripped first (node:module, Node 22.13+).
+ */
+async function importModuleConfig(filePath: string): Promise<unknown> {
+  if (!filePath.endsWith('.ts') || process.versions.bun) {
+    const mod = (await import(pathToFileURL(filePath).href)) as {
+      default?: unknown;
+    };
+    return mod.default;
+  }
+
+  const { stripTypeScriptTypes } = (await import('node:module')) as {
+    stripTypeScriptTypes?: (code: string) => string;
+  };
+  if (!stripTypeScriptTypes) {
+    throw new ConfigError(
+      `Cannot load "${filePath}": Node.js ${process.version} cannot read TypeScript. Use Node.js 22.13 or later, or rename it to initrepo.config.mjs`,
+      filePath,
+    );
+  }
+  const code = stripTypeScriptTypes(await fs.readFile(filePath, 'utf-8'));
+  const mod = (await import(
+    `data:text/javascript;base64,${Buffer.from(code).toString('base64')}`
+  )) as { default?: unknown };
+  return mod.default;
+}
+
+/**
+ * Reads a config file. .initreporc may contain JSON or YAML;
+ * initrepo.config.ts/.js/.mjs must default-export the config object.
+ */
+export async function readConfigFile(
+  filePath: string,
+): Promise<InitrepoConfig> {
+  let raw: unknown;
+
+  if (isModuleConfig(filePath)) {
+    raw = await importModuleConfig(filePath);
+  } else {
+    const content = await fs.readFile(filePath, 'utf-8');
+    try {
+      // YAML is a superset of JSON, so one parser covers every rc format
+      raw = YAML.parse(content);
+    } catch (error) {
+      throw new ConfigError(
+        `Failed to parse "${filePath}": ${error instanceof Error ? error.message : String(error)}`,
+        filePath,
+      );
+    }
+  }
+
+  return validateConfig(raw, filePath);
+}
+
+/**
+ * Loads user and project config files
+ * Precedence: project config > user config
+ */
+export async function loadConfig(dirs: ConfigDirs = {}): Promise<LoadedConfig> {
+  const files: ConfigFile[] = [];
+
+  for (const scope of ['user', 'project'] as const) {
+    const filePath = await findConfigFile(getConfigDir(scope, dirs));
+    if (filePath) {
+      files.push({
+        scope,
+        path: filePath,
+        config: await readConfigFile(filePath),
+      });
+    }
+  }
+
+  const config: InitrepoConfig = {};
+  const sources: LoadedConfig['sources'] = {};
+  // Later files (project) override earlier ones (user)
+  for (const file of files) {
+    for (const key of CONFIG_KEYS) {
+      if (file.config[key] !== undefined) {
+        (config as Record<string, unknown>)[key] = file.config[key];
+        sources[key] = file.scope;
+      }
+    }
+  }
+
+  return { config, sources, files };
+}
+
+/**
+ * Parses a command-line value for a config key
+ */
+export function parseConfigValue(
+  key: ConfigKey,
+  value: string,
+): string | boolean {
+  if (CONFIG_KEY_TYPES[key] === 'boolean') {
+    if (value === 'true') {
+      return true;
+    }
+    if (value === 'false') {
+      return false;
+    }
+    throw new ConfigError(
+      `Invalid value for "${key}": expected true or false`,
+      key,
+    );
+  }
+  return value;
+}
+
+/**
+ * Sets (or unsets, when value is undefined) a key in the scope's config file.
+ * Creates .initreporc (JSON) if the scope has no config file yet.
+ * Returns the path of the written file.
+ */
+export async function setConfigValue(
+  scope: ConfigScope,
+  key: ConfigKey,
+  value: string | boolean | undefined,
+  dirs: ConfigDirs = {},
+): Promise<string> {
+  const dir = getConfigDir(scope, dirs);
+  const filePath =
+    (await findConfigFile(dir)) ?? path.join(dir, CONFIG_FILE_NAMES[0]);
+
+  if (isModuleConfig(filePath)) {
+    throw new ConfigError(
+      `Cannot edit "${filePath}" automatically. Edit it manually or use a .initreporc file.`,
+      filePath,
+    );
+  }
+
+  let content = '';
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    const fsError = error as NodeJS.ErrnoException;
+    if (fsError.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  const isYaml =
+    filePath.endsWith('.yaml') ||
+    filePath.endsWith('.yml') ||
+    (content.trim() !== '' && !content.trim().startsWith('{'));
+
+  // Keep raw values (e.g., relative template paths) as written by the user
+  const raw = (content.trim() ? YAML.parse(content) : {}) ?? {};
+  validateConfig(raw, filePath);
+  const next: Record<string, unknown> = { ...raw };
+  if (value === undefined) {
+    delete next[key];
+  } else {
+    next[key] = value;
+  }
+
+  const output = isYaml
+    ? YAML.stringify(next)
+    : `${JSON.stringify(next, null, 2)}\n`;
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(filePath, output, 'utf-8');
+
+  return filePath;
+}
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { InstallError, runInstall } from './install';
+
+describe('install utils', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'initrepo-install-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should report whether the lockfile was written', async () => {
+    const result = await runInstall(testDir, {
+      command: process.execPath,
+      args: ['-e', "require('fs').writeFileSync('app.lock', '')"],
+      lockfile: 'app.lock',
+    });
+
+    expect(result).toEqual({ lockfilePresent: true });
+  });
+
+  test('should return null when no lockfile is expected', async () => {
+    const result = await runInstall(testDir, {
+      command: process.execPath,
+      args: ['-e', ''],
+    });
+
+    expect(result).toEqual({ lockfilePresent: null });
+  });
+
+  test('should reject with the exit code on failure', async () => {
+    const error = await runInstall(testDir, {
+      command: process.execPath,
+      args: ['-e', 'process.exit(3)'],
+      lockfile: 'app.lock',
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(InstallError);
+    expect((error as InstallError).exitCode).toBe(3);
+    expect(await fs.readdir(testDir)).toEqual([]);
+  });
+
+  test('should explain a missing command', async () => {
+    await expect(
+      runInstall(testDir, { command: 'initrepo-missing-pm', args: [] }),
+    ).rejects.toThrow('initrepo-missing-pm is not installed or not on PATH');
+  });
+});
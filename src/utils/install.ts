@@ -0,0 +1,97 @@
+import { type SpawnOptions, spawn } from 'node:child_process';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { InstallCommand } from '../generators/languages';
+
+type SpawnFn = (
+  command: string,
+  args: string[],
+  options: SpawnOptions,
+) => {
+  on(event: 'close', listener: (code: number | null) => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+};
+
+export class InstallError extends Error {
+  constructor(
+    message: string,
+    public readonly command: string,
+    public readonly exitCode: number | null,
+    public readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = 'InstallError';
+  }
+}
+
+export function formatInstallCommand(install: InstallCommand): string {
+  return [install.command, ...install.args].join(' ');
+}
+
+export interface InstallResult {
+  /** Whether the lockfile exists after installing (null if none is expected) */
+  lockfilePresent: boolean | null;
+}
+
+/**
+ * Runs the install command in dir, streaming its output to the terminal
+ *
+ * @param spawnFn - Optional process spawner for testing (defaults to spawn)
+ */
+export async function runInstall(
+  dir: string,
+  install: InstallCommand,
+  spawnFn: SpawnFn = spawn,
+): Promise<InstallResult> {
+  const command = formatInstallCommand(install);
+
+  await new Promise<void>((resolve, reject) => {
+    const child = spawnFn(install.command, install.args, {
+      cwd: dir,
+      stdio: 'inherit',
+    });
+    child.on('error', (error) => {
+      const notFound = (error as NodeJS.ErrnoException).code === 'ENOENT';
+      reject(
+        new InstallError(
+          notFound
+            ? `${install.command} is not installed or not on PATH`
+            : `${command} failed: ${error.message}`,
+          command,
+          null,
+          error,
+        ),
+      );
+    });
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(
+          new InstallError(
+            `${command} exited with code ${code}`,
+            command,
+            code,
+          ),
+        );
+      }
+    });
+  });
+
+  return { lockfilePresent: await hasLockfile(dir, install) };
+}
+
+export async function hasLockfile(
+  dir: string,
+  install: InstallCommand,
+): Promise<boolean | null> {
+  if (!install.lockfile) {
+    return null;
+  }
+  try {
+    await fs.access(path.join(dir, install.lockfile));
+    return true;
+  } catch {
+    return false;
+  }
+}
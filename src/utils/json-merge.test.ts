@@ -0,0 +1,31 @@
+import { describe, expect, test } from 'bun:test';
+import { mergeJson } from './json-merge';
+
+describe('mergeJson', () => {
+  test('should keep existing values and add missing keys', () => {
+    const existing = {
+      name: 'my-app',
+      scripts: { test: 'vitest' },
+      keywords: ['cli'],
+    };
+    const generated = {
+      name: 'generated',
+      scripts: { test: 'bun test', lint: 'biome lint src' },
+      keywords: [],
+      license: 'MIT',
+    };
+
+    expect(mergeJson(existing, generated)).toEqual({
+      name: 'my-app',
+      scripts: { test: 'vitest', lint: 'biome lint src' },
+      keywords: ['cli'],
+      license: 'MIT',
+    });
+  });
+
+  test('should preserve existing key order', () => {
+    const merged = mergeJson({ b: 1, a: 2 }, { a: 3, c: 4 });
+
+    expect(Object.keys(merged as object)).toEqual(['b', 'a', 'c']);
+  });
+});
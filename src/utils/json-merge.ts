@@ -0,0 +1,23 @@
+type JsonObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merges generated JSON into an existing document without
+ * overwriting anything: existing values win, keys missing from the
+ * existing document are added, and nested objects are merged recursively.
+ * Existing key order is preserved; new keys are appended.
+ */
+export function mergeJson(existing: unknown, generated: unknown): unknown {
+  if (!isPlainObject(existing) || !isPlainObject(generated)) {
+    return existing;
+  }
+
+  const merged: JsonObject = { ...existing };
+  for (const [key, value] of Object.entries(generated)) {
+    merged[key] = key in existing ? mergeJson(existing[key], value) : value;
+  }
+  return merged;
+}
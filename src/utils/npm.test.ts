@@ -1,5 +1,9 @@
 import { afterEach, describe, expect, mock, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
 import { getLatestVersion, getLatestVersions, getNpmUsername } from './npm';
+import { loadNpmrc, resetNpmrc } from './npmrc';
+import { configureVersionCache, resetVersionCache } from './version-cache';
 
 describe('npm utils', () => {
   describe('getLatestVersion', () => {
@@ -69,6 +73,96 @@ describe('npm utils', () => {
       const versions = await getLatestVersions(['failing-package']);
       expect(versions['failing-package']).toBe('latest');
     });
+
+    test('should skip recent and deprecated releases with a minimum age', async () => {
+      const daysAgo = (days: number) =>
+        new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+      const fetchMock = mock(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              'dist-tags': { latest: '1.3.0' },
+              time: {
+                '1.1.0': daysAgo(30),
+                '1.2.0': daysAgo(10),
+                '1.3.0': daysAgo(1),
+              },
+              versions: {
+                '1.1.0': {},
+                '1.2.0': { deprecated: 'broken build' },
+                '1.3.0': {},
+              },
+            }),
+        } as Response),
+      );
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const versions = await getLatestVersions(['some-package'], {
+        minReleaseAgeDays: 3,
+      });
+
+      expect(versions['some-package']).toBe('1.1.0');
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://registry.npmjs.org/some-package',
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('private registries', () => {
+    const testDir = path.join(import.meta.dir, '../../.test-npm-registry');
+    let server: ReturnType<typeof Bun.serve> | undefined;
+
+    afterEach(async () => {
+      server?.stop(true);
+      resetNpmrc();
+      await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    test('should resolve scoped packages from their registry with auth', async () => {
+      const requests: { path: string; authorization: string | null }[] = [];
+      // Stand-in for a Verdaccio or Artifactory npm registry
+      server = Bun.serve({
+        port: 0,
+        fetch(request) {
+          const authorization = request.headers.get('authorization');
+          requests.push({ path: new URL(request.url).pathname, authorization });
+          if (authorization !== 'Bearer s3cret') {
+            return new Response('unauthorized', { status: 401 });
+          }
+          return Response.json({
+            'dist-tags': { latest: '2.1.0' },
+            versions: { '2.1.0': {} },
+            time: { '2.1.0': '2026-01-01T00:00:00Z' },
+          });
+        },
+      });
+      await fs.mkdir(testDir, { recursive: true });
+      await fs.writeFile(
+        path.join(testDir, '.npmrc'),
+        [
+          `@acme:registry=http://localhost:${server.port}`,
+          `//localhost:${server.port}/:_authToken=\${TEST_REGISTRY_TOKEN}`,
+        ].join('\n'),
+      );
+      process.env.TEST_REGISTRY_TOKEN = 's3cret';
+      try {
+        await loadNpmrc({
+          projectDir: testDir,
+          userConfig: path.join(testDir, 'missing-npmrc'),
+        });
+      } finally {
+        delete process.env.TEST_REGISTRY_TOKEN;
+      }
+
+      const versions = await getLatestVersions(['@acme/tools']);
+
+      expect(versions).toEqual({ '@acme/tools': '2.1.0' });
+      expect(requests).toEqual([
+        { path: '/@acme%2ftools', authorization: 'Bearer s3cret' },
+      ]);
+    });
   });
 
   describe('getNpmUsername', () => {
@@ -95,5 +189,19 @@ describe('npm utils', () => {
       const username = await getNpmUsername(mockExec);
       expect(username).toBeNull();
     });
+
+    test('should not ask the registry with --offline', async () => {
+      const mockExec = mock(() =>
+        Promise.resolve({ stdout: 'mocked-user\n', stderr: '' }),
+      );
+
+      configureVersionCache({ offline: true, dir: 'unused' });
+      try {
+        expect(await getNpmUsername(mockExec)).toBeNull();
+      } finally {
+        resetVersionCache();
+      }
+      expect(mockExec).not.toHaveBeenCalled();
+    });
   });
 });
@@ -1,16 +1,48 @@
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
+import type { VersionPolicy } from '../types';
+import { httpFetch } from './http';
+import {
+  DEFAULT_NPM_REGISTRY,
+  getAuthorization,
+  getPackageUrl,
+  getRegistryUrl,
+} from './npmrc';
+import { isOffline } from './version-cache';
+import { type Release, resolvePolicyVersions } from './version-policy';
 
 const execAsync = promisify(exec);
 
 type ExecFn = (command: string) => Promise<{ stdout: string; stderr: string }>;
 
 /**
- * Fetches the latest version of a package from npm registry
+ * Requests a registry document, with the .npmrc credentials for its registry
+ */
+function fetchFromRegistry(url: string): Promise<Response> {
+  const authorization = getAuthorization(url);
+  return httpFetch(
+    url,
+    authorization ? { headers: { Authorization: authorization } } : {},
+  );
+}
+
+/**
+ * Fetches the latest version of a package from its registry
+ * (the package's scope registry from .npmrc, else the default registry)
  */
 export async function getLatestVersion(packageName: string): Promise<string> {
-  const response = await fetch(
-    `https://registry.npmjs.org/${packageName}/latest`,
+  // Only the public registry is known to serve /<name>/latest; mirrors and
+  // GitHub Packages are asked for the package document's dist-tags instead
+  if (getRegistryUrl(packageName) !== DEFAULT_NPM_REGISTRY) {
+    const { latest } = await getPackageReleases(packageName);
+    if (!latest) {
+      throw new Error(`No latest version published for ${packageName}`);
+    }
+    return latest;
+  }
+
+  const response = await fetchFromRegistry(
+    `${getPackageUrl(packageName)}/latest`,
   );
 
   if (!response.ok) {
@@ -28,6 +60,9 @@ export async function getLatestVersion(packageName: string): Promise<string> {
 export async function getNpmUsername(
   execFn: ExecFn = execAsync,
 ): Promise<string | null> {
+  if (isOffline()) {
+    return null; // npm whoami asks the registry
+  }
   try {
     const { stdout } = await execFn('npm whoami');
     return stdout.trim() || null;
@@ -37,23 +72,44 @@ export async function getNpmUsername(
 }
 
 /**
- * Fetches latest versions for multiple packages
+ * Fetches every published version of a package with its publish time
+ */
+export async function getPackageReleases(
+  packageName: string,
+): Promise<{ releases: Release[]; latest?: string }> {
+  const response = await fetchFromRegistry(getPackageUrl(packageName));
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch versions for ${packageName}`);
+  }
+
+  const data = (await response.json()) as {
+    'dist-tags'?: { latest?: string };
+    time?: Record<string, string>;
+    versions?: Record<string, { deprecated?: string }>;
+  };
+  const releases = Object.entries(data.versions ?? {}).flatMap(
+    ([version, manifest]) => {
+      const publishedAt = data.time?.[version];
+      return publishedAt
+        ? [{ version, publishedAt, yanked: Boolean(manifest.deprecated) }]
+        : [];
+    },
+  );
+  return { releases, latest: data['dist-tags']?.latest };
+}
+
+/**
+ * Fetches versions for multiple packages, following the version policy
+ * (unresolved versions fall back to "latest")
  */
 export async function getLatestVersions(
   packageNames: string[],
+  policy: VersionPolicy = {},
 ): Promise<Record<string, string>> {
-  const versions: Record<string, string> = {};
-
-  await Promise.all(
-    packageNames.map(async (name) => {
-      try {
-        versions[name] = await getLatestVersion(name);
-      } catch {
-        // Fallback to a default version if fetch fails
-        versions[name] = 'latest';
-      }
-    }),
-  );
-
-  return versions;
+  return resolvePolicyVersions('npm', packageNames, policy, {
+    fetchLatest: getLatestVersion,
+    fetchReleases: getPackageReleases,
+    getRegistryUrl: (name) => getRegistryUrl(name),
+  });
 }
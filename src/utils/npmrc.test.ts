@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import {
+  DEFAULT_NPM_REGISTRY,
+  getAuthorization,
+  getPackageUrl,
+  getRegistryKind,
+  getRegistryUrl,
+  loadNpmrc,
+  parseNpmrc,
+  resetNpmrc,
+} from './npmrc';
+
+describe('npmrc utils', () => {
+  const testDir = path.join(import.meta.dir, '../../.test-npmrc');
+
+  afterEach(async () => {
+    resetNpmrc();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('parseNpmrc should read registries and expand auth tokens', () => {
+    const npmrc = parseNpmrc(
+      [
+        '; comment',
+        'registry=https://npm.internal.example.com/repository/npm',
+        '@acme:registry=https://npm.pkg.github.com',
+        `//npm.pkg.github.com/:_authToken=\${GITHUB_TOKEN}`,
+        '//npm.internal.example.com/:_auth="dXNlcjpwYXNz"',
+        `//unset.example.com/:_authToken=\${MISSING}`,
+        'save-exact=true',
+      ].join('\n'),
+      { GITHUB_TOKEN: 'gh-secret' },
+    );
+
+    expect(npmrc).toEqual({
+      registry: 'https://npm.internal.example.com/repository/npm/',
+      scopes: { '@acme': 'https://npm.pkg.github.com/' },
+      auth: {
+        '//npm.pkg.github.com/': 'Bearer gh-secret',
+        '//npm.internal.example.com/': 'Basic dXNlcjpwYXNz',
+      },
+    });
+  });
+
+  test('getRegistryUrl should map scopes to their registry', () => {
+    const npmrc = parseNpmrc('@acme:registry=https://npm.pkg.github.com');
+
+    expect(getRegistryUrl('@acme/tools', npmrc)).toBe(
+      'https://npm.pkg.github.com/',
+    );
+    expect(getRegistryUrl('@other/tools', npmrc)).toBe(DEFAULT_NPM_REGISTRY);
+    expect(getPackageUrl('@acme/tools', npmrc)).toBe(
+      'https://npm.pkg.github.com/@acme%2ftools',
+    );
+    expect(getRegistryKind('https://npm.pkg.github.com/')).toBe('github');
+  });
+
+  test('getAuthorization should use the longest matching registry path', () => {
+    const npmrc = parseNpmrc(
+      [
+        '//registry.example.com/:_authToken=outer',
+        '//registry.example.com/npm/private/:_authToken=inner',
+      ].join('\n'),
+    );
+
+    expect(
+      getAuthorization('https://registry.example.com/npm/private/pkg', npmrc),
+    ).toBe('Bearer inner');
+    expect(
+      getAuthorization('https://registry.example.com/npm/public/pkg', npmrc),
+    ).toBe('Bearer outer');
+    expect(
+      getAuthorization('https://registry.example.community/pkg', npmrc),
+    ).toBeUndefined();
+  });
+
+  test('loadNpmrc should let the project file override the user file', async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    const userConfig = path.join(testDir, 'user-npmrc');
+    await fs.writeFile(
+      userConfig,
+      'registry=https://user.example.com\n@acme:registry=https://user.example.com/acme\n',
+    );
+    await fs.writeFile(
+      path.join(testDir, '.npmrc'),
+      '@acme:registry=https://npm.pkg.github.com\n',
+    );
+
+    // The registry may also come from the environment (npm exports it to
+    // scripts as npm_config_registry), which would take precedence
+    const envRegistries = {
+      NPM_CONFIG_REGISTRY: process.env.NPM_CONFIG_REGISTRY,
+      npm_config_registry: process.env.npm_config_registry,
+    };
+    delete process.env.NPM_CONFIG_REGISTRY;
+    delete process.env.npm_config_registry;
+    try {
+      const npmrc = await loadNpmrc({ projectDir: testDir, userConfig });
+
+      expect(npmrc.registry).toBe('https://user.example.com/');
+      expect(getRegistryUrl('@acme/tools')).toBe('https://npm.pkg.github.com/');
+    } finally {
+      for (const [key, value] of Object.entries(envRegistries)) {
+        if (value !== undefined) {
+          process.env[key] = value;
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,184 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+export const DEFAULT_NPM_REGISTRY = 'https://registry.npmjs.org/';
+
+/** Registry served by GitHub Packages */
+export const GITHUB_PACKAGES_REGISTRY = 'https://npm.pkg.github.com/';
+
+/**
+ * Registry settings read from .npmrc files
+ */
+export interface Npmrc {
+  /** Default registry (the "registry" key) */
+  registry?: string;
+  /** Registries by scope, from "@scope:registry" keys */
+  scopes: Record<string, string>;
+  /** Authorization header values by "//host/path/" prefix */
+  auth: Record<string, string>;
+}
+
+export interface LoadNpmrcOptions {
+  /** Directory whose .npmrc is the project config (defaults to cwd) */
+  projectDir?: string;
+  /** User config file (defaults to $NPM_CONFIG_USERCONFIG or ~/.npmrc) */
+  userConfig?: string;
+}
+
+/**
+ * Settings for this run. Until the CLI loads .npmrc files every package
+ * resolves from the public registry without credentials.
+ */
+let active: Npmrc = { scopes: {}, auth: {} };
+
+/**
+ * Replaces ${VAR} references the way npm does; unset variables become empty
+ */
+function expandEnv(value: string, env: NodeJS.ProcessEnv): string {
+  return value.replace(/\$\{([^}]+)\}/g, (_match, name) => env[name] ?? '');
+}
+
+/**
+ * Normalizes a registry URL so package names can be appended to it
+ */
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+/**
+ * Parses the registry, scope registry and auth entries of an .npmrc file
+ * Other settings are ignored.
+ */
+export function parseNpmrc(
+  content: string,
+  env: NodeJS.ProcessEnv = process.env,
+): Npmrc {
+  const npmrc: Npmrc = { scopes: {}, auth: {} };
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      continue;
+    }
+    const separator = line.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim();
+    const value = expandEnv(
+      line
+        .slice(separator + 1)
+        .trim()
+        .replace(/^(["'])(.*)\1$/, '$2'),
+      env,
+    );
+
+    const scope = key.match(/^(@[^:]+):registry$/);
+    const credential = key.match(/^(\/\/.+?):(_authToken|_auth)$/);
+    if (key === 'registry') {
+      npmrc.registry = withTrailingSlash(value);
+    } else if (scope) {
+      npmrc.scopes[scope[1]] = withTrailingSlash(value);
+    } else if (credential && value) {
+      npmrc.auth[withTrailingSlash(credential[1])] =
+        credential[2] === '_authToken' ? `Bearer ${value}` : `Basic ${value}`;
+    }
+  }
+
+  return npmrc;
+}
+
+async function readNpmrc(filePath: string): Promise<Npmrc> {
+  try {
+    return parseNpmrc(await fs.readFile(filePath, 'utf-8'));
+  } catch {
+    return { scopes: {}, auth: {} };
+  }
+}
+
+/**
+ * Loads the user and project .npmrc files for this run; as with npm, the
+ * project file wins over the user file and NPM_CONFIG_REGISTRY over both
+ */
+export async function loadNpmrc(
+  options: LoadNpmrcOptions = {},
+): Promise<Npmrc> {
+  const userConfig =
+    options.userConfig ??
+    process.env.NPM_CONFIG_USERCONFIG ??
+    process.env.npm_config_userconfig ??
+    path.join(os.homedir(), '.npmrc');
+  const user = await readNpmrc(userConfig);
+  const project = await readNpmrc(
+    path.join(options.projectDir ?? process.cwd(), '.npmrc'),
+  );
+
+  const envRegistry =
+    process.env.NPM_CONFIG_REGISTRY ?? process.env.npm_config_registry;
+  active = {
+    registry: envRegistry
+      ? withTrailingSlash(envRegistry)
+      : (project.registry ?? user.registry),
+    scopes: { ...user.scopes, ...project.scopes },
+    auth: { ...user.auth, ...project.auth },
+  };
+  return active;
+}
+
+/**
+ * Forgets loaded .npmrc settings (for tests)
+ */
+export function resetNpmrc(): void {
+  active = { scopes: {}, auth: {} };
+}
+
+/**
+ * Registry a package resolves from: its scope's registry, else the default
+ */
+export function getRegistryUrl(
+  packageName: string,
+  npmrc: Npmrc = active,
+): string {
+  const scope = packageName.startsWith('@')
+    ? packageName.split('/')[0]
+    : undefined;
+  return (
+    (scope && npmrc.scopes[scope]) || npmrc.registry || DEFAULT_NPM_REGISTRY
+  );
+}
+
+/**
+ * URL of a package document; the "/" of a scoped name is escaped
+ */
+export function getPackageUrl(
+  packageName: string,
+  npmrc: Npmrc = active,
+): string {
+  return `${getRegistryUrl(packageName, npmrc)}${packageName.replace('/', '%2f')}`;
+}
+
+/** Kind of registry, which decides how a publish workflow authenticates */
+export type RegistryKind = 'npm' | 'github' | 'custom';
+
+export function getRegistryKind(registryUrl: string): RegistryKind {
+  if (registryUrl === DEFAULT_NPM_REGISTRY) {
+    return 'npm';
+  }
+  return registryUrl === GITHUB_PACKAGES_REGISTRY ? 'github' : 'custom';
+}
+
+/**
+ * Authorization header for a registry URL, from the longest matching
+ * "//host/path/:_authToken" (or ":_auth") entry
+ */
+export function getAuthorization(
+  url: string,
+  npmrc: Npmrc = active,
+): string | undefined {
+  const target = url.replace(/^https?:/, '');
+  const prefix = Object.keys(npmrc.auth)
+    .filter((candidate) => target.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? npmrc.auth[prefix] : undefined;
+}
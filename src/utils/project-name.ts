@@ -0,0 +1,7 @@
+/**
+ * Removes the npm scope from a project name (e.g., "@scope/name" -> "name")
+ * for ecosystems that have no notion of scopes
+ */
+export function stripScope(projectName: string): string {
+  return projectName.replace(/^@[\w-]+\//, '');
+}
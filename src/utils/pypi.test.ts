@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, mock, test } from 'bun:test';
+import { getLatestPypiVersion, getLatestPypiVersions } from './pypi';
+
+describe('pypi utils', () => {
+  describe('getLatestPypiVersion', () => {
+    const originalFetch = globalThis.fetch;
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    test('should return version from PyPI', async () => {
+      globalThis.fetch = mock(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ info: { version: '8.3.4' } }),
+        } as Response),
+      ) as unknown as typeof fetch;
+
+      const version = await getLatestPypiVersion('pytest');
+      expect(version).toBe('8.3.4');
+    });
+
+    test('should throw error when fetch fails', async () => {
+      globalThis.fetch = mock(() =>
+        Promise.resolve({
+          ok: false,
+        } as Response),
+      ) as unknown as typeof fetch;
+
+      expect(getLatestPypiVersion('pytest')).rejects.toThrow(
+        'Failed to fetch version',
+      );
+    });
+  });
+
+  describe('getLatestPypiVersions', () => {
+    const originalFetch = globalThis.fetch;
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    test('should return versions for multiple packages', async () => {
+      globalThis.fetch = mock((url: string) => {
+        const packageName = url.toString().split('/').slice(-2, -1)[0];
+        const versions: Record<string, string> = {
+          pytest: '8.3.4',
+          ruff: '0.8.0',
+        };
+        return Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({ info: { version: versions[packageName] } }),
+        } as Response);
+      }) as unknown as typeof fetch;
+
+      const versions = await getLatestPypiVersions(['pytest', 'ruff']);
+      expect(versions.pytest).toBe('8.3.4');
+      expect(versions.ruff).toBe('0.8.0');
+    });
+
+    test('should fallback to "latest" when fetch fails', async () => {
+      globalThis.fetch = mock(() =>
+        Promise.resolve({
+          ok: false,
+        } as Response),
+      ) as unknown as typeof fetch;
+
+      const versions = await getLatestPypiVersions(['failing-package']);
+      expect(versions['failing-package']).toBe('latest');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import type { VersionPolicy } from '../types';
+import { httpFetch } from './http';
+import { type Release, resolvePolicyVersions } from './version-policy';
+
+/**
+ * Fetches the latest version of a package from PyPI
+ */
+export async function getLatestPypiVersion(
+  packageName: string,
+): Promise<string> {
+  const response = await httpFetch(`https://pypi.org/pypi/${packageName}/json`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch version for ${packageName}`);
+  }
+
+  const data = (await response.json()) as { info: { version: string } };
+  return data.info.version;
+}
+
+/**
+ * Fetches every release of a PyPI package with its first upload time
+ * A release counts as yanked when all of its files are.
+ */
+export async function getPypiReleases(
+  packageName: string,
+): Promise<{ releases: Release[]; latest?: string }> {
+  const response = await httpFetch(`https://pypi.org/pypi/${packageName}/json`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch versions for ${packageName}`);
+  }
+
+  const data = (await response.json()) as {
+    info: { version: string };
+    releases: Record<
+      string,
+      { upload_time_iso_8601: string; yanked?: boolean }[]
+    >;
+  };
+  const releases = Object.entries(data.releases).flatMap(([version, files]) => {
+    if (files.length === 0) {
+      return [];
+    }
+    const publishedAt = files
+      .map((file) => file.upload_time_iso_8601)
+      .sort()[0];
+    return [
+      { version, publishedAt, yanked: files.every((file) => file.yanked) },
+    ];
+  });
+  return { releases, latest: data.info.version };
+}
+
+/**
+ * Fetches versions for multiple PyPI packages, following the version policy
+ * (unresolved versions fall back to "latest")
+ */
+export async function getLatestPypiVersions(
+  packageNames: string[],
+  policy: VersionPolicy = {},
+): Promise<Record<string, string>> {
+  return resolvePolicyVersions('pypi', packageNames, policy, {
+    fetchLatest: getLatestPypiVersion,
+    fetchReleases: getPypiReleases,
+  });
+}
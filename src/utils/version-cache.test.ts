@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import {
+  configureVersionCache,
+  getResolvedVersions,
+  resetVersionCache,
+  resolveCachedVersions,
+  VERSION_CACHE_TTL_MS,
+} from './version-cache';
+
+describe('version cache', () => {
+  const cacheDir = path.join(import.meta.dir, '../../.test-version-cache');
+  const cacheFile = path.join(cacheDir, 'versions.json');
+  const fallback = () => 'latest';
+  let now: number;
+
+  async function writeCache(
+    entries: Record<string, { version: string; fetchedAt: number }>,
+  ): Promise<void> {
+    await fs.mkdir(cacheDir, { recursive: true });
+    await fs.writeFile(cacheFile, JSON.stringify(entries));
+  }
+
+  beforeEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+    now = 1_700_000_000_000;
+  });
+
+  afterEach(async () => {
+    resetVersionCache();
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  test('should fetch and cache versions', async () => {
+    configureVersionCache({ dir: cacheDir, now: () => now });
+    const fetchVersion = mock(async () => '1.2.3');
+
+    const versions = await resolveCachedVersions(
+      'npm',
+      ['a'],
+      fetchVersion,
+      fallback,
+    );
+
+    expect(versions).toEqual({ a: '1.2.3' });
+    expect(JSON.parse(await fs.readFile(cacheFile, 'utf-8'))).toEqual({
+      'npm:a': { version: '1.2.3', fetchedAt: now },
+    });
+    expect(getResolvedVersions()).toEqual([
+      { registry: 'npm', name: 'a', version: '1.2.3', source: 'network' },
+    ]);
+  });
+
+  test('should use fresh entries without fetching', async () => {
+    await writeCache({ 'npm:a': { version: '1.0.0', fetchedAt: now - 1000 } });
+    configureVersionCache({ dir: cacheDir, now: () => now });
+    const fetchVersion = mock(async () => '2.0.0');
+
+    const versions = await resolveCachedVersions(
+      'npm',
+      ['a'],
+      fetchVersion,
+      fallback,
+    );
+
+    expect(versions).toEqual({ a: '1.0.0' });
+    expect(fetchVersion).not.toHaveBeenCalled();
+    expect(getResolvedVersions()[0].source).toBe('cache');
+  });
+
+  test('should key entries by registry URL when one is given', async () => {
+    await writeCache({ 'npm:a': { version: '1.0.0', fetchedAt: now - 1000 } });
+    configureVersionCache({ dir: cacheDir, now: () => now });
+    const fetchVersion = mock(async () => '2.0.0');
+
+    const versions = await resolveCachedVersions(
+      'npm',
+      ['a'],
+      fetchVersion,
+      fallback,
+      () => 'https://mirror.example.com/',
+    );
+
+    expect(versions).toEqual({ a: '2.0.0' });
+    expect(fetchVersion).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(await fs.readFile(cacheFile, 'utf-8'))).toEqual({
+      'npm:a': { version: '1.0.0', fetchedAt: now - 1000 },
+      'npm:https://mirror.example.com/:a': { version: '2.0.0', fetchedAt: now },
+    });
+  });
+
+  test('should refetch expired entries and keep them if the fetch fails', async () => {
+    const expired = now - VERSION_CACHE_TTL_MS - 1;
+    await writeCache({
+      'npm:a': { version: '1.0.0', fetchedAt: expired },
+      'npm:b': { version: '1.0.0', fetchedAt: expired },
+    });
+    configureVersionCache({ dir: cacheDir, now: () => now });
+
+    const versions = await resolveCachedVersions(
+      'npm',
+      ['a', 'b'],
+      async (name) => {
+        if (name === 'b') {
+          throw new Error('offline');
+        }
+        return '2.0.0';
+      },
+      fallback,
+    );
+
+    expect(versions).toEqual({ a: '2.0.0', b: '1.0.0' });
+    expect(getResolvedVersions().map((entry) => entry.source)).toEqual([
+      'network',
+      'cache',
+    ]);
+  });
+
+  test('should bypass fresh entries with refresh', async () => {
+    await writeCache({ 'npm:a': { version: '1.0.0', fetchedAt: now } });
+    configureVersionCache({ dir: cacheDir, now: () => now, refresh: true });
+
+    const versions = await resolveCachedVersions(
+      'npm',
+      ['a'],
+      async () => '2.0.0',
+      fallback,
+    );
+
+    expect(versions).toEqual({ a: '2.0.0' });
+  });
+
+  test('should never fetch when offline', async () => {
+    await writeCache({ 'actions:x/y': { version: 'v3', fetchedAt: 0 } });
+    configureVersionCache({ dir: cacheDir, now: () => now, offline: true });
+    const fetchVersion = mock(async () => 'v9');
+
+    const versions = await resolveCachedVersions(
+      'actions',
+      ['x/y', 'x/z'],
+      fetchVersion,
+      () => 'v1',
+    );
+
+    expect(versions).toEqual({ 'x/y': 'v3', 'x/z': 'v1' });
+    expect(fetchVersion).not.toHaveBeenCalled();
+    expect(getResolvedVersions().map((entry) => entry.source)).toEqual([
+      'cache',
+      'fallback',
+    ]);
+  });
+
+  test('should ignore a corrupt cache file', async () => {
+    await fs.mkdir(cacheDir, { recursive: true });
+    await fs.writeFile(cacheFile, '{ not json');
+    configureVersionCache({ dir: cacheDir, now: () => now });
+
+    const versions = await resolveCachedVersions(
+      'npm',
+      ['a'],
+      async () => '1.0.0',
+      fallback,
+    );
+
+    expect(versions).toEqual({ a: '1.0.0' });
+  });
+
+  test('should reject offline together with refresh', () => {
+    expect(() =>
+      configureVersionCache({ offline: true, refresh: true }),
+    ).toThrow('--offline and --refresh cannot be used together');
+  });
+
+  test('should not touch the disk until configured', async () => {
+    const versions = await resolveCachedVersions(
+      'npm',
+      ['a'],
+      async () => '1.0.0',
+      fallback,
+    );
+
+    expect(versions).toEqual({ a: '1.0.0' });
+    expect(getResolvedVersions()).toEqual([]);
+    await expect(fs.access(cacheDir)).rejects.toThrow();
+  });
+});
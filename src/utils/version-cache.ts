@@ -0,0 +1,252 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+/** How long a fetched version is used without asking the registry again */
+export const VERSION_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const CACHE_FILE = 'versions.json';
+
+/** Where a resolved version came from */
+export type VersionSource = 'cache' | 'network' | 'fallback';
+
+export interface VersionCacheOptions {
+  /** Use only cached or fallback versions, never the network */
+  offline?: boolean;
+  /** Fetch every version even if a fresh one is cached */
+  refresh?: boolean;
+  /** Cache directory (defaults to ~/.cache/initrepo) */
+  dir?: string;
+  /** Injectable clock for testing */
+  now?: () => number;
+}
+
+export interface ResolvedVersion {
+  /** Registry the version belongs to (e.g., "npm", "actions") */
+  registry: string;
+  name: string;
+  version: string;
+  source: VersionSource;
+}
+
+interface CacheEntry {
+  version: string;
+  /** Epoch milliseconds of the fetch */
+  fetchedAt: number;
+}
+
+type CacheData = Record<string, CacheEntry>;
+
+export class VersionCacheError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VersionCacheError';
+  }
+}
+
+/**
+ * Cache settings for this run. Lookups bypass the cache until the CLI
+ * configures it, so library callers and tests always hit the network.
+ */
+let settings: Required<VersionCacheOptions> = {
+  offline: false,
+  refresh: false,
+  dir: '',
+  now: Date.now,
+};
+let cacheData: Promise<CacheData> | null = null;
+let pendingWrite: Promise<void> = Promise.resolve();
+let resolved: ResolvedVersion[] = [];
+
+export function getVersionCacheDir(): string {
+  const cacheHome =
+    process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(cacheHome, 'initrepo');
+}
+
+/**
+ * Enables the on-disk version cache for this run and clears the report
+ */
+export function configureVersionCache(options: VersionCacheOptions = {}): void {
+  if (options.offline && options.refresh) {
+    throw new VersionCacheError(
+      '--offline and --refresh cannot be used together',
+    );
+  }
+  settings = {
+    offline: options.offline ?? false,
+    refresh: options.refresh ?? false,
+    dir: options.dir ?? getVersionCacheDir(),
+    now: options.now ?? Date.now,
+  };
+  cacheData = null;
+  resolved = [];
+}
+
+/**
+ * Whether this run is --offline, which also skips looking up defaults such
+ * as the GitHub login and the npm username
+ */
+export function isOffline(): boolean {
+  return settings.offline;
+}
+
+/**
+ * Disables the cache again (the state before configureVersionCache)
+ */
+export function resetVersionCache(): void {
+  settings = { offline: false, refresh: false, dir: '', now: Date.now };
+  cacheData = null;
+  resolved = [];
+}
+
+async function readCache(): Promise<CacheData> {
+  try {
+    const content = await fs.readFile(
+      path.join(settings.dir, CACHE_FILE),
+      'utf-8',
+    );
+    const data = JSON.parse(content) as unknown;
+    return data && typeof data === 'object' ? (data as CacheData) : {};
+  } catch {
+    // Missing or corrupt cache: start over
+    return {};
+  }
+}
+
+function loadCache(): Promise<CacheData> {
+  if (!cacheData) {
+    cacheData = readCache();
+  }
+  return cacheData;
+}
+
+/**
+ * Writes the cache after the previous write finished, so concurrent lookups
+ * never interleave their writes. Failures only cost the next run a fetch.
+ */
+function saveCache(data: CacheData): Promise<void> {
+  const { dir } = settings;
+  pendingWrite = pendingWrite.then(async () => {
+    try {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(
+        path.join(dir, CACHE_FILE),
+        `${JSON.stringify(data, null, 2)}\n`,
+        'utf-8',
+      );
+    } catch {
+      // The cache is an optimization; ignore unwritable directories
+    }
+  });
+  return pendingWrite;
+}
+
+/**
+ * Cache key of a package; packages served by a custom registry or mirror
+ * are kept apart from the same names on the public one
+ */
+function getCacheKey(
+  registry: string,
+  name: string,
+  registryUrl?: string,
+): string {
+  return registryUrl
+    ? `${registry}:${registryUrl}:${name}`
+    : `${registry}:${name}`;
+}
+
+/**
+ * Resolves versions for a batch of packages of one registry
+ * Order: fresh cache entry, then the network, then a stale cache entry, then
+ * the fallback. With --offline the network is skipped; with --refresh the
+ * fresh cache entry is.
+ *
+ * @param fetchVersion - Fetches one version from the registry
+ * @param getFallback - Hardcoded version used when nothing else is available
+ * @param getRegistryUrl - URL a package is fetched from, if it can vary
+ *   (e.g., npm scopes mapped to other registries in .npmrc)
+ */
+export async function resolveCachedVersions(
+  registry: string,
+  names: readonly string[],
+  fetchVersion: (name: string) => Promise<string>,
+  getFallback: (name: string) => string,
+  getRegistryUrl?: (name: string) => string,
+): Promise<Record<string, string>> {
+  const enabled = settings.dir !== '';
+  const data = enabled ? await loadCache() : {};
+  const now = settings.now();
+  let fetched = false;
+
+  const results = await Promise.all(
+    names.map(async (name): Promise<ResolvedVersion> => {
+      const key = getCacheKey(registry, name, getRegistryUrl?.(name));
+      const cached = data[key];
+      const fresh =
+        cached !== undefined && now - cached.fetchedAt < VERSION_CACHE_TTL_MS;
+
+      if (cached && (settings.offline || (fresh && !settings.refresh))) {
+        return { registry, name, version: cached.version, source: 'cache' };
+      }
+      if (!settings.offline) {
+        try {
+          const version = await fetchVersion(name);
+          data[key] = { version, fetchedAt: now };
+          fetched = true;
+          return { registry, name, version, source: 'network' };
+        } catch {
+          // Fall through to a stale entry or the fallback
+        }
+      }
+      if (cached) {
+        return { registry, name, version: cached.version, source: 'cache' };
+      }
+      return { registry, name, version: getFallback(name), source: 'fallback' };
+    }),
+  );
+
+  if (enabled) {
+    if (fetched) {
+      await saveCache(data);
+    }
+    resolved.push(...results);
+  }
+
+  return Object.fromEntries(
+    results.map((result) => [result.name, result.version]),
+  );
+}
+
+/**
+ * Versions resolved since the cache was configured, in lookup order
+ */
+export function getResolvedVersions(): ResolvedVersion[] {
+  return [...resolved];
+}
+
+/**
+ * Prints which versions came from the network, the cache or hardcoded
+ * fallbacks. Prints nothing if no version was resolved.
+ */
+export function printVersionSources(): void {
+  if (resolved.length === 0) {
+    return;
+  }
+
+  console.log('\nVersion sources:');
+  for (const source of ['network', 'cache', 'fallback'] as const) {
+    const entries = resolved
+      .filter((entry) => entry.source === source)
+      .map((entry) => `${entry.name}@${entry.version}`);
+    if (entries.length > 0) {
+      console.log(`   ${`${source}:`.padEnd(10)} ${entries.join(', ')}`);
+    }
+  }
+  if (resolved.some((entry) => entry.source === 'fallback')) {
+    const hint = settings.offline
+      ? 'rerun without --offline'
+      : 'check your network access';
+    console.log(`   Fallback versions may be outdated; ${hint} to fetch them`);
+  }
+}
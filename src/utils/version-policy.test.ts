@@ -0,0 +1,199 @@
+import { describe, expect, mock, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  configureVersionCache,
+  resetVersionCache,
+  VERSION_CACHE_TTL_MS,
+} from './version-cache';
+import {
+  compareVersions,
+  formatNpmRange,
+  getRangeStyle,
+  parseMinReleaseAge,
+  parsePins,
+  resolvePolicyVersions,
+  resolveVersionPolicy,
+  selectRelease,
+} from './version-policy';
+
+describe('version policy', () => {
+  test('parseMinReleaseAge should accept days and hours', () => {
+    expect(parseMinReleaseAge('3d')).toBe(3);
+    expect(parseMinReleaseAge('12h')).toBe(0.5);
+    expect(parseMinReleaseAge('2')).toBe(2);
+    expect(() => parseMinReleaseAge('3 weeks')).toThrow(
+      'Invalid minimum release age: 3 weeks',
+    );
+  });
+
+  test('parsePins should split at the last @', () => {
+    expect(parsePins('typescript@5.6.3, @biomejs/biome@2.0.0')).toEqual({
+      typescript: '5.6.3',
+      '@biomejs/biome': '2.0.0',
+    });
+    expect(() => parsePins('typescript')).toThrow('Invalid pin: typescript');
+    expect(() => parsePins('@biomejs/biome')).toThrow('Invalid pin');
+  });
+
+  test('resolveVersionPolicy should validate the range style', () => {
+    expect(resolveVersionPolicy({ rangeStyle: 'tilde' }).rangeStyle).toBe(
+      'tilde',
+    );
+    expect(() => resolveVersionPolicy({ rangeStyle: '^' })).toThrow(
+      'Unsupported range style: ^',
+    );
+  });
+
+  test('compareVersions should compare numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('1.0', '1.0.0')).toBe(0);
+    expect(compareVersions('0.9.9', '1.0.0')).toBeLessThan(0);
+  });
+
+  describe('selectRelease', () => {
+    const now = Date.parse('2026-03-10T00:00:00Z');
+    const releases = [
+      { version: '1.0.0', publishedAt: '2026-01-01T00:00:00Z' },
+      { version: '1.1.0', publishedAt: '2026-03-01T00:00:00Z' },
+      { version: '1.2.0', publishedAt: '2026-03-09T00:00:00Z' },
+      { version: '1.1.1', publishedAt: '2026-03-02T00:00:00Z', yanked: true },
+      { version: '2.0.0-rc.1', publishedAt: '2026-02-01T00:00:00Z' },
+    ];
+
+    test('should pick the newest release old enough', () => {
+      expect(selectRelease('pkg', releases, 3, '1.2.0', now)).toBe('1.1.0');
+      expect(selectRelease('pkg', releases, 0.5, '1.2.0', now)).toBe('1.2.0');
+    });
+
+    test('should skip releases above the latest tag', () => {
+      expect(selectRelease('pkg', releases, 3, '1.0.0', now)).toBe('1.0.0');
+    });
+
+    test('should throw when every release is too new', () => {
+      expect(() => selectRelease('pkg', releases, 365, '1.2.0', now)).toThrow(
+        'No release of pkg is older than 365 days',
+      );
+    });
+  });
+
+  describe('resolvePolicyVersions', () => {
+    test('should use the latest endpoint without a minimum age', async () => {
+      const fetchReleases = mock(async () => ({ releases: [] }));
+
+      const versions = await resolvePolicyVersions(
+        'npm',
+        ['a', 'b'],
+        { pins: { b: '0.1.0' } },
+        { fetchLatest: async () => '2.0.0', fetchReleases },
+      );
+
+      expect(versions).toEqual({ a: '2.0.0', b: '0.1.0' });
+      expect(fetchReleases).not.toHaveBeenCalled();
+    });
+
+    test('should fail when no release is old enough', async () => {
+      await expect(
+        resolvePolicyVersions(
+          'npm',
+          ['a', 'b'],
+          { minReleaseAgeDays: 3 },
+          {
+            fetchLatest: async () => '2.0.0',
+            fetchReleases: async () => ({
+              releases: [
+                { version: '1.0.0', publishedAt: new Date().toISOString() },
+              ],
+            }),
+          },
+        ),
+      ).rejects.toThrow(
+        'No release of a is older than 3 days; No release of b is older than 3 days. Pin them with --pin',
+      );
+    });
+
+    test('should fail when releases cannot be fetched to check their age', async () => {
+      await expect(
+        resolvePolicyVersions(
+          'npm',
+          ['a', 'b'],
+          { minReleaseAgeDays: 3, pins: { b: '1.0.0' } },
+          {
+            fetchLatest: async () => '2.0.0',
+            fetchReleases: async () => {
+              throw new Error('network down');
+            },
+          },
+        ),
+      ).rejects.toThrow(
+        'Could not fetch the releases of a to check their age. Pin it with --pin',
+      );
+    });
+
+    test('should keep the last release known to be old enough when fetching fails', async () => {
+      const cacheDir = await fs.mkdtemp(
+        path.join(os.tmpdir(), 'initrepo-policy-'),
+      );
+      const policy = { minReleaseAgeDays: 3 };
+      const published = new Date(Date.now() - 10 * 86_400_000).toISOString();
+      try {
+        configureVersionCache({ dir: cacheDir });
+        await resolvePolicyVersions('npm', ['a'], policy, {
+          fetchLatest: async () => '2.0.0',
+          fetchReleases: async () => ({
+            releases: [{ version: '1.0.0', publishedAt: published }],
+          }),
+        });
+
+        // The cached entry has gone stale and the registry is unreachable
+        configureVersionCache({
+          dir: cacheDir,
+          now: () => Date.now() + VERSION_CACHE_TTL_MS,
+        });
+        const versions = await resolvePolicyVersions('npm', ['a'], policy, {
+          fetchLatest: async () => '2.0.0',
+          fetchReleases: async () => {
+            throw new Error('network down');
+          },
+        });
+
+        expect(versions).toEqual({ a: '1.0.0' });
+      } finally {
+        resetVersionCache();
+        await fs.rm(cacheDir, { recursive: true, force: true });
+      }
+    });
+
+    test('should fall back to latest without a minimum age', async () => {
+      const versions = await resolvePolicyVersions(
+        'npm',
+        ['a'],
+        {},
+        {
+          fetchLatest: async () => {
+            throw new Error('network down');
+          },
+          fetchReleases: async () => ({ releases: [] }),
+        },
+      );
+
+      expect(versions).toEqual({ a: 'latest' });
+    });
+  });
+
+  test('getRangeStyle should make pinned packages exact', () => {
+    const policy = { rangeStyle: 'tilde' as const, pins: { a: '1.0.0' } };
+
+    expect(getRangeStyle(policy, 'a')).toBe('exact');
+    expect(getRangeStyle(policy, 'b')).toBe('tilde');
+    expect(getRangeStyle(undefined, 'b')).toBeUndefined();
+  });
+
+  test('formatNpmRange should apply the style', () => {
+    expect(formatNpmRange('1.2.3')).toBe('^1.2.3');
+    expect(formatNpmRange('1.2.3', 'tilde')).toBe('~1.2.3');
+    expect(formatNpmRange('1.2.3', 'exact')).toBe('1.2.3');
+    expect(formatNpmRange('latest', 'tilde')).toBe('latest');
+  });
+});
@@ -0,0 +1,252 @@
+import type { RangeStyle, VersionPolicy } from '../types';
+import { resolveCachedVersions } from './version-cache';
+
+export const SUPPORTED_RANGE_STYLES: RangeStyle[] = ['caret', 'tilde', 'exact'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Stable releases only: digits separated by dots (no pre-release tags) */
+const STABLE_VERSION_REGEX = /^\d+(\.\d+)*$/;
+
+export class VersionPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VersionPolicyError';
+  }
+}
+
+/**
+ * A published version and when it was released
+ */
+export interface Release {
+  version: string;
+  /** ISO 8601 publish time */
+  publishedAt: string;
+  /** Yanked or deprecated releases are never selected */
+  yanked?: boolean;
+}
+
+export function validateRangeStyle(style: string): RangeStyle {
+  if (!SUPPORTED_RANGE_STYLES.includes(style as RangeStyle)) {
+    throw new VersionPolicyError(
+      `Unsupported range style: ${style}. Supported: ${SUPPORTED_RANGE_STYLES.join(', ')}`,
+    );
+  }
+  return style as RangeStyle;
+}
+
+/**
+ * Parses a minimum release age such as "3d", "12h" or "0" into days
+ */
+export function parseMinReleaseAge(age: string): number {
+  const match = age.trim().match(/^(\d+(?:\.\d+)?)([dh]?)$/);
+  if (!match) {
+    throw new VersionPolicyError(
+      `Invalid minimum release age: ${age}. Use days or hours, e.g. 3d or 12h`,
+    );
+  }
+  const value = Number(match[1]);
+  return match[2] === 'h' ? value / 24 : value;
+}
+
+/**
+ * Parses comma-separated pins such as "typescript@5.6.3,@biomejs/biome@2.0.0"
+ */
+export function parsePins(pins: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const pin of pins.split(',').map((entry) => entry.trim())) {
+    if (!pin) {
+      continue;
+    }
+    // The version follows the last "@" so scoped names keep their own
+    const at = pin.lastIndexOf('@');
+    if (at <= 0 || at === pin.length - 1) {
+      throw new VersionPolicyError(
+        `Invalid pin: ${pin}. Use <package>@<version>`,
+      );
+    }
+    result[pin.slice(0, at)] = pin.slice(at + 1);
+  }
+  return result;
+}
+
+/**
+ * Builds a policy from CLI or config values, validating each one
+ */
+export function resolveVersionPolicy(values: {
+  minReleaseAge?: string;
+  rangeStyle?: string;
+  pins?: string;
+}): VersionPolicy {
+  return {
+    minReleaseAgeDays:
+      values.minReleaseAge !== undefined
+        ? parseMinReleaseAge(values.minReleaseAge)
+        : undefined,
+    rangeStyle:
+      values.rangeStyle !== undefined
+        ? validateRangeStyle(values.rangeStyle)
+        : undefined,
+    pins: values.pins !== undefined ? parsePins(values.pins) : undefined,
+  };
+}
+
+/**
+ * Compares dotted numeric versions (missing parts count as 0)
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Picks the highest stable release published at least minAgeDays ago
+ * @param latest - Registry's latest version; releases above it were never
+ *   promoted to latest and are skipped
+ */
+export function selectRelease(
+  name: string,
+  releases: Release[],
+  minAgeDays: number,
+  latest?: string,
+  now: number = Date.now(),
+): string {
+  const cutoff = now - minAgeDays * DAY_MS;
+  const candidates = releases.filter(
+    (release) =>
+      !release.yanked &&
+      STABLE_VERSION_REGEX.test(release.version) &&
+      Date.parse(release.publishedAt) <= cutoff &&
+      (latest === undefined ||
+        !STABLE_VERSION_REGEX.test(latest) ||
+        compareVersions(release.version, latest) <= 0),
+  );
+  if (candidates.length === 0) {
+    throw new VersionPolicyError(
+      `No release of ${name} is older than ${minAgeDays} days`,
+    );
+  }
+  return candidates.reduce((best, release) =>
+    compareVersions(release.version, best.version) > 0 ? release : best,
+  ).version;
+}
+
+export interface PolicyFetchers {
+  /** Latest version, used when there is no minimum release age */
+  fetchLatest: (name: string) => Promise<string>;
+  /** Every release with its publish time, plus the registry's latest version */
+  fetchReleases: (
+    name: string,
+  ) => Promise<{ releases: Release[]; latest?: string }>;
+  /** Registry URL a package is fetched from, when it can vary per package */
+  getRegistryUrl?: (name: string) => string;
+}
+
+/**
+ * Resolves versions for one registry under a policy: pins win, then either
+ * the latest release or the newest release old enough for minReleaseAgeDays
+ * Versions that cannot be fetched fall back to "latest", except under a
+ * minimum release age: there "latest" is exactly what the policy blocks, so
+ * a package without a release known to be old enough (fetched or cached) is
+ * an error.
+ */
+export async function resolvePolicyVersions(
+  registry: string,
+  names: readonly string[],
+  policy: VersionPolicy,
+  fetchers: PolicyFetchers,
+): Promise<Record<string, string>> {
+  const pins = policy.pins ?? {};
+  const unpinned = names.filter((name) => !(name in pins));
+  const minAgeDays = policy.minReleaseAgeDays ?? 0;
+  const blocked = new Map<string, VersionPolicyError>();
+
+  const versions =
+    minAgeDays > 0
+      ? await resolveCachedVersions(
+          // Versions picked under a different age are cached separately
+          `${registry}@${minAgeDays}d`,
+          unpinned,
+          async (name) => {
+            const { releases, latest } = await fetchers.fetchReleases(name);
+            try {
+              return selectRelease(name, releases, minAgeDays, latest);
+            } catch (error) {
+              if (error instanceof VersionPolicyError) {
+                blocked.set(name, error);
+              }
+              throw error;
+            }
+          },
+          () => 'latest',
+          fetchers.getRegistryUrl,
+        )
+      : await resolveCachedVersions(
+          registry,
+          unpinned,
+          fetchers.fetchLatest,
+          () => 'latest',
+          fetchers.getRegistryUrl,
+        );
+
+  // A stale cached version was picked under the same policy and may be used
+  const unresolved =
+    minAgeDays > 0
+      ? unpinned.filter((name) => versions[name] === 'latest')
+      : [];
+  if (unresolved.length > 0) {
+    const reasons = unresolved.map(
+      (name) =>
+        blocked.get(name)?.message ??
+        `Could not fetch the releases of ${name} to check their age`,
+    );
+    throw new VersionPolicyError(
+      `${reasons.join('; ')}. Pin ${unresolved.length === 1 ? 'it' : 'them'} with --pin <package>@<version> or lower --min-release-age`,
+    );
+  }
+
+  for (const name of names) {
+    if (name in pins) {
+      versions[name] = pins[name];
+    }
+  }
+  return versions;
+}
+
+/**
+ * Range style for a package: pinned packages are always exact
+ * Returns undefined when the language's usual style applies.
+ */
+export function getRangeStyle(
+  policy: VersionPolicy | undefined,
+  name: string,
+): RangeStyle | undefined {
+  return policy?.pins?.[name] !== undefined ? 'exact' : policy?.rangeStyle;
+}
+
+/**
+ * Formats an npm version range; an unresolved "latest" stays a dist-tag
+ */
+export function formatNpmRange(
+  version: string,
+  style: RangeStyle = 'caret',
+): string {
+  if (version === 'latest') {
+    return version;
+  }
+  switch (style) {
+    case 'caret':
+      return `^${version}`;
+    case 'tilde':
+      return `~${version}`;
+    case 'exact':
+      return version;
+  }
+}